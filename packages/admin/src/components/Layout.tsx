@@ -68,6 +68,34 @@ export default function Layout({ children }: LayoutProps) {
           >
             🎭 Actors
           </Link>
+          <Link
+            to="/domain-blocks"
+            style={{
+              padding: '0.75rem 1rem',
+              borderRadius: '6px',
+              textDecoration: 'none',
+              color: 'white',
+              background: isActive('/domain-blocks')
+                ? 'rgba(255,255,255,0.2)'
+                : 'transparent',
+            }}
+          >
+            🚫 Domain Blocks
+          </Link>
+          <Link
+            to="/relays"
+            style={{
+              padding: '0.75rem 1rem',
+              borderRadius: '6px',
+              textDecoration: 'none',
+              color: 'white',
+              background: isActive('/relays')
+                ? 'rgba(255,255,255,0.2)'
+                : 'transparent',
+            }}
+          >
+            📡 Relays
+          </Link>
         </nav>
 
         <button
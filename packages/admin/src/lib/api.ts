@@ -105,6 +105,40 @@ interface Actor {
   user?: { id: string; username: string; email: string };
 }
 
+type DomainBlockSeverity = 'silence' | 'suspend' | 'reject_media';
+
+interface DomainBlock {
+  id: string;
+  domain: string;
+  severity: DomainBlockSeverity;
+  privateComment: string | null;
+  publicComment: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type RelayState = 'pending' | 'accepted' | 'rejected';
+
+interface Relay {
+  id: string;
+  inboxUrl: string;
+  state: RelayState;
+  actorIri: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type KeyAlgorithm = 'RSASSA-PKCS1-v1_5' | 'Ed25519';
+
+interface UserKey {
+  id: string;
+  algorithm: KeyAlgorithm;
+  fingerprint: string;
+  isActive: boolean;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
 interface UsersResponse {
   data: User[];
   meta: PaginationMeta;
@@ -137,11 +171,41 @@ interface SyncAllResponse {
   errors: string[];
 }
 
+interface RefreshDomainResponse {
+  message: string;
+  refreshed: number;
+  failed: number;
+}
+
 interface FetchActorResponse {
   message: string;
   actor: Actor;
 }
 
+interface DomainBlocksResponse {
+  data: DomainBlock[];
+}
+
+interface DomainBlockResponse extends DomainBlock {
+  severedFollows: number;
+}
+
+interface RelaysResponse {
+  data: Relay[];
+  // Whether the instance actor needed to follow relays is configured
+  enabled: boolean;
+}
+
+interface UserKeysResponse {
+  data: UserKey[];
+}
+
+interface RotateKeysResponse {
+  message: string;
+  keys: UserKey[];
+  previousKeysExpireAt: string;
+}
+
 interface VerifyMagicLinkResponse {
   access_token: string;
 }
@@ -245,6 +309,31 @@ export const adminAPI = {
     }
   },
 
+  getUserKeys: async (
+    userId: string,
+  ): Promise<Result<UserKeysResponse, NetworkError | NotFoundError>> => {
+    try {
+      const response = await api.get(`/admin/users/${userId}/keys`);
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error) as NetworkError | NotFoundError);
+    }
+  },
+
+  rotateUserKeys: async (
+    userId: string,
+    gracePeriodHours?: number,
+  ): Promise<Result<RotateKeysResponse, ApiError>> => {
+    try {
+      const response = await api.post(`/admin/users/${userId}/keys/rotate`, {
+        gracePeriodHours,
+      });
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error));
+    }
+  },
+
   getActors: async (
     page = 1,
     limit = 20,
@@ -295,6 +384,19 @@ export const adminAPI = {
     }
   },
 
+  refreshActorsByDomain: async (
+    domain: string,
+  ): Promise<Result<RefreshDomainResponse, ApiError>> => {
+    try {
+      const response = await api.post('/admin/actors/refresh-domain', {
+        domain,
+      });
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error));
+    }
+  },
+
   updateUserQuota: async (
     userId: string,
     quota: number,
@@ -322,7 +424,100 @@ export const adminAPI = {
       return Err(parseAxiosError(error) as NetworkError | NotFoundError);
     }
   },
+
+  getDomainBlocks: async (): Promise<
+    Result<DomainBlocksResponse, NetworkError | UnauthorizedError>
+  > => {
+    try {
+      const response = await api.get('/admin/domain-blocks');
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error) as NetworkError | UnauthorizedError);
+    }
+  },
+
+  createDomainBlock: async (data: {
+    domain: string;
+    severity: DomainBlockSeverity;
+    privateComment?: string;
+    publicComment?: string;
+  }): Promise<Result<DomainBlockResponse, ApiError>> => {
+    try {
+      const response = await api.post('/admin/domain-blocks', data);
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error));
+    }
+  },
+
+  updateDomainBlock: async (
+    id: string,
+    data: {
+      severity?: DomainBlockSeverity;
+      privateComment?: string | null;
+      publicComment?: string | null;
+    },
+  ): Promise<Result<DomainBlockResponse, ApiError>> => {
+    try {
+      const response = await api.patch(`/admin/domain-blocks/${id}`, data);
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error));
+    }
+  },
+
+  removeDomainBlock: async (
+    id: string,
+  ): Promise<Result<void, NetworkError | NotFoundError>> => {
+    try {
+      await api.delete(`/admin/domain-blocks/${id}`);
+      return Ok(undefined);
+    } catch (error) {
+      return Err(parseAxiosError(error) as NetworkError | NotFoundError);
+    }
+  },
+
+  getRelays: async (): Promise<
+    Result<RelaysResponse, NetworkError | UnauthorizedError>
+  > => {
+    try {
+      const response = await api.get('/admin/relays');
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error) as NetworkError | UnauthorizedError);
+    }
+  },
+
+  addRelay: async (inboxUrl: string): Promise<Result<Relay, ApiError>> => {
+    try {
+      const response = await api.post('/admin/relays', { inboxUrl });
+      return Ok(response.data);
+    } catch (error) {
+      return Err(parseAxiosError(error));
+    }
+  },
+
+  removeRelay: async (
+    id: string,
+  ): Promise<Result<void, NetworkError | NotFoundError>> => {
+    try {
+      await api.delete(`/admin/relays/${id}`);
+      return Ok(undefined);
+    } catch (error) {
+      return Err(parseAxiosError(error) as NetworkError | NotFoundError);
+    }
+  },
 };
 
 // Re-export types for use in components
-export type { User, Actor, UsersResponse, ActorsResponse };
+export type {
+  User,
+  Actor,
+  UsersResponse,
+  ActorsResponse,
+  DomainBlock,
+  DomainBlockSeverity,
+  Relay,
+  RelayState,
+  UserKey,
+};
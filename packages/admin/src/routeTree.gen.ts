@@ -10,7 +10,10 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as UsersRouteImport } from './routes/users'
+import { Route as RelaysRouteImport } from './routes/relays'
 import { Route as LoginRouteImport } from './routes/login'
+import { Route as KeysRouteImport } from './routes/keys'
+import { Route as DomainBlocksRouteImport } from './routes/domain-blocks'
 import { Route as ActorsRouteImport } from './routes/actors'
 import { Route as IndexRouteImport } from './routes/index'
 
@@ -19,11 +22,26 @@ const UsersRoute = UsersRouteImport.update({
   path: '/users',
   getParentRoute: () => rootRouteImport,
 } as any)
+const RelaysRoute = RelaysRouteImport.update({
+  id: '/relays',
+  path: '/relays',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
   path: '/login',
   getParentRoute: () => rootRouteImport,
 } as any)
+const KeysRoute = KeysRouteImport.update({
+  id: '/keys',
+  path: '/keys',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const DomainBlocksRoute = DomainBlocksRouteImport.update({
+  id: '/domain-blocks',
+  path: '/domain-blocks',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ActorsRoute = ActorsRouteImport.update({
   id: '/actors',
   path: '/actors',
@@ -38,34 +56,68 @@ const IndexRoute = IndexRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/actors': typeof ActorsRoute
+  '/domain-blocks': typeof DomainBlocksRoute
+  '/keys': typeof KeysRoute
   '/login': typeof LoginRoute
+  '/relays': typeof RelaysRoute
   '/users': typeof UsersRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/actors': typeof ActorsRoute
+  '/domain-blocks': typeof DomainBlocksRoute
+  '/keys': typeof KeysRoute
   '/login': typeof LoginRoute
+  '/relays': typeof RelaysRoute
   '/users': typeof UsersRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/actors': typeof ActorsRoute
+  '/domain-blocks': typeof DomainBlocksRoute
+  '/keys': typeof KeysRoute
   '/login': typeof LoginRoute
+  '/relays': typeof RelaysRoute
   '/users': typeof UsersRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/actors' | '/login' | '/users'
+  fullPaths:
+    | '/'
+    | '/actors'
+    | '/domain-blocks'
+    | '/keys'
+    | '/login'
+    | '/relays'
+    | '/users'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/actors' | '/login' | '/users'
-  id: '__root__' | '/' | '/actors' | '/login' | '/users'
+  to:
+    | '/'
+    | '/actors'
+    | '/domain-blocks'
+    | '/keys'
+    | '/login'
+    | '/relays'
+    | '/users'
+  id:
+    | '__root__'
+    | '/'
+    | '/actors'
+    | '/domain-blocks'
+    | '/keys'
+    | '/login'
+    | '/relays'
+    | '/users'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   ActorsRoute: typeof ActorsRoute
+  DomainBlocksRoute: typeof DomainBlocksRoute
+  KeysRoute: typeof KeysRoute
   LoginRoute: typeof LoginRoute
+  RelaysRoute: typeof RelaysRoute
   UsersRoute: typeof UsersRoute
 }
 
@@ -78,6 +130,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof UsersRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/relays': {
+      id: '/relays'
+      path: '/relays'
+      fullPath: '/relays'
+      preLoaderRoute: typeof RelaysRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/login': {
       id: '/login'
       path: '/login'
@@ -85,6 +144,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LoginRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/keys': {
+      id: '/keys'
+      path: '/keys'
+      fullPath: '/keys'
+      preLoaderRoute: typeof KeysRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/domain-blocks': {
+      id: '/domain-blocks'
+      path: '/domain-blocks'
+      fullPath: '/domain-blocks'
+      preLoaderRoute: typeof DomainBlocksRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/actors': {
       id: '/actors'
       path: '/actors'
@@ -105,7 +178,10 @@ declare module '@tanstack/react-router' {
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   ActorsRoute: ActorsRoute,
+  DomainBlocksRoute: DomainBlocksRoute,
+  KeysRoute: KeysRoute,
   LoginRoute: LoginRoute,
+  RelaysRoute: RelaysRoute,
   UsersRoute: UsersRoute,
 }
 export const routeTree = rootRouteImport
@@ -25,6 +25,8 @@ function ActorsPage() {
   const [syncingAll, setSyncingAll] = useState(false);
   const [actorUrl, setActorUrl] = useState('');
   const [fetching, setFetching] = useState(false);
+  const [refreshDomain, setRefreshDomain] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
     fetchActors();
@@ -136,6 +138,40 @@ function ActorsPage() {
     setFetching(false);
   };
 
+  const handleRefreshDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!refreshDomain.trim()) {
+      alert('Please enter a domain.');
+      return;
+    }
+
+    setRefreshing(true);
+    const result = await adminAPI.refreshActorsByDomain(refreshDomain.trim());
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'VALIDATION':
+          alert(`Invalid input: ${result.error.message}`);
+          break;
+        case 'NETWORK':
+          alert(`Failed to refresh actors: ${result.error.message}`);
+          break;
+        default:
+          alert('Failed to refresh actors.');
+      }
+      setRefreshing(false);
+      return;
+    }
+    let message = `${result.value.refreshed} actors refreshed.`;
+    if (result.value.failed > 0) {
+      message += `\n${result.value.failed} actors could not be fetched.`;
+    }
+    alert(message);
+    setRefreshDomain('');
+    await fetchActors();
+    setRefreshing(false);
+  };
+
   if (loading)
     return (
       <Layout>
@@ -208,6 +244,58 @@ function ActorsPage() {
           </div>
         </form>
 
+        {/* Refresh Domain Form */}
+        <form
+          onSubmit={handleRefreshDomain}
+          style={{
+            marginBottom: '1rem',
+            background: '#f9fafb',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid #e5e7eb',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <label
+              htmlFor="refreshDomain"
+              style={{ fontWeight: '600', whiteSpace: 'nowrap' }}
+            >
+              Refresh Actors on Domain:
+            </label>
+            <input
+              id="refreshDomain"
+              type="text"
+              value={refreshDomain}
+              onChange={(e) => setRefreshDomain(e.target.value)}
+              placeholder="mastodon.social"
+              disabled={refreshing}
+              style={{
+                flex: 1,
+                padding: '0.5rem',
+                border: '1px solid #d1d5db',
+                borderRadius: '6px',
+                fontSize: '0.875rem',
+              }}
+            />
+            <button
+              type="submit"
+              disabled={refreshing}
+              style={{
+                padding: '0.5rem 1rem',
+                background: refreshing ? '#ccc' : '#667eea',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: refreshing ? 'not-allowed' : 'pointer',
+                fontWeight: '600',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {refreshing ? 'Refreshing...' : 'Refresh'}
+            </button>
+          </div>
+        </form>
+
         {/* Actions and Filters */}
         <div
           style={{
@@ -0,0 +1,378 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { useState, useEffect } from 'react';
+import { adminAPI, DomainBlock, DomainBlockSeverity } from '../lib/api';
+import Layout from '../components/Layout';
+
+export const Route = createFileRoute('/domain-blocks')({
+  beforeLoad: () => {
+    if (typeof window !== 'undefined') {
+      const token = localStorage.getItem('token');
+      if (!token) {
+        throw redirect({ to: '/login' });
+      }
+    }
+  },
+  component: DomainBlocksPage,
+});
+
+const SEVERITY_LABELS: Record<DomainBlockSeverity, string> = {
+  silence: 'Silence',
+  suspend: 'Suspend',
+  reject_media: 'Reject media',
+};
+
+const SEVERITY_COLORS: Record<
+  DomainBlockSeverity,
+  { background: string; color: string }
+> = {
+  silence: { background: '#fff3cd', color: '#856404' },
+  suspend: { background: '#f8d7da', color: '#721c24' },
+  reject_media: { background: '#e2e3e5', color: '#383d41' },
+};
+
+function DomainBlocksPage() {
+  const [blocks, setBlocks] = useState<DomainBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [domain, setDomain] = useState('');
+  const [severity, setSeverity] = useState<DomainBlockSeverity>('suspend');
+  const [publicComment, setPublicComment] = useState('');
+  const [privateComment, setPrivateComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBlocks();
+  }, []);
+
+  const fetchBlocks = async () => {
+    const result = await adminAPI.getDomainBlocks();
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'UNAUTHORIZED':
+          // handled by interceptor
+          break;
+        case 'NETWORK':
+          console.error(`Network error: ${result.error.status}`);
+          break;
+      }
+      setLoading(false);
+      return;
+    }
+    setBlocks(result.value.data);
+    setLoading(false);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!domain.trim()) {
+      alert('Please enter a domain.');
+      return;
+    }
+    if (
+      severity === 'suspend' &&
+      !confirm(
+        `Suspend ${domain}? All follows with this domain will be removed.`,
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    const result = await adminAPI.createDomainBlock({
+      domain: domain.trim(),
+      severity,
+      publicComment: publicComment.trim() || undefined,
+      privateComment: privateComment.trim() || undefined,
+    });
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'VALIDATION':
+          alert(`Invalid input: ${result.error.message}`);
+          break;
+        case 'CONFLICT':
+          alert(result.error.message);
+          break;
+        case 'NETWORK':
+          alert(`Failed to block domain: ${result.error.message}`);
+          break;
+        default:
+          alert('Failed to block domain.');
+      }
+      setSaving(false);
+      return;
+    }
+    if (result.value.severedFollows > 0) {
+      alert(`${result.value.severedFollows} follows were removed.`);
+    }
+    setDomain('');
+    setPublicComment('');
+    setPrivateComment('');
+    await fetchBlocks();
+    setSaving(false);
+  };
+
+  const handleChangeSeverity = async (
+    block: DomainBlock,
+    newSeverity: DomainBlockSeverity,
+  ) => {
+    if (
+      newSeverity === 'suspend' &&
+      !confirm(
+        `Suspend ${block.domain}? All follows with this domain will be removed.`,
+      )
+    ) {
+      return;
+    }
+
+    setUpdatingId(block.id);
+    const result = await adminAPI.updateDomainBlock(block.id, {
+      severity: newSeverity,
+    });
+    if (!result.ok) {
+      alert('Failed to update domain block.');
+      setUpdatingId(null);
+      return;
+    }
+    await fetchBlocks();
+    setUpdatingId(null);
+  };
+
+  const handleRemove = async (block: DomainBlock) => {
+    if (!confirm(`Unblock ${block.domain}?`)) {
+      return;
+    }
+
+    setUpdatingId(block.id);
+    const result = await adminAPI.removeDomainBlock(block.id);
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'NOT_FOUND':
+          alert('Domain block not found.');
+          break;
+        case 'NETWORK':
+          alert(`Failed to unblock domain: ${result.error.message}`);
+          break;
+      }
+      setUpdatingId(null);
+      return;
+    }
+    await fetchBlocks();
+    setUpdatingId(null);
+  };
+
+  if (loading)
+    return (
+      <Layout>
+        <div>Loading...</div>
+      </Layout>
+    );
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '1.5rem' }}>
+        <h1
+          style={{
+            fontSize: '1.875rem',
+            fontWeight: 'bold',
+            marginBottom: '1rem',
+          }}
+        >
+          Domain Blocks
+        </h1>
+
+        {/* Block Domain Form */}
+        <form
+          onSubmit={handleCreate}
+          style={{
+            marginBottom: '1rem',
+            background: '#f9fafb',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid #e5e7eb',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.5rem',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="example.com"
+              disabled={saving}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <select
+              value={severity}
+              onChange={(e) =>
+                setSeverity(e.target.value as DomainBlockSeverity)
+              }
+              disabled={saving}
+              style={inputStyle}
+            >
+              {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={saving}
+              style={{
+                padding: '0.5rem 1rem',
+                background: saving ? '#ccc' : '#dc2626',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: saving ? 'not-allowed' : 'pointer',
+                fontWeight: '600',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {saving ? 'Blocking...' : 'Block'}
+            </button>
+          </div>
+          <input
+            type="text"
+            value={publicComment}
+            onChange={(e) => setPublicComment(e.target.value)}
+            placeholder="Public reason (shown when the block list is published)"
+            disabled={saving}
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={privateComment}
+            onChange={(e) => setPrivateComment(e.target.value)}
+            placeholder="Private note for moderators"
+            disabled={saving}
+            style={inputStyle}
+          />
+        </form>
+      </div>
+
+      <div
+        style={{
+          background: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+          overflowX: 'auto',
+        }}
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead style={{ background: '#f9fafb' }}>
+            <tr>
+              <th style={thStyle}>Domain</th>
+              <th style={thStyle}>Severity</th>
+              <th style={thStyle}>Public Reason</th>
+              <th style={thStyle}>Private Note</th>
+              <th style={thStyle}>Created</th>
+              <th style={thStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {blocks.length === 0 && (
+              <tr>
+                <td
+                  colSpan={6}
+                  style={{
+                    padding: '1.5rem',
+                    textAlign: 'center',
+                    color: '#6b7280',
+                  }}
+                >
+                  No blocked domains
+                </td>
+              </tr>
+            )}
+            {blocks.map((block) => (
+              <tr key={block.id} style={{ borderTop: '1px solid #e5e7eb' }}>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    whiteSpace: 'nowrap',
+                    fontWeight: '600',
+                  }}
+                >
+                  {block.domain}
+                </td>
+                <td style={{ padding: '0.75rem' }}>
+                  <select
+                    value={block.severity}
+                    onChange={(e) =>
+                      handleChangeSeverity(
+                        block,
+                        e.target.value as DomainBlockSeverity,
+                      )
+                    }
+                    disabled={updatingId === block.id}
+                    style={{
+                      ...inputStyle,
+                      ...SEVERITY_COLORS[block.severity],
+                    }}
+                  >
+                    {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={{ padding: '0.75rem', fontSize: '0.875rem' }}>
+                  {block.publicComment || '-'}
+                </td>
+                <td style={{ padding: '0.75rem', fontSize: '0.875rem' }}>
+                  {block.privateComment || '-'}
+                </td>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    fontSize: '0.875rem',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {new Date(block.createdAt).toLocaleDateString()}
+                </td>
+                <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
+                  <button
+                    onClick={() => handleRemove(block)}
+                    disabled={updatingId === block.id}
+                    style={{
+                      padding: '0.375rem 0.75rem',
+                      background: updatingId === block.id ? '#ccc' : '#667eea',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor:
+                        updatingId === block.id ? 'not-allowed' : 'pointer',
+                      fontSize: '0.875rem',
+                    }}
+                  >
+                    Unblock
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Layout>
+  );
+}
+
+const thStyle: React.CSSProperties = {
+  padding: '0.75rem',
+  textAlign: 'left',
+  fontWeight: '600',
+  whiteSpace: 'nowrap',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+};
@@ -0,0 +1,277 @@
+import { createFileRoute, Link, redirect } from '@tanstack/react-router';
+import { useState, useEffect } from 'react';
+import { adminAPI, UserKey } from '../lib/api';
+import Layout from '../components/Layout';
+
+export const Route = createFileRoute('/keys')({
+  validateSearch: (
+    search: Record<string, unknown>,
+  ): { userId: string; username?: string } => ({
+    userId: search.userId ? String(search.userId) : '',
+    username: search.username ? String(search.username) : undefined,
+  }),
+  beforeLoad: () => {
+    if (typeof window !== 'undefined') {
+      const token = localStorage.getItem('token');
+      if (!token) {
+        throw redirect({ to: '/login' });
+      }
+    }
+  },
+  component: KeysPage,
+});
+
+const ALGORITHM_LABELS: Record<UserKey['algorithm'], string> = {
+  'RSASSA-PKCS1-v1_5': 'RSA',
+  Ed25519: 'Ed25519',
+};
+
+function KeysPage() {
+  const { userId, username } = Route.useSearch();
+  const [keys, setKeys] = useState<UserKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [gracePeriodHours, setGracePeriodHours] = useState('24');
+  const [rotating, setRotating] = useState(false);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [userId]);
+
+  const fetchKeys = async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const result = await adminAPI.getUserKeys(userId);
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'NOT_FOUND':
+          alert('User not found.');
+          break;
+        case 'NETWORK':
+          console.error(`Network error: ${result.error.status}`);
+          break;
+      }
+      setLoading(false);
+      return;
+    }
+    setKeys(result.value.data);
+    setLoading(false);
+  };
+
+  const handleRotate = async () => {
+    const hours = parseInt(gracePeriodHours, 10);
+    if (isNaN(hours) || hours < 0) {
+      alert('Please enter a valid grace period.');
+      return;
+    }
+    if (
+      !confirm(
+        `Rotate signing keys? The current keys stay valid for ${hours} hours.`,
+      )
+    ) {
+      return;
+    }
+
+    setRotating(true);
+    const result = await adminAPI.rotateUserKeys(userId, hours);
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'VALIDATION':
+          alert(`Invalid input: ${result.error.message}`);
+          break;
+        case 'NOT_FOUND':
+          alert('User not found.');
+          break;
+        case 'NETWORK':
+          alert(`Failed to rotate keys: ${result.error.message}`);
+          break;
+        default:
+          alert('Failed to rotate keys.');
+      }
+      setRotating(false);
+      return;
+    }
+    await fetchKeys();
+    setRotating(false);
+  };
+
+  if (loading)
+    return (
+      <Layout>
+        <div>Loading...</div>
+      </Layout>
+    );
+
+  if (!userId)
+    return (
+      <Layout>
+        <div>
+          Select a user on the <Link to="/users">Users</Link> page to view their
+          keys.
+        </div>
+      </Layout>
+    );
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '1.5rem' }}>
+        <h1
+          style={{
+            fontSize: '1.875rem',
+            fontWeight: 'bold',
+            marginBottom: '1rem',
+          }}
+        >
+          Signing Keys{username ? ` for @${username}` : ''}
+        </h1>
+
+        {/* Rotate Keys Form */}
+        <div
+          style={{
+            marginBottom: '1rem',
+            background: '#f9fafb',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid #e5e7eb',
+            display: 'flex',
+            gap: '0.5rem',
+            alignItems: 'center',
+          }}
+        >
+          <label style={{ fontSize: '0.875rem' }}>Grace period (hours)</label>
+          <input
+            type="number"
+            min="0"
+            value={gracePeriodHours}
+            onChange={(e) => setGracePeriodHours(e.target.value)}
+            disabled={rotating}
+            style={{ ...inputStyle, width: '80px' }}
+          />
+          <button
+            onClick={handleRotate}
+            disabled={rotating}
+            style={{
+              padding: '0.5rem 1rem',
+              background: rotating ? '#ccc' : '#dc2626',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: rotating ? 'not-allowed' : 'pointer',
+              fontWeight: '600',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {rotating ? 'Rotating...' : 'Rotate Keys'}
+          </button>
+        </div>
+      </div>
+
+      <div
+        style={{
+          background: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+          overflowX: 'auto',
+        }}
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead style={{ background: '#f9fafb' }}>
+            <tr>
+              <th style={thStyle}>Algorithm</th>
+              <th style={thStyle}>Fingerprint</th>
+              <th style={thStyle}>Status</th>
+              <th style={thStyle}>Created</th>
+              <th style={thStyle}>Expires</th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.length === 0 && (
+              <tr>
+                <td
+                  colSpan={5}
+                  style={{
+                    padding: '1.5rem',
+                    textAlign: 'center',
+                    color: '#6b7280',
+                  }}
+                >
+                  No keys have been generated yet
+                </td>
+              </tr>
+            )}
+            {keys.map((key) => (
+              <tr key={key.id} style={{ borderTop: '1px solid #e5e7eb' }}>
+                <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
+                  {ALGORITHM_LABELS[key.algorithm]}
+                </td>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    fontSize: '0.75rem',
+                    fontFamily: 'monospace',
+                  }}
+                >
+                  {key.fingerprint}
+                </td>
+                <td style={{ padding: '0.75rem' }}>
+                  <span
+                    style={{
+                      padding: '0.25rem 0.5rem',
+                      background: key.isActive ? '#d4edda' : '#e2e3e5',
+                      color: key.isActive ? '#155724' : '#383d41',
+                      borderRadius: '4px',
+                      fontSize: '0.875rem',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {!key.isActive
+                      ? 'Inactive'
+                      : key.expiresAt
+                        ? 'Expiring'
+                        : 'Active'}
+                  </span>
+                </td>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    fontSize: '0.875rem',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {new Date(key.createdAt).toLocaleString()}
+                </td>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    fontSize: '0.875rem',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {key.expiresAt
+                    ? new Date(key.expiresAt).toLocaleString()
+                    : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Layout>
+  );
+}
+
+const thStyle: React.CSSProperties = {
+  padding: '0.75rem',
+  textAlign: 'left',
+  fontWeight: '600',
+  whiteSpace: 'nowrap',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+};
@@ -0,0 +1,297 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+import { useState, useEffect } from 'react';
+import { adminAPI, Relay, RelayState } from '../lib/api';
+import Layout from '../components/Layout';
+
+export const Route = createFileRoute('/relays')({
+  beforeLoad: () => {
+    if (typeof window !== 'undefined') {
+      const token = localStorage.getItem('token');
+      if (!token) {
+        throw redirect({ to: '/login' });
+      }
+    }
+  },
+  component: RelaysPage,
+});
+
+const STATE_LABELS: Record<RelayState, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+const STATE_COLORS: Record<RelayState, { background: string; color: string }> =
+  {
+    pending: { background: '#fff3cd', color: '#856404' },
+    accepted: { background: '#d4edda', color: '#155724' },
+    rejected: { background: '#f8d7da', color: '#721c24' },
+  };
+
+function RelaysPage() {
+  const [relays, setRelays] = useState<Relay[]>([]);
+  const [enabled, setEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [inboxUrl, setInboxUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRelays();
+  }, []);
+
+  const fetchRelays = async () => {
+    const result = await adminAPI.getRelays();
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'UNAUTHORIZED':
+          // handled by interceptor
+          break;
+        case 'NETWORK':
+          console.error(`Network error: ${result.error.status}`);
+          break;
+      }
+      setLoading(false);
+      return;
+    }
+    setRelays(result.value.data);
+    setEnabled(result.value.enabled);
+    setLoading(false);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!inboxUrl.trim()) {
+      alert('Please enter the inbox URL of the relay.');
+      return;
+    }
+
+    setSaving(true);
+    const result = await adminAPI.addRelay(inboxUrl.trim());
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'VALIDATION':
+          alert(`Invalid input: ${result.error.message}`);
+          break;
+        case 'CONFLICT':
+          alert(result.error.message);
+          break;
+        case 'NETWORK':
+          alert(`Failed to add relay: ${result.error.message}`);
+          break;
+        default:
+          alert('Failed to add relay.');
+      }
+      setSaving(false);
+      return;
+    }
+    setInboxUrl('');
+    await fetchRelays();
+    setSaving(false);
+  };
+
+  const handleRemove = async (relay: Relay) => {
+    if (!confirm(`Unsubscribe from ${relay.inboxUrl}?`)) {
+      return;
+    }
+
+    setRemovingId(relay.id);
+    const result = await adminAPI.removeRelay(relay.id);
+    if (!result.ok) {
+      switch (result.error.type) {
+        case 'NOT_FOUND':
+          alert('Relay not found.');
+          break;
+        case 'NETWORK':
+          alert(`Failed to remove relay: ${result.error.message}`);
+          break;
+      }
+      setRemovingId(null);
+      return;
+    }
+    await fetchRelays();
+    setRemovingId(null);
+  };
+
+  if (loading)
+    return (
+      <Layout>
+        <div>Loading...</div>
+      </Layout>
+    );
+
+  return (
+    <Layout>
+      <div style={{ marginBottom: '1.5rem' }}>
+        <h1
+          style={{
+            fontSize: '1.875rem',
+            fontWeight: 'bold',
+            marginBottom: '1rem',
+          }}
+        >
+          Relays
+        </h1>
+
+        {!enabled && (
+          <div
+            style={{
+              marginBottom: '1rem',
+              padding: '0.75rem 1rem',
+              borderRadius: '8px',
+              background: '#fff3cd',
+              color: '#856404',
+            }}
+          >
+            Relays are followed by the instance actor. Set INSTANCE_ACTOR_KEY to
+            subscribe to relays.
+          </div>
+        )}
+
+        {/* Add Relay Form */}
+        <form
+          onSubmit={handleAdd}
+          style={{
+            marginBottom: '1rem',
+            background: '#f9fafb',
+            padding: '1rem',
+            borderRadius: '8px',
+            border: '1px solid #e5e7eb',
+            display: 'flex',
+            gap: '0.5rem',
+            alignItems: 'center',
+          }}
+        >
+          <input
+            type="url"
+            value={inboxUrl}
+            onChange={(e) => setInboxUrl(e.target.value)}
+            placeholder="https://relay.example.com/inbox"
+            disabled={saving || !enabled}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            type="submit"
+            disabled={saving || !enabled}
+            style={{
+              padding: '0.5rem 1rem',
+              background: saving || !enabled ? '#ccc' : '#667eea',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: saving || !enabled ? 'not-allowed' : 'pointer',
+              fontWeight: '600',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {saving ? 'Subscribing...' : 'Subscribe'}
+          </button>
+        </form>
+      </div>
+
+      <div
+        style={{
+          background: 'white',
+          borderRadius: '8px',
+          boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+          overflowX: 'auto',
+        }}
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead style={{ background: '#f9fafb' }}>
+            <tr>
+              <th style={thStyle}>Inbox URL</th>
+              <th style={thStyle}>State</th>
+              <th style={thStyle}>Created</th>
+              <th style={thStyle}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {relays.length === 0 && (
+              <tr>
+                <td
+                  colSpan={4}
+                  style={{
+                    padding: '1.5rem',
+                    textAlign: 'center',
+                    color: '#6b7280',
+                  }}
+                >
+                  No relays
+                </td>
+              </tr>
+            )}
+            {relays.map((relay) => (
+              <tr key={relay.id} style={{ borderTop: '1px solid #e5e7eb' }}>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    whiteSpace: 'nowrap',
+                    fontWeight: '600',
+                  }}
+                >
+                  {relay.inboxUrl}
+                </td>
+                <td style={{ padding: '0.75rem' }}>
+                  <span
+                    style={{
+                      padding: '0.25rem 0.5rem',
+                      borderRadius: '4px',
+                      fontSize: '0.75rem',
+                      fontWeight: '600',
+                      ...STATE_COLORS[relay.state],
+                    }}
+                  >
+                    {STATE_LABELS[relay.state]}
+                  </span>
+                </td>
+                <td
+                  style={{
+                    padding: '0.75rem',
+                    fontSize: '0.875rem',
+                    whiteSpace: 'nowrap',
+                  }}
+                >
+                  {new Date(relay.createdAt).toLocaleDateString()}
+                </td>
+                <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
+                  <button
+                    onClick={() => handleRemove(relay)}
+                    disabled={removingId === relay.id}
+                    style={{
+                      padding: '0.375rem 0.75rem',
+                      background: removingId === relay.id ? '#ccc' : '#dc2626',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor:
+                        removingId === relay.id ? 'not-allowed' : 'pointer',
+                      fontSize: '0.875rem',
+                    }}
+                  >
+                    Unsubscribe
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Layout>
+  );
+}
+
+const thStyle: React.CSSProperties = {
+  padding: '0.75rem',
+  textAlign: 'left',
+  fontWeight: '600',
+  whiteSpace: 'nowrap',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.5rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+};
@@ -1,4 +1,4 @@
-import { createFileRoute, redirect } from '@tanstack/react-router';
+import { createFileRoute, Link, redirect } from '@tanstack/react-router';
 import { useState, useEffect } from 'react';
 import { adminAPI, User } from '../lib/api';
 import Layout from '../components/Layout';
@@ -363,7 +363,7 @@ function UsersPage() {
                 >
                   {new Date(user.createdAt).toLocaleDateString()}
                 </td>
-                <td style={{ padding: '0.75rem' }}>
+                <td style={{ padding: '0.75rem', whiteSpace: 'nowrap' }}>
                   <button
                     onClick={() => toggleAdmin(user.id, user.isAdmin)}
                     style={{
@@ -379,6 +379,22 @@ function UsersPage() {
                   >
                     {user.isAdmin ? 'Revoke Admin' : 'Grant Admin'}
                   </button>
+                  <Link
+                    to="/keys"
+                    search={{ userId: user.id, username: user.username }}
+                    style={{
+                      marginLeft: '0.5rem',
+                      padding: '0.25rem 0.75rem',
+                      background: '#667eea',
+                      color: 'white',
+                      borderRadius: '4px',
+                      fontSize: '0.875rem',
+                      textDecoration: 'none',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    Keys
+                  </Link>
                 </td>
               </tr>
             ))}
@@ -23,11 +23,10 @@ import { MicrobloggingModule } from './modules/microblogging/microblogging.modul
 import { UploadModule } from './modules/upload/upload.module';
 import { PresentationModule } from './modules/presentation/presentation.module';
 import { AdminModule } from './modules/admin/admin.module';
-import {
-  InProcessMessageQueue,
-  MemoryKvStore,
-  Federation,
-} from '@fedify/fedify';
+import { AccountArchiveModule } from './modules/account-archive/account-archive.module';
+import { Federation } from '@fedify/fedify';
+import { DataSource } from 'typeorm';
+import { TypeOrmKvStore, TypeOrmMessageQueue } from './lib/fedify';
 
 const federationOrigin =
   process.env.FEDERATION_ORIGIN || 'http://localhost:3000';
@@ -36,6 +35,10 @@ const federationWebOrigin = process.env.FRONTEND_URL || 'http://localhost:3001';
 const federationHandleDomain =
   process.env.FEDERATION_HANDLE_DOMAIN || 'localhost:3000';
 
+// Persisted in Postgres; connected once the DataSource is ready
+const federationKv = new TypeOrmKvStore();
+const federationQueue = new TypeOrmMessageQueue();
+
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -44,8 +47,8 @@ const federationHandleDomain =
     DatabaseModule,
     FedifyModule.forRoot({
       // Allow localhost URLs in development
-      kv: new MemoryKvStore(),
-      queue: new InProcessMessageQueue(),
+      kv: federationKv,
+      queue: federationQueue,
       origin: {
         handleHost: federationHandleDomain,
         webOrigin:
@@ -62,6 +65,7 @@ const federationHandleDomain =
     UploadModule,
     PresentationModule,
     AdminModule,
+    AccountArchiveModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -69,7 +73,11 @@ const federationHandleDomain =
 export class AppModule implements NestModule {
   constructor(
     @Inject(FEDIFY_FEDERATION) private federation: Federation<unknown>,
-  ) {}
+    dataSource: DataSource,
+  ) {
+    federationKv.attach(dataSource);
+    federationQueue.attach(dataSource);
+  }
 
   configure(consumer: MiddlewareConsumer) {
     const fedifyMiddleware = integrateFederation(
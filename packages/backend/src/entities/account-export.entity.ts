@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export type AccountExportStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+@Entity('account_exports')
+@Index('IDX_account_exports_userId_createdAt', ['userId', 'createdAt'])
+export class AccountExport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column('uuid')
+  userId: string;
+
+  // pending: requested, not picked up yet
+  // running: the archive is being written
+  // completed: the archive is stored under `key`
+  // failed: see `error`
+  @Column({ default: 'pending' })
+  status: AccountExportStatus;
+
+  // Storage key of the finished archive
+  @Column({ type: 'varchar', nullable: true })
+  key: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ nullable: true })
+  completedAt: Date | null;
+}
@@ -77,6 +77,17 @@ export class Actor {
   @Column({ default: false })
   manuallyApprovesFollowers: boolean;
 
+  // IRIs of the other accounts this actor is known as (alsoKnownAs)
+  @Column('jsonb', { default: [] })
+  alsoKnownAs: string[];
+
+  // IRI of the account this actor has moved to, if any
+  @Column({ type: 'varchar', nullable: true })
+  movedTo: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  movedAt: Date | null;
+
   @Column({ default: 'Person' })
   type: string; // Person, Service, Application, etc.
 
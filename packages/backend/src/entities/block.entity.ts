@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+
+@Entity('blocks')
+@Unique(['blockerId', 'blockedId'])
+export class Block {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The actor who blocked
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blockerId' })
+  blocker: Actor;
+
+  @Column('uuid')
+  blockerId: string;
+
+  // The actor being blocked
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blockedId' })
+  blocked: Actor;
+
+  @Column('uuid')
+  blockedId: string;
+
+  // The ActivityPub ID of the Block activity
+  @Column({ nullable: true, unique: true })
+  iri: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
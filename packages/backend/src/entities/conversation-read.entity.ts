@@ -0,0 +1,31 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+
+@Entity('conversation_reads')
+@Unique(['actorId', 'conversationId'])
+export class ConversationRead {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The local actor who read the conversation
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  // Sorted IDs of the other participants, joined with '_'
+  @Column()
+  conversationId: string;
+
+  @Column()
+  lastReadAt: Date;
+}
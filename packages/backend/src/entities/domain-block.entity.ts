@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type DomainBlockSeverity = 'silence' | 'suspend' | 'reject_media';
+
+@Entity('domain_blocks')
+export class DomainBlock {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Blocked hostname; subdomains are covered as well
+  @Column({ unique: true })
+  domain: string;
+
+  // silence: hidden from the public timeline
+  // suspend: no federation at all (inbox, lookups, delivery, follows)
+  // reject_media: remote avatars and thumbnails are not stored
+  @Column({ default: 'suspend' })
+  severity: DomainBlockSeverity;
+
+  // Internal note for moderators
+  @Column('text', { nullable: true })
+  privateComment: string | null;
+
+  // Reason shown when the block list is published
+  @Column('text', { nullable: true })
+  publicComment: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Queue messages which kept failing after every retry
+@Entity('federation_dead_letters')
+export class FederationDeadLetter {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('jsonb')
+  message: any;
+
+  @Column({ type: 'varchar', nullable: true })
+  type: string | null;
+
+  @Index('IDX_federation_dead_letters_destination')
+  @Column({ type: 'varchar', nullable: true })
+  destination: string | null;
+
+  @Column()
+  attempts: number;
+
+  @Column('text', { nullable: true })
+  lastError: string | null;
+
+  // When the message was first enqueued
+  @Column()
+  enqueuedAt: Date;
+
+  @CreateDateColumn()
+  failedAt: Date;
+}
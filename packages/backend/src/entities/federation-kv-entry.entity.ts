@@ -0,0 +1,15 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm';
+
+@Entity('federation_kv')
+export class FederationKvEntry {
+  // JSON-encoded Fedify key, e.g. ["_fedify","remoteDocument","https://..."]
+  @PrimaryColumn('text')
+  key: string;
+
+  @Column('jsonb')
+  value: any;
+
+  @Index('IDX_federation_kv_expiresAt')
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('federation_queue')
+@Index('IDX_federation_queue_availableAt', ['availableAt'])
+export class FederationQueueMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Fedify queue message (outbox delivery, inbox processing, fanout)
+  @Column('jsonb')
+  message: any;
+
+  // Fedify message type: 'outbox', 'inbox' or 'fanout'
+  @Column({ type: 'varchar', nullable: true })
+  type: string | null;
+
+  // Host of the destination inbox, for outbox deliveries
+  @Index('IDX_federation_queue_destination')
+  @Column({ type: 'varchar', nullable: true })
+  destination: string | null;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  // The message is not handed out before this time (delay and backoff)
+  @Column()
+  availableAt: Date;
+
+  // Set while a worker is processing the message
+  @Column({ type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @Column('text', { nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
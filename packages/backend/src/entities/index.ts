@@ -7,3 +7,20 @@ export * from './follow.entity';
 export * from './keypair.entity';
 export * from './presentation.entity';
 export * from './tag.entity';
+export * from './like.entity';
+export * from './note-revision.entity';
+export * from './conversation-read.entity';
+export * from './federation-kv-entry.entity';
+export * from './federation-queue-message.entity';
+export * from './federation-dead-letter.entity';
+export * from './domain-block.entity';
+export * from './block.entity';
+export * from './mute.entity';
+export * from './pin.entity';
+export * from './reaction.entity';
+export * from './poll.entity';
+export * from './poll-vote.entity';
+export * from './tag-follow.entity';
+export * from './relay.entity';
+export * from './notification.entity';
+export * from './account-export.entity';
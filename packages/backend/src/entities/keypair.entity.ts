@@ -44,6 +44,10 @@ export class KeyPair {
   @Column({ default: true })
   isActive: boolean;
 
+  // Set when the key is rotated out; it stays published until then
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Note } from './note.entity';
+
+@Entity('likes')
+@Unique(['actorId', 'noteId'])
+export class Like {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The actor who liked the note
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  // The note being liked
+  @ManyToOne(() => Note, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note;
+
+  @Column('uuid')
+  noteId: string;
+
+  // The ActivityPub ID of the Like activity
+  @Column({ nullable: true, unique: true })
+  iri: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
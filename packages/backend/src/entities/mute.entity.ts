@@ -0,0 +1,37 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+
+// Mutes are local only and never federated
+@Entity('mutes')
+@Unique(['muterId', 'mutedId'])
+export class Mute {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The local actor who muted
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'muterId' })
+  muter: Actor;
+
+  @Column('uuid')
+  muterId: string;
+
+  // The actor being muted
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mutedId' })
+  muted: Actor;
+
+  @Column('uuid')
+  mutedId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
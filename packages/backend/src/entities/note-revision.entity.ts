@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Note } from './note.entity';
+
+// A previous version of a note, recorded every time the note is edited
+@Entity('note_revisions')
+export class NoteRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Note, (note) => note.revisions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note;
+
+  @Column('uuid')
+  noteId: string;
+
+  @Column('text', { nullable: true })
+  content: string;
+
+  @Column('text', { nullable: true })
+  source: string;
+
+  @Column({ default: 'text/plain' })
+  mediaType: string;
+
+  @Column({ nullable: true })
+  contentWarning: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
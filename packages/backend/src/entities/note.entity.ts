@@ -4,20 +4,26 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
   ManyToOne,
   JoinColumn,
   OneToOne,
   OneToMany,
   ManyToMany,
   JoinTable,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
 import { Actor } from './actor.entity';
 import { TimelinePost } from './timeline-post.entity';
 import { Mention } from './mention.entity';
 import { Tag } from './tag.entity';
+import { NoteRevision } from './note-revision.entity';
+import { Poll } from './poll.entity';
+import { Relay } from './relay.entity';
 
 @Entity('notes')
+@Index('IDX_notes_authorId_publishedAt_id', ['authorId', 'publishedAt', 'id'])
 export class Note {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -60,6 +66,17 @@ export class Note {
   @JoinColumn({ name: 'sharedNoteId' })
   sharedNote: Note;
 
+  // The note this note quotes; quoteUri is kept for quotes of unknown notes
+  @Column('uuid', { nullable: true })
+  quotedNoteId: string | null;
+
+  @ManyToOne(() => Note, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'quotedNoteId' })
+  quotedNote: Note | null;
+
+  @Column({ nullable: true })
+  quoteUri: string;
+
   @Column({ default: 'public' })
   visibility: 'public' | 'unlisted' | 'followers' | 'direct' | 'none';
 
@@ -69,6 +86,8 @@ export class Note {
   @Column('jsonb', { nullable: true, default: [] })
   attachments: Array<{
     type: string;
+    // Object ID, set on the presentation attached to its note
+    id?: string;
     url: string;
     mediaType: string;
     name?: string;
@@ -81,6 +100,10 @@ export class Note {
     href?: string;
   }>;
 
+  // IRIs of the actors and collections the note was addressed to (to/cc)
+  @Column('jsonb', { nullable: true, default: [] })
+  recipients: string[];
+
   @OneToMany(() => Mention, (mention) => mention.note)
   mentions: Mention[];
 
@@ -116,6 +139,28 @@ export class Note {
   @Column({ nullable: true })
   publishedAt: Date;
 
+  @Column({ nullable: true })
+  editedAt: Date;
+
+  @OneToMany(() => NoteRevision, (revision) => revision.note)
+  revisions: NoteRevision[];
+
+  @OneToOne(() => Poll, (poll) => poll.note)
+  poll: Poll | null;
+
+  // The relay a remote note was first received through; such notes only
+  // show up in the federated timeline
+  @Column('uuid', { nullable: true })
+  relayId: string | null;
+
+  @ManyToOne(() => Relay, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'relayId' })
+  relay: Relay | null;
+
+  // Set when a local note is deleted; the row is kept to serve a Tombstone
+  @DeleteDateColumn({ nullable: true })
+  deletedAt: Date | null;
+
   get noteUrl(): string {
     return `${process.env.FEDERATION_PROTOCOL}://${process.env.FEDERATION_HANDLE_DOMAIN}/notes/${this.id}`;
   }
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Note } from './note.entity';
+import { Presentation } from './presentation.entity';
+
+export const NOTIFICATION_TYPES = [
+  'mention',
+  'reply',
+  'follow',
+  'follow_request',
+  'share',
+  'like',
+  'presentation_comment',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+@Entity('notifications')
+@Index('IDX_notifications_recipientId_createdAt_id', [
+  'recipientId',
+  'createdAt',
+  'id',
+])
+export class Notification {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  type: NotificationType;
+
+  // The local actor being notified
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'recipientId' })
+  recipient: Actor;
+
+  @Column('uuid')
+  recipientId: string;
+
+  // The actor who mentioned, replied to, followed, shared or liked
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  // The mentioning note, the reply, or the note that was shared or liked
+  @ManyToOne(() => Note, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note | null;
+
+  @Column('uuid', { nullable: true })
+  noteId: string | null;
+
+  // The commented presentation of a presentation_comment
+  @ManyToOne(() => Presentation, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'presentationId' })
+  presentation: Presentation | null;
+
+  @Column('uuid', { nullable: true })
+  presentationId: string | null;
+
+  @Column({ nullable: true })
+  readAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
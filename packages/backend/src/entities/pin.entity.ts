@@ -0,0 +1,49 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Note } from './note.entity';
+import { Presentation } from './presentation.entity';
+
+@Entity('pins')
+@Unique(['actorId', 'noteId'])
+@Unique(['actorId', 'presentationId'])
+export class Pin {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The actor whose profile features the item
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  @ManyToOne(() => Note, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note | null;
+
+  @Column('uuid', { nullable: true })
+  noteId: string | null;
+
+  @ManyToOne(() => Presentation, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'presentationId' })
+  presentation: Presentation | null;
+
+  @Column('uuid', { nullable: true })
+  presentationId: string | null;
+
+  // The ActivityPub ID of a featured object (remote actors only)
+  @Column({ nullable: true })
+  iri: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
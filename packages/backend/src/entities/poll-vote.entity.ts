@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Poll } from './poll.entity';
+
+@Entity('poll_votes')
+@Unique(['pollId', 'actorId', 'choice'])
+export class PollVote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @ManyToOne(() => Poll, (poll) => poll.votes, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'pollId' })
+  poll: Poll;
+
+  @Column('uuid')
+  pollId: string;
+
+  // The actor who voted
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  // Index of the chosen option
+  @Column('int')
+  choice: number;
+
+  // The ActivityPub ID of the Note carrying the vote
+  @Column({ nullable: true, unique: true })
+  iri: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
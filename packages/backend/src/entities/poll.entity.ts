@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Note } from './note.entity';
+import { PollVote } from './poll-vote.entity';
+
+@Entity('polls')
+export class Poll {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @OneToOne(() => Note, (note) => note.poll, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note;
+
+  @Column('uuid', { unique: true })
+  noteId: string;
+
+  // Options in display order; a vote refers to an option by its index
+  @Column('jsonb', { default: [] })
+  options: Array<{
+    name: string;
+    votesCount: number;
+  }>;
+
+  // anyOf (multiple choice) instead of oneOf
+  @Column({ default: false })
+  multiple: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  // Set when the poll was closed; for local polls, once the final tallies
+  // were delivered
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt: Date | null;
+
+  @Column({ default: 0 })
+  votersCount: number;
+
+  @OneToMany(() => PollVote, (vote) => vote.poll)
+  votes: PollVote[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
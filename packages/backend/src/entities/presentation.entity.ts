@@ -8,6 +8,7 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { User } from './user.entity';
+import { Actor } from './actor.entity';
 
 @Entity('presentations')
 export class Presentation {
@@ -17,18 +18,43 @@ export class Presentation {
   @Column()
   title: string;
 
+  @Column('text', { nullable: true })
+  description: string | null;
+
+  @Column('int', { nullable: true })
+  pageCount: number | null;
+
   @Column()
   pdfKey: string;
 
   @Column()
   url: string;
 
-  @Column()
-  userId: string;
+  @Column({ nullable: true })
+  thumbnailUrl: string | null;
 
-  @ManyToOne(() => User)
+  // Only set for presentations uploaded on this instance
+  @Column({ nullable: true })
+  userId: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
   @JoinColumn({ name: 'userId' })
-  user: User;
+  user: User | null;
+
+  @ManyToOne(() => Actor, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor | null;
+
+  @Column('uuid', { nullable: true })
+  actorId: string | null;
+
+  // The ActivityPub ID of the Document (remote presentations only)
+  @Column({ nullable: true, unique: true })
+  iri: string | null;
+
+  // Direct link to the PDF of a remote presentation
+  @Column({ nullable: true })
+  pdfUrl: string | null;
 
   @Column('uuid', { nullable: true })
   noteId: string | null;
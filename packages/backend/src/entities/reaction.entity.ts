@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Note } from './note.entity';
+import { Presentation } from './presentation.entity';
+
+@Entity('reactions')
+@Unique(['actorId', 'noteId', 'content'])
+@Unique(['actorId', 'presentationId', 'content'])
+export class Reaction {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The actor who reacted
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  @ManyToOne(() => Note, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'noteId' })
+  note: Note | null;
+
+  @Column('uuid', { nullable: true })
+  noteId: string | null;
+
+  @ManyToOne(() => Presentation, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'presentationId' })
+  presentation: Presentation | null;
+
+  @Column('uuid', { nullable: true })
+  presentationId: string | null;
+
+  // A Unicode emoji or a custom emoji shortcode such as :blobcat:
+  @Column()
+  content: string;
+
+  // Image of a custom emoji
+  @Column({ nullable: true })
+  emojiUrl: string | null;
+
+  // The ActivityPub ID of the EmojiReact (or Like) activity
+  @Column({ nullable: true, unique: true })
+  iri: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type RelayState = 'pending' | 'accepted' | 'rejected';
+
+@Entity('relays')
+export class Relay {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // Inbox the instance actor's Follow is delivered to, and where our public
+  // notes and presentations are forwarded
+  @Column({ unique: true })
+  inboxUrl: string;
+
+  // pending: Follow sent, waiting for the relay's Accept
+  // accepted: announced posts are ingested and ours are forwarded
+  // rejected: the relay refused the subscription
+  @Column({ default: 'pending' })
+  state: RelayState;
+
+  // The ActivityPub ID of the Follow activity, matched against Accept/Reject
+  @Column({ unique: true })
+  followIri: string;
+
+  // The relay's own actor, known once it has answered the Follow
+  @Column({ nullable: true })
+  actorIri: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Actor } from './actor.entity';
+import { Tag } from './tag.entity';
+
+@Entity('tag_follows')
+@Unique(['actorId', 'tagId'])
+export class TagFollow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // The local actor following the hashtag
+  @ManyToOne(() => Actor, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'actorId' })
+  actor: Actor;
+
+  @Column('uuid')
+  actorId: string;
+
+  @ManyToOne(() => Tag, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tagId' })
+  tag: Tag;
+
+  @Column('uuid')
+  tagId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
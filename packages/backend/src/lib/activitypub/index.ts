@@ -1,22 +1,51 @@
 import {
   Note as APNote,
   Announce as APAnnounce,
+  Application,
   Context,
   Create,
   Document,
+  Hashtag,
   Image,
+  Link,
+  Mention as APMention,
   Person,
+  PropertyValue,
   PUBLIC_COLLECTION,
+  Question,
+  Collection,
   Source,
   Update,
 } from '@fedify/fedify';
 import { Temporal } from '@js-temporal/polyfill';
-import { Actor, Note, PostVisibility } from 'src/entities';
+import { Actor, Note, Poll, PostVisibility, Presentation } from 'src/entities';
+
+export const NOTE_LIKES_COLLECTION = 'likes';
+export const NOTE_REPLIES_COLLECTION = 'replies';
+export const TAG_COLLECTION = 'tag';
+
+// Media type of FEP-e232 object links, used for quote posts
+export const OBJECT_LINK_MEDIA_TYPE =
+  'application/ld+json; profile="https://www.w3.org/ns/activitystreams"';
+
+// Marks Document objects that were published by a Cosmoslide instance
+export const COSMOSLIDE_GENERATOR_NAME = 'Cosmoslide';
+export const PRESENTATION_PAGE_COUNT_PROPERTY = 'pageCount';
 
 export const toAPPersonObject = (
   ctx: Context<unknown>,
   actor: Actor,
-): Partial<Person & { icon?: Image; followers?: URL; following?: URL }> => {
+): Partial<
+  Person & {
+    icon?: Image;
+    followers?: URL;
+    following?: URL;
+    liked?: URL;
+    featured?: URL;
+    aliases?: URL[];
+    successor?: URL | null;
+  }
+> => {
   const identifier = actor.id;
 
   // Include icon if available and valid
@@ -45,12 +74,17 @@ export const toAPPersonObject = (
     summary: actor.summary,
     followers: ctx.getFollowersUri(identifier),
     following: ctx.getFollowingUri(identifier),
+    liked: ctx.getLikedUri(identifier),
+    featured: ctx.getFeaturedUri(identifier),
     manuallyApprovesFollowers: actor.manuallyApprovesFollowers,
     icon,
+    aliases: (actor.alsoKnownAs ?? []).map((alias) => new URL(alias)),
+    successor: actor.movedTo ? new URL(actor.movedTo) : null,
   };
 };
 
-export const toAPNote = (ctx: Context<unknown>, note: Note) => {
+// Properties shared by a plain note and a note with a poll (Question)
+const toAPNoteValues = (ctx: Context<unknown>, note: Note) => {
   const author = note.author;
   const published = Temporal.Instant.from(note.publishedAt.toISOString());
 
@@ -66,6 +100,7 @@ export const toAPNote = (ctx: Context<unknown>, note: Note) => {
         });
       } else if (attachment.type === 'Document') {
         return new Document({
+          id: attachment.id ? new URL(attachment.id) : undefined,
           url,
           mediaType: attachment.mediaType,
           name: attachment.name,
@@ -74,6 +109,39 @@ export const toAPNote = (ctx: Context<unknown>, note: Note) => {
       return url; // Fallback to just URL
     }) || [];
 
+  // Hashtags are always stored on the note; mentions only when loaded
+  const tags = [
+    ...(note.tags ?? [])
+      .filter((tag) => tag.type === 'Hashtag')
+      .map(
+        (tag) =>
+          new Hashtag({
+            name: tag.name,
+            href: tag.href ? new URL(tag.href) : undefined,
+          }),
+      ),
+    ...(note.mentions ?? [])
+      .filter((mention) => mention.actor)
+      .map(
+        (mention) =>
+          new APMention({
+            href: new URL(mention.actor.iri ?? mention.actor.actorId),
+            name:
+              mention.actor.acct ??
+              `@${mention.actor.preferredUsername}@${process.env.FEDERATION_HANDLE_DOMAIN}`,
+          }),
+      ),
+    ...(note.quoteUri
+      ? [
+          new Link({
+            href: new URL(note.quoteUri),
+            mediaType: OBJECT_LINK_MEDIA_TYPE,
+            name: `RE: ${note.quoteUri}`,
+          }),
+        ]
+      : []),
+  ];
+
   // Include source for markdown content (ActivityPub spec)
   const source = note.source
     ? new Source({
@@ -82,21 +150,152 @@ export const toAPNote = (ctx: Context<unknown>, note: Note) => {
       })
     : undefined;
 
-  return new APNote({
+  return {
     id: ctx.getObjectUri(APNote, { noteId: note.id }),
     attribution: ctx.getActorUri(note.authorId),
     url: new URL(
       `/@${author.preferredUsername}/${note.id}`,
       ctx.canonicalOrigin,
     ),
+    replyTarget: note.inReplyToUri ? new URL(note.inReplyToUri) : undefined,
+    quoteUrl: note.quoteUri ? new URL(note.quoteUri) : undefined,
     published,
+    updated: note.editedAt
+      ? Temporal.Instant.from(note.editedAt.toISOString())
+      : undefined,
     content: note.content,
+    summary: note.contentWarning || undefined,
+    sensitive: note.sensitive,
     source,
     attachments: attachments.length > 0 ? attachments : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    likes: ctx.getCollectionUri(NOTE_LIKES_COLLECTION, { noteId: note.id }),
+    replies: ctx.getCollectionUri(NOTE_REPLIES_COLLECTION, {
+      noteId: note.id,
+    }),
     ...getNoteVisibility(ctx, note),
+  };
+};
+
+export const toAPNote = (ctx: Context<unknown>, note: Note) =>
+  new APNote(toAPNoteValues(ctx, note));
+
+// A note with a poll; each option carries its vote count as replies
+export const toAPQuestion = (ctx: Context<unknown>, note: Note, poll: Poll) => {
+  const options = poll.options.map(
+    (option) =>
+      new APNote({
+        name: option.name,
+        replies: new Collection({ totalItems: option.votesCount }),
+      }),
+  );
+
+  return new Question({
+    ...toAPNoteValues(ctx, note),
+    ...(poll.multiple
+      ? { inclusiveOptions: options }
+      : { exclusiveOptions: options }),
+    endTime: poll.expiresAt
+      ? Temporal.Instant.from(poll.expiresAt.toISOString())
+      : undefined,
+    closed: poll.closedAt
+      ? Temporal.Instant.from(poll.closedAt.toISOString())
+      : undefined,
+    voters: poll.votersCount,
+  });
+};
+
+// Wraps a note in the Create activity used for delivery and the outbox
+export const toAPCreateNote = (ctx: Context<unknown>, note: Note) => {
+  const apNote = note.poll
+    ? toAPQuestion(ctx, note, note.poll)
+    : toAPNote(ctx, note);
+  return new Create({
+    id: new URL('#create', apNote.id ?? ctx.origin),
+    object: apNote,
+    actors: apNote?.attributionIds,
+    tos: apNote?.toIds,
+    ccs: apNote?.ccIds,
   });
 };
 
+export const getPresentationPdfUrl = (
+  ctx: Context<unknown>,
+  presentation: Presentation,
+) => new URL(`/upload/view/${presentation.pdfKey}`, ctx.origin);
+
+export const toAPPresentation = (
+  ctx: Context<unknown>,
+  presentation: Presentation,
+  actor: Actor,
+) => {
+  const pdfUrl = getPresentationPdfUrl(ctx, presentation);
+  const htmlUrl = new URL(presentation.url);
+  const thumbnail = presentation.thumbnailUrl
+    ? new Image({
+        url: new URL(presentation.thumbnailUrl),
+        mediaType: 'image/png',
+        name: `${presentation.title} (thumbnail)`,
+      })
+    : undefined;
+
+  // Servers that don't know about presentations render `content` as-is
+  const content = [
+    `<p>${escapeHtml(presentation.title)}</p>`,
+    presentation.description
+      ? `<p>${escapeHtml(presentation.description)}</p>`
+      : '',
+    `<p><a href="${htmlUrl.href}">Detail View</a> · <a href="${pdfUrl.href}">PDF</a></p>`,
+  ].join('');
+
+  return new Document({
+    id: ctx.getObjectUri(Document, { presentationId: presentation.id }),
+    attribution: ctx.getActorUri(actor.id),
+    name: presentation.title,
+    summary: presentation.description || undefined,
+    content,
+    mediaType: 'text/html',
+    urls: [
+      new Link({ href: htmlUrl, mediaType: 'text/html' }),
+      new Link({ href: pdfUrl, mediaType: 'application/pdf' }),
+    ],
+    attachments: [
+      new Link({
+        href: pdfUrl,
+        mediaType: 'application/pdf',
+        name: presentation.title,
+      }),
+      ...(presentation.pageCount != null
+        ? [
+            new PropertyValue({
+              name: PRESENTATION_PAGE_COUNT_PROPERTY,
+              value: presentation.pageCount.toString(),
+            }),
+          ]
+        : []),
+    ],
+    icon: thumbnail,
+    image: thumbnail,
+    generators: [
+      new Application({
+        name: COSMOSLIDE_GENERATOR_NAME,
+        url: new URL('/', ctx.canonicalOrigin),
+      }),
+    ],
+    published: Temporal.Instant.from(presentation.createdAt.toISOString()),
+    to: PUBLIC_COLLECTION,
+    ccs: [ctx.getFollowersUri(actor.id)],
+  });
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+
 export const toTemporalInstance = (
   datetime: string | Temporal.Instant | null,
 ) => {
@@ -124,51 +323,61 @@ export const toAPAnnounce = (ctx: Context<unknown>, share: Note) => {
 
 const getNoteVisibility = (ctx: Context<unknown>, note: Note) => {
   const authorId = new URL(note.author.actorId);
+  // Mentioned actors (including the parent author of a reply) are cc'd
+  const mentionedIds = (note.mentions ?? [])
+    .filter((mention) => mention.actor)
+    .map((mention) => new URL(mention.actor.iri ?? mention.actor.actorId));
   switch (note.visibility) {
     case 'public':
       return {
         tos: [authorId, PUBLIC_COLLECTION],
-        ccs: [PUBLIC_COLLECTION],
+        ccs: [PUBLIC_COLLECTION, ...mentionedIds],
       };
     case 'unlisted':
       return {
         tos: [authorId, ctx.getFollowersUri(note.author.id)],
-        ccs: [PUBLIC_COLLECTION],
+        ccs: [PUBLIC_COLLECTION, ...mentionedIds],
       };
     case 'followers':
       return {
         tos: [authorId, ctx.getFollowersUri(note.author.id)],
-        ccs: [ctx.getFollowersUri(note.author.id)],
+        ccs: [ctx.getFollowersUri(note.author.id), ...mentionedIds],
       };
     case 'direct':
-      return {};
+      // Direct notes are addressed to the mentioned actors only
+      return {
+        tos: mentionedIds,
+        ccs: [],
+      };
   }
 };
 
 const getSharedNoteVisibility = (ctx: Context<unknown>, share: Note) => {
-  const author = share.author;
-  const authorId = author.id;
-  const user = author.user;
-  const defaultVisibility = user.defaultVisibility;
+  const authorId = share.author.id;
   const authorUrl = ctx.getActorUri(authorId);
+  // The author of the shared note is always cc'd
+  const sharedAuthor = share.sharedNote?.author;
+  const sharedAuthorIds = sharedAuthor
+    ? [new URL(sharedAuthor.iri ?? sharedAuthor.actorId)]
+    : [];
 
-  switch (defaultVisibility) {
+  switch (share.visibility) {
     case PostVisibility.PUBLIC:
       return {
         tos: [authorUrl, PUBLIC_COLLECTION],
-        ccs: [PUBLIC_COLLECTION],
+        ccs: [PUBLIC_COLLECTION, ...sharedAuthorIds],
       };
     case 'unlisted':
       return {
         tos: [authorUrl, ctx.getFollowersUri(authorId)],
-        ccs: [PUBLIC_COLLECTION],
+        ccs: [PUBLIC_COLLECTION, ...sharedAuthorIds],
       };
     case 'followers':
       return {
         tos: [authorUrl, ctx.getFollowersUri(authorId)],
-        ccs: [ctx.getFollowersUri(authorId)],
+        ccs: [ctx.getFollowersUri(authorId), ...sharedAuthorIds],
       };
-    case 'direct':
+    default:
       return {};
   }
 };
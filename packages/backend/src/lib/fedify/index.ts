@@ -0,0 +1,2 @@
+export * from './typeorm-kv-store';
+export * from './typeorm-message-queue';
@@ -0,0 +1,145 @@
+import type {
+  KvKey,
+  KvStore,
+  KvStoreListEntry,
+  KvStoreSetOptions,
+} from '@fedify/fedify';
+import { isDeepStrictEqual } from 'util';
+import { Brackets, DataSource, EntityManager } from 'typeorm';
+import { FederationKvEntry } from 'src/entities/federation-kv-entry.entity';
+
+/**
+ * Fedify key–value store backed by the `federation_kv` table.
+ *
+ * The store is created before Nest has connected to the database, so the
+ * DataSource is handed over later through `attach()`; every operation waits
+ * until then.
+ */
+export class TypeOrmKvStore implements KvStore {
+  #dataSource: Promise<DataSource>;
+  #resolveDataSource: (dataSource: DataSource) => void;
+
+  constructor() {
+    this.#dataSource = new Promise((resolve) => {
+      this.#resolveDataSource = resolve;
+    });
+  }
+
+  attach(dataSource: DataSource): void {
+    this.#resolveDataSource(dataSource);
+  }
+
+  async get<T = unknown>(key: KvKey): Promise<T | undefined> {
+    const dataSource = await this.#dataSource;
+    const entry = await this.#findEntry(dataSource.manager, key);
+
+    return entry?.value as T | undefined;
+  }
+
+  async set(
+    key: KvKey,
+    value: unknown,
+    options?: KvStoreSetOptions,
+  ): Promise<void> {
+    const dataSource = await this.#dataSource;
+    await this.#upsertEntry(dataSource.manager, key, value, options);
+  }
+
+  async delete(key: KvKey): Promise<void> {
+    const dataSource = await this.#dataSource;
+    await dataSource
+      .getRepository(FederationKvEntry)
+      .delete({ key: this.#serializeKey(key) });
+  }
+
+  async cas(
+    key: KvKey,
+    expectedValue: unknown,
+    newValue: unknown,
+    options?: KvStoreSetOptions,
+  ): Promise<boolean> {
+    const dataSource = await this.#dataSource;
+
+    return dataSource.transaction(async (manager) => {
+      const entry = await this.#findEntry(manager, key, true);
+      if (!isDeepStrictEqual(entry?.value, expectedValue)) return false;
+
+      await this.#upsertEntry(manager, key, newValue, options);
+      return true;
+    });
+  }
+
+  async *list(prefix?: KvKey): AsyncIterable<KvStoreListEntry> {
+    const dataSource = await this.#dataSource;
+    const queryBuilder = dataSource
+      .getRepository(FederationKvEntry)
+      .createQueryBuilder('entry')
+      .where(
+        new Brackets((qb) =>
+          qb
+            .where('entry.expiresAt IS NULL')
+            .orWhere('entry.expiresAt > :now', { now: new Date() }),
+        ),
+      )
+      .orderBy('entry.key', 'ASC');
+
+    if (prefix) {
+      // Keys are stored as JSON arrays, so a prefix is matched as the exact
+      // key or as the leading elements followed by a comma
+      const serialized = this.#serializeKey(prefix);
+      const pattern = serialized.slice(0, -1).replace(/[\\%_]/g, '\\$&');
+      queryBuilder.andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('entry.key = :key', { key: serialized })
+            .orWhere('entry.key LIKE :pattern', { pattern: `${pattern},%` }),
+        ),
+      );
+    }
+
+    for (const entry of await queryBuilder.getMany()) {
+      yield { key: JSON.parse(entry.key) as KvKey, value: entry.value };
+    }
+  }
+
+  async #findEntry(
+    manager: EntityManager,
+    key: KvKey,
+    lock: boolean = false,
+  ): Promise<FederationKvEntry | null> {
+    const entry = await manager.getRepository(FederationKvEntry).findOne({
+      where: { key: this.#serializeKey(key) },
+      ...(lock ? { lock: { mode: 'pessimistic_write' as const } } : {}),
+    });
+
+    // Expired entries are treated as missing and cleaned up lazily
+    if (entry?.expiresAt && entry.expiresAt <= new Date()) {
+      await manager.getRepository(FederationKvEntry).delete({ key: entry.key });
+      return null;
+    }
+
+    return entry;
+  }
+
+  async #upsertEntry(
+    manager: EntityManager,
+    key: KvKey,
+    value: unknown,
+    options?: KvStoreSetOptions,
+  ): Promise<void> {
+    const expiresAt = options?.ttl
+      ? new Date(Date.now() + options.ttl.total('millisecond'))
+      : null;
+
+    const entry: Partial<FederationKvEntry> = {
+      key: this.#serializeKey(key),
+      value,
+      expiresAt,
+    };
+    await manager.getRepository(FederationKvEntry).upsert(entry, ['key']);
+  }
+
+  #serializeKey(key: KvKey): string {
+    return JSON.stringify(key);
+  }
+}
@@ -0,0 +1,233 @@
+import type {
+  MessageQueue,
+  MessageQueueEnqueueOptions,
+  MessageQueueListenOptions,
+} from '@fedify/fedify';
+import { Logger } from '@nestjs/common';
+import { Temporal } from '@js-temporal/polyfill';
+import { DataSource } from 'typeorm';
+import { FederationDeadLetter } from 'src/entities/federation-dead-letter.entity';
+import { FederationQueueMessage } from 'src/entities/federation-queue-message.entity';
+
+export interface TypeOrmMessageQueueOptions {
+  /**
+   * How often to look for due messages when the queue is idle.
+   * @default `{ seconds: 5 }`
+   */
+  pollInterval?: Temporal.DurationLike;
+
+  /**
+   * Delay before the first retry; doubled on every following attempt.
+   * @default `{ seconds: 30 }`
+   */
+  initialRetryDelay?: Temporal.DurationLike;
+
+  /**
+   * Upper bound of the retry delay.
+   * @default `{ hours: 12 }`
+   */
+  maxRetryDelay?: Temporal.DurationLike;
+
+  /**
+   * Attempts after which a message is moved to the dead-letter table.
+   * @default `10`
+   */
+  maxAttempts?: number;
+
+  /**
+   * How long a claimed message stays locked.  If the worker dies meanwhile,
+   * the message becomes available to other workers once this has passed.
+   * @default `{ minutes: 5 }`
+   */
+  lockTimeout?: Temporal.DurationLike;
+}
+
+/**
+ * Fedify message queue backed by the `federation_queue` table.
+ *
+ * Messages are claimed with `FOR UPDATE SKIP LOCKED`, so several processes
+ * can listen on the same table.  Failed messages are retried with
+ * exponential backoff and end up in `federation_dead_letters` once they run
+ * out of attempts.  Like `TypeOrmKvStore`, it waits for `attach()` before
+ * touching the database.
+ */
+export class TypeOrmMessageQueue implements MessageQueue {
+  // Retries are handled here instead of Fedify's retry policies
+  readonly nativeRetrial = true;
+
+  readonly #logger = new Logger(TypeOrmMessageQueue.name);
+  readonly #pollInterval: number;
+  readonly #initialRetryDelay: number;
+  readonly #maxRetryDelay: number;
+  readonly #maxAttempts: number;
+  readonly #lockTimeout: number;
+
+  #dataSource: Promise<DataSource>;
+  #resolveDataSource: (dataSource: DataSource) => void;
+
+  constructor(options: TypeOrmMessageQueueOptions = {}) {
+    this.#pollInterval = toMilliseconds(options.pollInterval ?? { seconds: 5 });
+    this.#initialRetryDelay = toMilliseconds(
+      options.initialRetryDelay ?? { seconds: 30 },
+    );
+    this.#maxRetryDelay = toMilliseconds(
+      options.maxRetryDelay ?? { hours: 12 },
+    );
+    this.#maxAttempts = options.maxAttempts ?? 10;
+    this.#lockTimeout = toMilliseconds(options.lockTimeout ?? { minutes: 5 });
+
+    this.#dataSource = new Promise((resolve) => {
+      this.#resolveDataSource = resolve;
+    });
+  }
+
+  attach(dataSource: DataSource): void {
+    this.#resolveDataSource(dataSource);
+  }
+
+  async enqueue(
+    message: any,
+    options?: MessageQueueEnqueueOptions,
+  ): Promise<void> {
+    await this.enqueueMany([message], options);
+  }
+
+  async enqueueMany(
+    messages: any[],
+    options?: MessageQueueEnqueueOptions,
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    const dataSource = await this.#dataSource;
+    const delay = options?.delay ? options.delay.total('millisecond') : 0;
+    const availableAt = new Date(Date.now() + Math.max(0, delay));
+
+    await dataSource.getRepository(FederationQueueMessage).insert(
+      messages.map((message) => ({
+        message,
+        type: typeof message?.type === 'string' ? message.type : null,
+        destination: getDestination(message),
+        availableAt,
+      })),
+    );
+  }
+
+  async listen(
+    handler: (message: any) => Promise<void> | void,
+    options?: MessageQueueListenOptions,
+  ): Promise<void> {
+    const signal = options?.signal;
+    const dataSource = await this.#dataSource;
+
+    while (!signal?.aborted) {
+      let job: FederationQueueMessage | null;
+      try {
+        job = await this.#claim(dataSource);
+      } catch (error) {
+        this.#logger.error(`Failed to poll the federation queue: ${error}`);
+        job = null;
+      }
+
+      if (!job) {
+        await sleep(this.#pollInterval, signal);
+        continue;
+      }
+
+      try {
+        await handler(job.message);
+        await dataSource.getRepository(FederationQueueMessage).delete(job.id);
+      } catch (error) {
+        await this.#fail(dataSource, job, error).catch((failError) =>
+          this.#logger.error(
+            `Failed to reschedule queue message ${job.id}: ${failError}`,
+          ),
+        );
+      }
+    }
+  }
+
+  // Atomically pick the next due message and lock it for this worker
+  async #claim(dataSource: DataSource): Promise<FederationQueueMessage | null> {
+    const now = new Date();
+    const result = await dataSource
+      .getRepository(FederationQueueMessage)
+      .createQueryBuilder()
+      .update()
+      .set({
+        attempts: () => '"attempts" + 1',
+        lockedUntil: new Date(now.getTime() + this.#lockTimeout),
+      })
+      .where(
+        `id = (SELECT id FROM federation_queue WHERE "availableAt" <= :now AND ("lockedUntil" IS NULL OR "lockedUntil" <= :now) ORDER BY "availableAt" ASC LIMIT 1 FOR UPDATE SKIP LOCKED)`,
+        { now },
+      )
+      .returning('*')
+      .execute();
+
+    const rows = result.raw as FederationQueueMessage[];
+    return rows[0] ?? null;
+  }
+
+  async #fail(
+    dataSource: DataSource,
+    job: FederationQueueMessage,
+    error: unknown,
+  ): Promise<void> {
+    const lastError = String(error instanceof Error ? error.stack : error);
+
+    if (job.attempts >= this.#maxAttempts) {
+      await dataSource.transaction(async (manager) => {
+        await manager.getRepository(FederationDeadLetter).insert({
+          message: job.message,
+          type: job.type,
+          destination: job.destination,
+          attempts: job.attempts,
+          lastError,
+          enqueuedAt: job.createdAt,
+        });
+        await manager.getRepository(FederationQueueMessage).delete(job.id);
+      });
+      this.#logger.warn(
+        `Queue message ${job.id} moved to dead letters after ${job.attempts} attempts`,
+      );
+      return;
+    }
+
+    const delay = Math.min(
+      this.#initialRetryDelay * 2 ** (job.attempts - 1),
+      this.#maxRetryDelay,
+    );
+    await dataSource.getRepository(FederationQueueMessage).update(job.id, {
+      availableAt: new Date(Date.now() + delay),
+      lockedUntil: null,
+      lastError,
+    });
+  }
+}
+
+function toMilliseconds(duration: Temporal.DurationLike): number {
+  return Temporal.Duration.from(duration).total('millisecond');
+}
+
+// Host of the inbox an outbox message is delivered to
+function getDestination(message: any): string | null {
+  if (typeof message?.inbox !== 'string') return null;
+
+  try {
+    return new URL(message.inbox).host;
+  } catch {
+    return null;
+  }
+}
+
+function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeout = setTimeout(done, milliseconds);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
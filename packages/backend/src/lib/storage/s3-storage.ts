@@ -64,6 +64,24 @@ export class S3Storage {
     await this.client.send(command);
   }
 
+  /**
+   * Upload a stream to S3; its length has to be known up front
+   */
+  async putStream(
+    key: string,
+    content: Readable,
+    contentLength: number,
+  ): Promise<void> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content,
+      ContentLength: contentLength,
+    });
+
+    await this.client.send(command);
+  }
+
   /**
    * Delete a file from S3
    */
@@ -111,6 +129,13 @@ export class S3Storage {
     }
 
     // Otherwise, generate a presigned URL
+    return this.getSignedUrl(key, expiresIn);
+  }
+
+  /**
+   * Generate a presigned URL, even when a public URL is configured
+   */
+  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: this.bucket,
       Key: key,
@@ -170,4 +195,18 @@ export class S3Storage {
 
     return Buffer.concat(chunks);
   }
+
+  /**
+   * Get file as a stream
+   */
+  async getStream(key: string): Promise<Readable> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const response = await this.client.send(command);
+
+    return response.Body as Readable;
+  }
 }
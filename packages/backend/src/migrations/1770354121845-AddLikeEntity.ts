@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLikeEntity1770354121845 implements MigrationInterface {
+  name = 'AddLikeEntity1770354121845';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "likes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "actorId" uuid NOT NULL, "noteId" uuid NOT NULL, "iri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_likes_iri" UNIQUE ("iri"), CONSTRAINT "UQ_likes_actorId_noteId" UNIQUE ("actorId", "noteId"), CONSTRAINT "PK_likes_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_likes_noteId" ON "likes" ("noteId")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "likes" ADD CONSTRAINT "FK_likes_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "likes" ADD CONSTRAINT "FK_likes_noteId" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "likes" DROP CONSTRAINT "FK_likes_noteId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "likes" DROP CONSTRAINT "FK_likes_actorId"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_likes_noteId"`);
+    await queryRunner.query(`DROP TABLE "likes"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNoteRevisions1770526310547 implements MigrationInterface {
+  name = 'AddNoteRevisions1770526310547';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notes" ADD "editedAt" TIMESTAMP`);
+    await queryRunner.query(
+      `CREATE TABLE "note_revisions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "noteId" uuid NOT NULL, "content" text, "source" text, "mediaType" character varying NOT NULL DEFAULT 'text/plain', "contentWarning" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_note_revisions_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_note_revisions_noteId" ON "note_revisions" ("noteId")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "note_revisions" ADD CONSTRAINT "FK_note_revisions_noteId" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "note_revisions" DROP CONSTRAINT "FK_note_revisions_noteId"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_note_revisions_noteId"`);
+    await queryRunner.query(`DROP TABLE "note_revisions"`);
+    await queryRunner.query(`ALTER TABLE "notes" DROP COLUMN "editedAt"`);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPresentationDocumentFields1770611934208 implements MigrationInterface {
+  name = 'AddPresentationDocumentFields1770611934208';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD "description" text`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD "pageCount" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD "thumbnailUrl" character varying`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP COLUMN "thumbnailUrl"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP COLUMN "pageCount"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP COLUMN "description"`,
+    );
+  }
+}
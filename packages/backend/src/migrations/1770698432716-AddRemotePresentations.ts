@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRemotePresentations1770698432716 implements MigrationInterface {
+  name = 'AddRemotePresentations1770698432716';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ALTER COLUMN "userId" DROP NOT NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "presentations" ADD "actorId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD "iri" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD "pdfUrl" character varying`,
+    );
+    await queryRunner.query(
+      `UPDATE "presentations" SET "actorId" = "actors"."id" FROM "actors" WHERE "actors"."userId" = "presentations"."userId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD CONSTRAINT "UQ_presentations_iri" UNIQUE ("iri")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_presentations_actorId" ON "presentations" ("actorId")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ADD CONSTRAINT "FK_presentations_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP CONSTRAINT "FK_presentations_actorId"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_presentations_actorId"`);
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP CONSTRAINT "UQ_presentations_iri"`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "presentations" WHERE "userId" IS NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "presentations" DROP COLUMN "pdfUrl"`);
+    await queryRunner.query(`ALTER TABLE "presentations" DROP COLUMN "iri"`);
+    await queryRunner.query(
+      `ALTER TABLE "presentations" DROP COLUMN "actorId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "presentations" ALTER COLUMN "userId" SET NOT NULL`,
+    );
+  }
+}
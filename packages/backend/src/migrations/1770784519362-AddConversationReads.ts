@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddConversationReads1770784519362 implements MigrationInterface {
+  name = 'AddConversationReads1770784519362';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "conversation_reads" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "actorId" uuid NOT NULL, "conversationId" character varying NOT NULL, "lastReadAt" TIMESTAMP NOT NULL, CONSTRAINT "UQ_conversation_reads_actorId_conversationId" UNIQUE ("actorId", "conversationId"), CONSTRAINT "PK_conversation_reads_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "conversation_reads" ADD CONSTRAINT "FK_conversation_reads_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "conversation_reads" DROP CONSTRAINT "FK_conversation_reads_actorId"`,
+    );
+    await queryRunner.query(`DROP TABLE "conversation_reads"`);
+  }
+}
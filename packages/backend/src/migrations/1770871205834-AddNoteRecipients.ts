@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNoteRecipients1770871205834 implements MigrationInterface {
+  name = 'AddNoteRecipients1770871205834';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notes" ADD "recipients" jsonb DEFAULT '[]'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notes" DROP COLUMN "recipients"`);
+  }
+}
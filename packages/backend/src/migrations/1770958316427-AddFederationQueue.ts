@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFederationQueue1770958316427 implements MigrationInterface {
+  name = 'AddFederationQueue1770958316427';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "federation_kv" ("key" text NOT NULL, "value" jsonb NOT NULL, "expiresAt" TIMESTAMP, CONSTRAINT "PK_federation_kv_key" PRIMARY KEY ("key"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_federation_kv_expiresAt" ON "federation_kv" ("expiresAt") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "federation_queue" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "message" jsonb NOT NULL, "type" character varying, "destination" character varying, "attempts" integer NOT NULL DEFAULT '0', "availableAt" TIMESTAMP NOT NULL, "lockedUntil" TIMESTAMP, "lastError" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_federation_queue_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_federation_queue_availableAt" ON "federation_queue" ("availableAt") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_federation_queue_destination" ON "federation_queue" ("destination") `,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "federation_dead_letters" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "message" jsonb NOT NULL, "type" character varying, "destination" character varying, "attempts" integer NOT NULL, "lastError" text, "enqueuedAt" TIMESTAMP NOT NULL, "failedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_federation_dead_letters_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_federation_dead_letters_destination" ON "federation_dead_letters" ("destination") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_federation_dead_letters_destination"`,
+    );
+    await queryRunner.query(`DROP TABLE "federation_dead_letters"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_federation_queue_destination"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_federation_queue_availableAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "federation_queue"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_federation_kv_expiresAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "federation_kv"`);
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDomainBlocks1771044728913 implements MigrationInterface {
+  name = 'AddDomainBlocks1771044728913';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "domain_blocks" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "domain" character varying NOT NULL, "severity" character varying NOT NULL DEFAULT 'suspend', "privateComment" text, "publicComment" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_domain_blocks_domain" UNIQUE ("domain"), CONSTRAINT "PK_domain_blocks_id" PRIMARY KEY ("id"))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "domain_blocks"`);
+  }
+}
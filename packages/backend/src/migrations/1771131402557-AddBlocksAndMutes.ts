@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBlocksAndMutes1771131402557 implements MigrationInterface {
+  name = 'AddBlocksAndMutes1771131402557';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "blocks" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "blockerId" uuid NOT NULL, "blockedId" uuid NOT NULL, "iri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_blocks_iri" UNIQUE ("iri"), CONSTRAINT "UQ_blocks_blockerId_blockedId" UNIQUE ("blockerId", "blockedId"), CONSTRAINT "PK_blocks_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blocks" ADD CONSTRAINT "FK_blocks_blockerId" FOREIGN KEY ("blockerId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blocks" ADD CONSTRAINT "FK_blocks_blockedId" FOREIGN KEY ("blockedId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "mutes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "muterId" uuid NOT NULL, "mutedId" uuid NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_mutes_muterId_mutedId" UNIQUE ("muterId", "mutedId"), CONSTRAINT "PK_mutes_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "mutes" ADD CONSTRAINT "FK_mutes_muterId" FOREIGN KEY ("muterId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "mutes" ADD CONSTRAINT "FK_mutes_mutedId" FOREIGN KEY ("mutedId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "mutes" DROP CONSTRAINT "FK_mutes_mutedId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "mutes" DROP CONSTRAINT "FK_mutes_muterId"`,
+    );
+    await queryRunner.query(`DROP TABLE "mutes"`);
+    await queryRunner.query(
+      `ALTER TABLE "blocks" DROP CONSTRAINT "FK_blocks_blockedId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "blocks" DROP CONSTRAINT "FK_blocks_blockerId"`,
+    );
+    await queryRunner.query(`DROP TABLE "blocks"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddActorMigration1771217936104 implements MigrationInterface {
+  name = 'AddActorMigration1771217936104';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "actors" ADD "alsoKnownAs" jsonb NOT NULL DEFAULT '[]'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "actors" ADD "movedTo" character varying`,
+    );
+    await queryRunner.query(`ALTER TABLE "actors" ADD "movedAt" TIMESTAMP`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "actors" DROP COLUMN "movedAt"`);
+    await queryRunner.query(`ALTER TABLE "actors" DROP COLUMN "movedTo"`);
+    await queryRunner.query(`ALTER TABLE "actors" DROP COLUMN "alsoKnownAs"`);
+  }
+}
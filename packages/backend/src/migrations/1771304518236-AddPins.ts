@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPins1771304518236 implements MigrationInterface {
+  name = 'AddPins1771304518236';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "pins" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "actorId" uuid NOT NULL, "noteId" uuid, "presentationId" uuid, "iri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_pins_actorId_noteId" UNIQUE ("actorId", "noteId"), CONSTRAINT "UQ_pins_actorId_presentationId" UNIQUE ("actorId", "presentationId"), CONSTRAINT "PK_pins_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "pins" ADD CONSTRAINT "FK_pins_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "pins" ADD CONSTRAINT "FK_pins_noteId" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "pins" ADD CONSTRAINT "FK_pins_presentationId" FOREIGN KEY ("presentationId") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "pins" DROP CONSTRAINT "FK_pins_presentationId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "pins" DROP CONSTRAINT "FK_pins_noteId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "pins" DROP CONSTRAINT "FK_pins_actorId"`,
+    );
+    await queryRunner.query(`DROP TABLE "pins"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxIndexAndNotesCount1771390927415 implements MigrationInterface {
+  name = 'AddOutboxIndexAndNotesCount1771390927415';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX "IDX_notes_authorId_publishedAt_id" ON "notes" ("authorId", "publishedAt", "id") `,
+    );
+    // notesCount was never maintained, so recount the notes of local users
+    await queryRunner.query(
+      `UPDATE "users" SET "notesCount" = (SELECT COUNT(*) FROM "notes" INNER JOIN "actors" ON "actors"."id" = "notes"."authorId" WHERE "actors"."userId" = "users"."id" AND "notes"."deletedAt" IS NULL)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_notes_authorId_publishedAt_id"`,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddKeyPairExpiresAt1771476512083 implements MigrationInterface {
+  name = 'AddKeyPairExpiresAt1771476512083';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "keypairs" ADD "expiresAt" TIMESTAMP`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "keypairs" DROP COLUMN "expiresAt"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddReactions1771563018441 implements MigrationInterface {
+  name = 'AddReactions1771563018441';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "reactions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "actorId" uuid NOT NULL, "noteId" uuid, "presentationId" uuid, "content" character varying NOT NULL, "emojiUrl" character varying, "iri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_reactions_iri" UNIQUE ("iri"), CONSTRAINT "UQ_reactions_actorId_noteId_content" UNIQUE ("actorId", "noteId", "content"), CONSTRAINT "UQ_reactions_actorId_presentationId_content" UNIQUE ("actorId", "presentationId", "content"), CONSTRAINT "PK_reactions_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reactions" ADD CONSTRAINT "FK_reactions_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reactions" ADD CONSTRAINT "FK_reactions_noteId" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reactions" ADD CONSTRAINT "FK_reactions_presentationId" FOREIGN KEY ("presentationId") REFERENCES "presentations"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "reactions" DROP CONSTRAINT "FK_reactions_presentationId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reactions" DROP CONSTRAINT "FK_reactions_noteId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "reactions" DROP CONSTRAINT "FK_reactions_actorId"`,
+    );
+    await queryRunner.query(`DROP TABLE "reactions"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddNoteQuotes1771649423706 implements MigrationInterface {
+  name = 'AddNoteQuotes1771649423706';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "notes" ADD "quotedNoteId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "notes" ADD "quoteUri" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "notes" ADD CONSTRAINT "FK_notes_quotedNoteId" FOREIGN KEY ("quotedNoteId") REFERENCES "notes"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notes" DROP CONSTRAINT "FK_notes_quotedNoteId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "notes" DROP COLUMN "quoteUri"`);
+    await queryRunner.query(`ALTER TABLE "notes" DROP COLUMN "quotedNoteId"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPolls1771735829154 implements MigrationInterface {
+  name = 'AddPolls1771735829154';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "polls" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "noteId" uuid NOT NULL, "options" jsonb NOT NULL DEFAULT '[]', "multiple" boolean NOT NULL DEFAULT false, "expiresAt" TIMESTAMP, "closedAt" TIMESTAMP, "votersCount" integer NOT NULL DEFAULT 0, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_polls_noteId" UNIQUE ("noteId"), CONSTRAINT "PK_polls_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "poll_votes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "pollId" uuid NOT NULL, "actorId" uuid NOT NULL, "choice" integer NOT NULL, "iri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_poll_votes_iri" UNIQUE ("iri"), CONSTRAINT "UQ_poll_votes_pollId_actorId_choice" UNIQUE ("pollId", "actorId", "choice"), CONSTRAINT "PK_poll_votes_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "polls" ADD CONSTRAINT "FK_polls_noteId" FOREIGN KEY ("noteId") REFERENCES "notes"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "poll_votes" ADD CONSTRAINT "FK_poll_votes_pollId" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "poll_votes" ADD CONSTRAINT "FK_poll_votes_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "poll_votes" DROP CONSTRAINT "FK_poll_votes_actorId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "poll_votes" DROP CONSTRAINT "FK_poll_votes_pollId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "polls" DROP CONSTRAINT "FK_polls_noteId"`,
+    );
+    await queryRunner.query(`DROP TABLE "poll_votes"`);
+    await queryRunner.query(`DROP TABLE "polls"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// Tags that differ only by case are merged into the oldest one
+const CANONICAL_TAGS = `SELECT DISTINCT ON (lower("name")) "id", lower("name") AS "name" FROM "tags" ORDER BY lower("name"), "createdAt"`;
+
+export class AddTagFollows1771822234567 implements MigrationInterface {
+  name = 'AddTagFollows1771822234567';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `INSERT INTO "note_tags" ("noteId", "tagId") SELECT "note_tags"."noteId", "canonical"."id" FROM "note_tags" INNER JOIN "tags" ON "tags"."id" = "note_tags"."tagId" INNER JOIN (${CANONICAL_TAGS}) "canonical" ON "canonical"."name" = lower("tags"."name") WHERE "tags"."id" <> "canonical"."id" ON CONFLICT DO NOTHING`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "tags" USING (${CANONICAL_TAGS}) "canonical" WHERE "canonical"."name" = lower("tags"."name") AND "tags"."id" <> "canonical"."id"`,
+    );
+    await queryRunner.query(
+      `UPDATE "tags" SET "displayName" = COALESCE("displayName", "name"), "name" = lower("name")`,
+    );
+
+    // Counters were never maintained before, so they are recomputed
+    await queryRunner.query(
+      `UPDATE "tags" SET "usageCount" = (SELECT count(*) FROM "note_tags" INNER JOIN "notes" ON "notes"."id" = "note_tags"."noteId" WHERE "note_tags"."tagId" = "tags"."id" AND "notes"."deletedAt" IS NULL), "lastUsedAt" = (SELECT max("notes"."publishedAt") FROM "note_tags" INNER JOIN "notes" ON "notes"."id" = "note_tags"."noteId" WHERE "note_tags"."tagId" = "tags"."id" AND "notes"."deletedAt" IS NULL)`,
+    );
+
+    await queryRunner.query(
+      `CREATE TABLE "tag_follows" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "actorId" uuid NOT NULL, "tagId" uuid NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_tag_follows_actorId_tagId" UNIQUE ("actorId", "tagId"), CONSTRAINT "PK_tag_follows_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tag_follows" ADD CONSTRAINT "FK_tag_follows_actorId" FOREIGN KEY ("actorId") REFERENCES "actors"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tag_follows" ADD CONSTRAINT "FK_tag_follows_tagId" FOREIGN KEY ("tagId") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tag_follows" DROP CONSTRAINT "FK_tag_follows_tagId"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tag_follows" DROP CONSTRAINT "FK_tag_follows_actorId"`,
+    );
+    await queryRunner.query(`DROP TABLE "tag_follows"`);
+  }
+}
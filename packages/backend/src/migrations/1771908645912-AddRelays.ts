@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRelays1771908645912 implements MigrationInterface {
+  name = 'AddRelays1771908645912';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "relays" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "inboxUrl" character varying NOT NULL, "state" character varying NOT NULL DEFAULT 'pending', "followIri" character varying NOT NULL, "actorIri" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_relays_inboxUrl" UNIQUE ("inboxUrl"), CONSTRAINT "UQ_relays_followIri" UNIQUE ("followIri"), CONSTRAINT "PK_relays_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "notes" ADD "relayId" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "notes" ADD CONSTRAINT "FK_notes_relayId" FOREIGN KEY ("relayId") REFERENCES "relays"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "notes" DROP CONSTRAINT "FK_notes_relayId"`,
+    );
+    await queryRunner.query(`ALTER TABLE "notes" DROP COLUMN "relayId"`);
+    await queryRunner.query(`DROP TABLE "relays"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAccountExports1772081456234 implements MigrationInterface {
+  name = 'AddAccountExports1772081456234';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "account_exports" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userId" uuid NOT NULL, "status" character varying NOT NULL DEFAULT 'pending', "key" character varying, "error" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "completedAt" TIMESTAMP, CONSTRAINT "PK_account_exports_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_account_exports_userId_createdAt" ON "account_exports" ("userId", "createdAt")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "account_exports" ADD CONSTRAINT "FK_account_exports_userId" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "account_exports" DROP CONSTRAINT "FK_account_exports_userId"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_account_exports_userId_createdAt"`,
+    );
+    await queryRunner.query(`DROP TABLE "account_exports"`);
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Request,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+  Res,
+} from '@nestjs/common';
+import { type Request as ERequest, type Response } from 'express';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AccountArchiveService } from './account-archive.service';
+
+const maxFileSize =
+  parseInt(process.env.MAX_FILE_SIZE_MB || '200') * 1024 * 1024;
+
+@Controller('users/me')
+export class AccountArchiveController {
+  constructor(private readonly accountArchiveService: AccountArchiveService) {}
+
+  @Post('export')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestExport(@Request() req: ERequest) {
+    return this.accountArchiveService.requestExport(req.user!.id);
+  }
+
+  @Get('export')
+  @UseGuards(JwtAuthGuard)
+  async getLatestExport(
+    @Request() req: ERequest,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const accountExport = await this.accountArchiveService.getLatestExport(
+      req.user!.id,
+    );
+    // No export has been requested yet
+    if (!accountExport) res.status(HttpStatus.NO_CONTENT);
+
+    return accountExport;
+  }
+
+  @Post('import/following')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }),
+  )
+  async importFollowing(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: ERequest,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    return this.accountArchiveService.importFollowing(
+      req.user!.id,
+      file.buffer,
+    );
+  }
+
+  @Post('import/archive')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: maxFileSize },
+      fileFilter: (req, file, cb) => {
+        if (
+          file.mimetype === 'application/zip' ||
+          file.mimetype === 'application/x-zip-compressed' ||
+          file.originalname.toLowerCase().endsWith('.zip')
+        ) {
+          cb(null, true);
+        } else {
+          cb(new BadRequestException('Only ZIP archives are allowed'), false);
+        }
+      },
+    }),
+  )
+  async importArchive(
+    @UploadedFile() file: Express.Multer.File,
+    @Request() req: ERequest,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    return this.accountArchiveService.importArchive(req.user!.id, file.buffer);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AccountArchiveController } from './account-archive.controller';
+import { AccountArchiveService } from './account-archive.service';
+import {
+  AccountExport,
+  Actor,
+  Block,
+  Follow,
+  Mute,
+  Note,
+} from '../../entities';
+import { MicrobloggingModule } from '../microblogging/microblogging.module';
+import { PresentationModule } from '../presentation/presentation.module';
+import { UploadModule } from '../upload/upload.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([AccountExport, Actor, Note, Follow, Block, Mute]),
+    MicrobloggingModule,
+    PresentationModule,
+    UploadModule,
+  ],
+  controllers: [AccountArchiveController],
+  providers: [AccountArchiveService],
+})
+export class AccountArchiveModule {}
@@ -0,0 +1,625 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import { Federation } from '@fedify/fedify';
+import {
+  strToU8,
+  Unzip,
+  UnzipInflate,
+  Zip,
+  ZipDeflate,
+  ZipPassThrough,
+} from 'fflate';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { once } from 'events';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { finished } from 'stream/promises';
+import {
+  AccountExport,
+  AccountExportStatus,
+  Actor,
+  Block,
+  Follow,
+  Mute,
+  Note,
+} from '../../entities';
+import { FollowService } from '../microblogging/services/follow.service';
+import { PresentationService } from '../presentation/presentation.service';
+import { UploadService } from '../upload/upload.service';
+import { toAPCreateNote } from '../../lib/activitypub';
+
+const ACTIVITY_STREAMS_CONTEXT = 'https://www.w3.org/ns/activitystreams';
+
+// Matches presentations/<id>/metadata.json entries of an archive
+const PRESENTATION_METADATA_PATTERN =
+  /^presentations\/([^/]+)\/metadata\.json$/;
+
+// Upper bound of the extracted presentations of an imported archive. They
+// are extracted to disk, so this bounds disk rather than memory use.
+const maxArchiveSize =
+  parseInt(process.env.MAX_ARCHIVE_SIZE_MB || '1024') * 1024 * 1024;
+
+// Archives are fed to the decompressor in chunks of this size, so that a
+// single highly compressed entry cannot inflate far past the limit at once
+const UNZIP_CHUNK_SIZE = 16 * 1024;
+
+interface PresentationMetadata {
+  title: string;
+  description: string | null;
+  pageCount: number | null;
+  url: string;
+  createdAt: string;
+}
+
+export interface AccountExportResult {
+  id: string;
+  status: AccountExportStatus;
+  url: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  error: string | null;
+}
+
+@Injectable()
+export class AccountArchiveService implements OnModuleInit {
+  private readonly logger = new Logger(AccountArchiveService.name);
+
+  constructor(
+    @InjectRepository(AccountExport)
+    private accountExportRepository: Repository<AccountExport>,
+
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @InjectRepository(Note)
+    private noteRepository: Repository<Note>,
+
+    @InjectRepository(Follow)
+    private followRepository: Repository<Follow>,
+
+    @InjectRepository(Block)
+    private blockRepository: Repository<Block>,
+
+    @InjectRepository(Mute)
+    private muteRepository: Repository<Mute>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private followService: FollowService,
+    private presentationService: PresentationService,
+    private uploadService: UploadService,
+  ) {}
+
+  // Exports run inside this process, so whatever was in progress when it
+  // stopped will never finish
+  async onModuleInit() {
+    await this.accountExportRepository.update(
+      { status: In(['pending', 'running']) },
+      {
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        completedAt: new Date(),
+      },
+    );
+  }
+
+  /**
+   * Start building a ZIP archive of a user's account in the background.
+   * An export that is still in progress is returned instead of starting
+   * another one.
+   */
+  async requestExport(userId: string): Promise<AccountExportResult> {
+    const actor = await this.actorRepository.findOne({ where: { userId } });
+    if (!actor) {
+      throw new BadRequestException('Actor not found');
+    }
+
+    const inProgress = await this.accountExportRepository.findOne({
+      where: { userId, status: In(['pending', 'running']) },
+      order: { createdAt: 'DESC' },
+    });
+    if (inProgress) {
+      return this.#toExportResult(inProgress);
+    }
+
+    const accountExport = await this.accountExportRepository.save(
+      this.accountExportRepository.create({ userId }),
+    );
+    void this.#runExport(accountExport, actor);
+
+    return this.#toExportResult(accountExport);
+  }
+
+  /**
+   * Get the most recent export of a user, with a download URL once it is
+   * completed
+   */
+  async getLatestExport(userId: string): Promise<AccountExportResult | null> {
+    const accountExport = await this.accountExportRepository.findOne({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return accountExport ? this.#toExportResult(accountExport) : null;
+  }
+
+  async #toExportResult(
+    accountExport: AccountExport,
+  ): Promise<AccountExportResult> {
+    let url: string | null = null;
+    if (accountExport.status === 'completed' && accountExport.key) {
+      try {
+        url = await this.uploadService.getAccountArchiveUrl(accountExport.key);
+      } catch {
+        // Leave the link out when it cannot be signed
+      }
+    }
+
+    return {
+      id: accountExport.id,
+      status: accountExport.status,
+      url,
+      createdAt: accountExport.createdAt,
+      completedAt: accountExport.completedAt,
+      error: accountExport.error,
+    };
+  }
+
+  // The archive is written to a temporary file and uploaded from there, so
+  // that neither it nor the presentations in it are held in memory
+  async #runExport(accountExport: AccountExport, actor: Actor): Promise<void> {
+    let directory: string | null = null;
+    try {
+      await this.accountExportRepository.update(accountExport.id, {
+        status: 'running',
+      });
+
+      directory = await fs.mkdtemp(join(tmpdir(), 'account-export-'));
+      const archivePath = join(directory, 'archive.zip');
+      await this.#writeArchive(actor, archivePath);
+
+      const { key } = await this.uploadService.uploadAccountArchive(
+        accountExport.userId,
+        archivePath,
+      );
+      await this.accountExportRepository.update(accountExport.id, {
+        status: 'completed',
+        key,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to export account of user ${accountExport.userId}: ${error}`,
+      );
+      await this.accountExportRepository
+        .update(accountExport.id, {
+          status: 'failed',
+          error: error.message,
+          completedAt: new Date(),
+        })
+        .catch(() => undefined);
+    } finally {
+      if (directory) {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  async #writeArchive(actor: Actor, archivePath: string): Promise<void> {
+    const output = createWriteStream(archivePath);
+    // Write errors are picked up by #drain() and finished()
+    output.on('error', () => undefined);
+    const zip = new Zip((error, data, final) => {
+      if (error) {
+        output.destroy(error);
+        return;
+      }
+      output.write(data);
+      if (final) output.end();
+    });
+
+    try {
+      await this.#addZipFile(
+        zip,
+        output,
+        'actor.json',
+        this.#toJsonFile(await this.#buildActorJson(actor)),
+      );
+      await this.#addZipFile(
+        zip,
+        output,
+        'outbox.json',
+        this.#toJsonFile(await this.#buildOutboxJson(actor)),
+      );
+      await this.#addZipFile(
+        zip,
+        output,
+        'following_accounts.csv',
+        strToU8(await this.#buildFollowingCsv(actor)),
+      );
+      await this.#addZipFile(
+        zip,
+        output,
+        'followers.csv',
+        strToU8(await this.#buildFollowersCsv(actor)),
+      );
+      await this.#addZipFile(
+        zip,
+        output,
+        'blocked_accounts.csv',
+        strToU8(await this.#buildBlocksCsv(actor)),
+      );
+      await this.#addZipFile(
+        zip,
+        output,
+        'muted_accounts.csv',
+        strToU8(await this.#buildMutesCsv(actor)),
+      );
+
+      for (const presentation of await this.presentationService.findByUserId(
+        actor.userId,
+      )) {
+        const metadata: PresentationMetadata = {
+          title: presentation.title,
+          description: presentation.description,
+          pageCount: presentation.pageCount,
+          url: presentation.url,
+          createdAt: presentation.createdAt.toISOString(),
+        };
+        await this.#addZipFile(
+          zip,
+          output,
+          `presentations/${presentation.id}/metadata.json`,
+          this.#toJsonFile(metadata),
+        );
+
+        if (presentation.pdfKey) {
+          // PDFs are stored as they are; they barely compress
+          const file = new ZipPassThrough(
+            `presentations/${presentation.id}/presentation.pdf`,
+          );
+          zip.add(file);
+          const pdf = await this.uploadService.getStoredFileStream(
+            presentation.pdfKey,
+          );
+          for await (const chunk of pdf) {
+            file.push(chunk);
+            await this.#drain(output);
+          }
+          file.push(new Uint8Array(0), true);
+          await this.#drain(output);
+        }
+      }
+
+      zip.end();
+      await finished(output);
+    } catch (error) {
+      zip.terminate();
+      output.destroy();
+      throw error;
+    }
+  }
+
+  async #addZipFile(
+    zip: Zip,
+    output: WriteStream,
+    name: string,
+    content: Uint8Array,
+  ): Promise<void> {
+    const file = new ZipDeflate(name, { level: 6 });
+    zip.add(file);
+    file.push(content, true);
+    await this.#drain(output);
+  }
+
+  // Wait until the archive file has caught up with the ZIP output
+  async #drain(output: WriteStream): Promise<void> {
+    if (output.errored) throw output.errored;
+    if (output.writableNeedDrain) await once(output, 'drain');
+  }
+
+  /**
+   * Re-follow every account listed in a following CSV
+   * (the first column holds the account address)
+   */
+  async importFollowing(
+    userId: string,
+    csv: Buffer,
+  ): Promise<{
+    followed: number;
+    failed: { address: string; message: string }[];
+  }> {
+    const addresses = csv
+      .toString('utf-8')
+      .split(/\r?\n/)
+      .map((line) => line.split(',')[0].trim().replace(/^@/, ''))
+      .filter((address) => address && address !== 'Account address');
+
+    let followed = 0;
+    const failed: { address: string; message: string }[] = [];
+    for (const address of Array.from(new Set(addresses))) {
+      const [username, domain] = address.split('@');
+      if (!username || !domain) {
+        failed.push({ address, message: 'Invalid account address' });
+        continue;
+      }
+
+      // Local accounts are followed by username, remote ones by handle
+      const target =
+        domain === process.env.FEDERATION_HANDLE_DOMAIN
+          ? username
+          : `@${address}`;
+      try {
+        const result = await this.followService.followUser(userId, target);
+        if (result.success) followed++;
+        else failed.push({ address, message: result.message });
+      } catch (error) {
+        failed.push({ address, message: error.message });
+      }
+    }
+
+    return { followed, failed };
+  }
+
+  /**
+   * Restore the presentations of an account archive. They keep their
+   * original date and are not announced to followers again.
+   */
+  async importArchive(
+    userId: string,
+    archive: Buffer,
+  ): Promise<{ restored: number }> {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'account-import-'));
+    try {
+      const files = await this.#extractPresentations(archive, directory);
+
+      // Presentations are read back one at a time, so that only a single
+      // PDF is held in memory
+      let restored = 0;
+      for (const [name, path] of files) {
+        const match = PRESENTATION_METADATA_PATTERN.exec(name);
+        if (!match) continue;
+
+        const pdfPath = files.get(`presentations/${match[1]}/presentation.pdf`);
+        if (!pdfPath) continue;
+
+        let metadata: PresentationMetadata;
+        try {
+          metadata = JSON.parse(await fs.readFile(path, 'utf-8'));
+        } catch {
+          continue;
+        }
+        if (!metadata.title) continue;
+
+        const createdAt = new Date(metadata.createdAt);
+        const pdf = await fs.readFile(pdfPath);
+
+        await this.presentationService.create(
+          {
+            buffer: pdf,
+            originalname: `${metadata.title}.pdf`,
+            mimetype: 'application/pdf',
+            size: pdf.length,
+          } as Express.Multer.File,
+          metadata.title,
+          userId,
+          metadata.description ?? undefined,
+          {
+            federate: false,
+            createdAt: isNaN(createdAt.getTime()) ? undefined : createdAt,
+          },
+        );
+        restored++;
+      }
+
+      return { restored };
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  // Extract the presentations of an archive into a directory and map their
+  // entry names to the extracted files. The sizes an archive declares are
+  // not trusted; the inflated bytes are counted instead.
+  async #extractPresentations(
+    archive: Buffer,
+    directory: string,
+  ): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+    const outputs: WriteStream[] = [];
+    let entries = 0;
+    let totalSize = 0;
+    let error: BadRequestException | null = null;
+
+    const unzip = new Unzip((file) => {
+      entries++;
+      if (!file.name.startsWith('presentations/')) return;
+
+      // Entry names are not used as paths, so they cannot escape the
+      // directory
+      const path = join(directory, `${outputs.length}`);
+      const output = createWriteStream(path);
+      // Write errors are picked up by #drain() and finished()
+      output.on('error', () => undefined);
+      outputs.push(output);
+
+      file.ondata = (err, data, final) => {
+        if (error) return;
+        if (err) {
+          error = new BadRequestException('Invalid account archive');
+          return;
+        }
+
+        totalSize += data.length;
+        if (totalSize > maxArchiveSize) {
+          error = new BadRequestException(
+            `Account archive exceeds ${maxArchiveSize / 1024 / 1024} MB when extracted`,
+          );
+          file.terminate();
+          return;
+        }
+
+        output.write(data);
+        if (final) {
+          output.end();
+          files.set(file.name, path);
+        }
+      };
+      file.start();
+    });
+    unzip.register(UnzipInflate);
+
+    try {
+      for (
+        let offset = 0;
+        offset < archive.length && !error;
+        offset += UNZIP_CHUNK_SIZE
+      ) {
+        try {
+          unzip.push(
+            archive.subarray(offset, offset + UNZIP_CHUNK_SIZE),
+            offset + UNZIP_CHUNK_SIZE >= archive.length,
+          );
+        } catch {
+          throw new BadRequestException('Invalid account archive');
+        }
+        for (const output of outputs) {
+          await this.#drain(output);
+        }
+      }
+      if (error) throw error;
+      if (entries === 0) {
+        throw new BadRequestException('Invalid account archive');
+      }
+
+      for (const output of outputs) {
+        if (!output.writableEnded) output.end();
+        await finished(output);
+      }
+    } catch (caught) {
+      for (const output of outputs) {
+        output.destroy();
+      }
+      throw caught;
+    }
+
+    return files;
+  }
+
+  async #buildActorJson(actor: Actor) {
+    const actorUri = (await this.#createFederationContext()).getActorUri(
+      actor.id,
+    );
+    const ctx = this.federation.createContext(new Request(actorUri), undefined);
+    const person = await ctx.getActor(actor.id);
+
+    return person?.toJsonLd({ format: 'compact' });
+  }
+
+  async #buildOutboxJson(actor: Actor) {
+    const ctx = await this.#createFederationContext();
+    const notes = await this.noteRepository.find({
+      where: { authorId: actor.id, sharedNoteId: IsNull() },
+      relations: ['author', 'mentions', 'mentions.actor', 'poll'],
+      order: { publishedAt: 'DESC' },
+    });
+
+    const orderedItems: unknown[] = [];
+    for (const note of notes) {
+      orderedItems.push(
+        await toAPCreateNote(ctx, note).toJsonLd({ format: 'compact' }),
+      );
+    }
+
+    return {
+      '@context': ACTIVITY_STREAMS_CONTEXT,
+      id: 'outbox.json',
+      type: 'OrderedCollection',
+      totalItems: orderedItems.length,
+      orderedItems,
+    };
+  }
+
+  async #buildFollowingCsv(actor: Actor): Promise<string> {
+    const follows = await this.followRepository.find({
+      where: { followerId: actor.id, status: 'accepted' },
+      relations: ['following'],
+    });
+
+    return this.#toCsv(
+      ['Account address'],
+      follows.map((follow) => [this.#toAccountAddress(follow.following)]),
+    );
+  }
+
+  async #buildFollowersCsv(actor: Actor): Promise<string> {
+    const follows = await this.followRepository.find({
+      where: { followingId: actor.id, status: 'accepted' },
+      relations: ['follower'],
+    });
+
+    return this.#toCsv(
+      ['Account address'],
+      follows.map((follow) => [this.#toAccountAddress(follow.follower)]),
+    );
+  }
+
+  async #buildBlocksCsv(actor: Actor): Promise<string> {
+    const blocks = await this.blockRepository.find({
+      where: { blockerId: actor.id },
+      relations: ['blocked'],
+    });
+
+    return this.#toCsv(
+      ['Account address'],
+      blocks.map((block) => [this.#toAccountAddress(block.blocked)]),
+    );
+  }
+
+  async #buildMutesCsv(actor: Actor): Promise<string> {
+    const mutes = await this.muteRepository.find({
+      where: { muterId: actor.id },
+      relations: ['muted'],
+    });
+
+    return this.#toCsv(
+      ['Account address'],
+      mutes.map((mute) => [this.#toAccountAddress(mute.muted)]),
+    );
+  }
+
+  #toAccountAddress(actor: Actor): string {
+    if (actor.isLocal) {
+      return `${actor.preferredUsername}@${process.env.FEDERATION_HANDLE_DOMAIN}`;
+    }
+
+    return (actor.acct ?? '').replace(/^@/, '');
+  }
+
+  #toCsv(header: string[], rows: string[][]): string {
+    return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+  }
+
+  #toJsonFile(value: unknown): Uint8Array {
+    return strToU8(JSON.stringify(value, null, 2));
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
@@ -3,18 +3,22 @@ import {
   Get,
   Post,
   Patch,
+  Delete,
   Param,
   Body,
   Query,
   UseGuards,
   ParseIntPipe,
   ParseBoolPipe,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { Public } from '../auth/decorators/public.decorator';
+import { DomainBlockSeverity } from '../../entities';
 
 @Controller('admin')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -83,6 +87,26 @@ export class AdminController {
     return await this.adminService.addUserQuota(id, amount);
   }
 
+  // Get a user's signing key history
+  @Get('users/:id/keys')
+  async getUserKeys(@Param('id') id: string) {
+    return await this.adminService.getUserKeys(id);
+  }
+
+  // Rotate a user's signing keys
+  @Post('users/:id/keys/rotate')
+  async rotateUserKeys(
+    @Param('id') id: string,
+    @Body('gracePeriodHours', new ParseIntPipe({ optional: true }))
+    gracePeriodHours?: number,
+  ) {
+    const result = await this.adminService.rotateUserKeys(id, gracePeriodHours);
+    return {
+      message: 'Keys rotated successfully',
+      ...result,
+    };
+  }
+
   // Get all actors with pagination
   @Get('actors')
   async getAllActors(
@@ -126,4 +150,92 @@ export class AdminController {
       actor,
     };
   }
+
+  // Re-fetch all remote actors on a domain
+  @Post('actors/refresh-domain')
+  async refreshActorsByDomain(@Body('domain') domain: string) {
+    const result = await this.adminService.refreshActorsByDomain(domain);
+    return {
+      message: `Refreshed ${result.refreshed} actors`,
+      ...result,
+    };
+  }
+
+  // Queued and failed outgoing deliveries grouped by destination instance
+  @Get('federation/deliveries')
+  async getFederationDeliveries() {
+    return await this.adminService.getFederationDeliveries();
+  }
+
+  // Queued and failed deliveries to a single destination instance
+  @Get('federation/deliveries/:destination')
+  async getFederationDeliveriesByDestination(
+    @Param('destination') destination: string,
+    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
+  ) {
+    return await this.adminService.getFederationDeliveriesByDestination(
+      destination,
+      limit || 50,
+    );
+  }
+
+  // Get all domain blocks
+  @Get('domain-blocks')
+  async getDomainBlocks() {
+    return await this.adminService.getDomainBlocks();
+  }
+
+  // Block a domain
+  @Post('domain-blocks')
+  async createDomainBlock(
+    @Body()
+    createDomainBlockDto: {
+      domain: string;
+      severity?: DomainBlockSeverity;
+      privateComment?: string;
+      publicComment?: string;
+    },
+  ) {
+    return await this.adminService.createDomainBlock(createDomainBlockDto);
+  }
+
+  // Update a domain block
+  @Patch('domain-blocks/:id')
+  async updateDomainBlock(
+    @Param('id') id: string,
+    @Body()
+    updateDomainBlockDto: {
+      severity?: DomainBlockSeverity;
+      privateComment?: string | null;
+      publicComment?: string | null;
+    },
+  ) {
+    return await this.adminService.updateDomainBlock(id, updateDomainBlockDto);
+  }
+
+  // Lift a domain block
+  @Delete('domain-blocks/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeDomainBlock(@Param('id') id: string) {
+    await this.adminService.removeDomainBlock(id);
+  }
+
+  // Get all relay subscriptions
+  @Get('relays')
+  async getRelays() {
+    return await this.adminService.getRelays();
+  }
+
+  // Subscribe to a relay by its inbox URL
+  @Post('relays')
+  async addRelay(@Body('inboxUrl') inboxUrl: string) {
+    return await this.adminService.addRelay(inboxUrl);
+  }
+
+  // Unsubscribe from a relay
+  @Delete('relays/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeRelay(@Param('id') id: string) {
+    await this.adminService.removeRelay(id);
+  }
 }
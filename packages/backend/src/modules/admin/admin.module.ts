@@ -2,7 +2,13 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
-import { User, Actor, Invitation } from '../../entities';
+import {
+  User,
+  Actor,
+  Invitation,
+  FederationQueueMessage,
+  FederationDeadLetter,
+} from '../../entities';
 import { UserModule } from '../user/user.module';
 import { FederationModule } from '../federation/federation.module';
 import { AuthModule } from '../auth/auth.module';
@@ -10,7 +16,13 @@ import { MicrobloggingModule } from '../microblogging/microblogging.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User, Actor, Invitation]),
+    TypeOrmModule.forFeature([
+      User,
+      Actor,
+      Invitation,
+      FederationQueueMessage,
+      FederationDeadLetter,
+    ]),
     UserModule,
     FederationModule,
     AuthModule,
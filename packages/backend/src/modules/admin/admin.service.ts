@@ -6,19 +6,27 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { User, Actor, KeyPair, Invitation } from '../../entities';
+import {
+  User,
+  Actor,
+  KeyPair,
+  Invitation,
+  FederationQueueMessage,
+  FederationDeadLetter,
+  DomainBlockSeverity,
+} from '../../entities';
 import { UserService } from '../user/user.service';
 import { ActorSyncService } from '../federation/services/actor-sync.service';
 import { AuthService } from '../auth/auth.service';
 import { ActorService } from '../microblogging/services/actor.service';
+import { FollowService } from '../microblogging/services/follow.service';
+import { DomainBlockService } from '../federation/services/domain-block.service';
+import { AuthorizedFetchService } from '../federation/services/authorized-fetch.service';
+import { KeyRotationService } from '../federation/services/key-rotation.service';
+import { ActorRefreshService } from '../federation/services/actor-refresh.service';
+import { RelayService } from '../federation/services/relay.service';
 import { randomBytes } from 'crypto';
-import {
-  lookupObject,
-  isActor,
-  Person,
-  Application,
-  Service,
-} from '@fedify/fedify';
+import { isActor, Person, Application, Service } from '@fedify/fedify';
 
 @Injectable()
 export class AdminService {
@@ -32,10 +40,22 @@ export class AdminService {
     @InjectRepository(Invitation)
     private invitationRepository: Repository<Invitation>,
 
+    @InjectRepository(FederationQueueMessage)
+    private federationQueueRepository: Repository<FederationQueueMessage>,
+
+    @InjectRepository(FederationDeadLetter)
+    private federationDeadLetterRepository: Repository<FederationDeadLetter>,
+
     private userService: UserService,
     private actorSyncService: ActorSyncService,
     private authService: AuthService,
     private actorService: ActorService,
+    private followService: FollowService,
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
+    private keyRotationService: KeyRotationService,
+    private actorRefreshService: ActorRefreshService,
+    private relayService: RelayService,
   ) {}
 
   // Get all users with pagination and actor relation
@@ -202,6 +222,33 @@ export class AdminService {
     return user;
   }
 
+  // List a user's signing keys with their fingerprints
+  async getUserKeys(userId: string) {
+    return { data: await this.keyRotationService.getKeyHistory(userId) };
+  }
+
+  // Generate fresh signing keys; the old ones expire after the grace period
+  async rotateUserKeys(userId: string, gracePeriodHours?: number) {
+    if (gracePeriodHours !== undefined && gracePeriodHours < 0) {
+      throw new BadRequestException('Grace period cannot be negative');
+    }
+
+    return await this.keyRotationService.rotateKeys(userId, gracePeriodHours);
+  }
+
+  // Rotate a user's signing keys by username
+  async rotateUserKeysByUsername(username: string, gracePeriodHours?: number) {
+    const user = await this.userRepository.findOne({
+      where: { username },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User ${username} not found`);
+    }
+
+    return await this.rotateUserKeys(user.id, gracePeriodHours);
+  }
+
   // Grant admin role to user by email
   async grantAdminByEmail(email: string) {
     const user = await this.userRepository.findOne({
@@ -306,7 +353,7 @@ export class AdminService {
 
     try {
       const url = new URL(actorUrl);
-      const object = await lookupObject(url);
+      const object = await this.authorizedFetchService.lookupObject(url);
 
       if (!object || !isActor(object)) {
         throw new BadRequestException(
@@ -339,4 +386,191 @@ export class AdminService {
       throw new BadRequestException(`Failed to fetch actor: ${error.message}`);
     }
   }
+
+  // Re-fetch every known remote actor on a domain
+  async refreshActorsByDomain(
+    domain: string,
+  ): Promise<{ refreshed: number; failed: number }> {
+    const host = domain ? DomainBlockService.getHost(domain) : null;
+    if (!host) {
+      throw new BadRequestException('Invalid domain');
+    }
+
+    return await this.actorRefreshService.refreshDomain(host);
+  }
+
+  // Count queued and failed outgoing deliveries per destination instance
+  async getFederationDeliveries() {
+    const queued: {
+      destination: string;
+      count: string;
+      oldestAt: Date;
+      nextAttemptAt: Date;
+    }[] = await this.federationQueueRepository
+      .createQueryBuilder('job')
+      .select('job.destination', 'destination')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('MIN(job.createdAt)', 'oldestAt')
+      .addSelect('MIN(job.availableAt)', 'nextAttemptAt')
+      .where('job.destination IS NOT NULL')
+      .groupBy('job.destination')
+      .getRawMany();
+    const failed: { destination: string; count: string; lastFailedAt: Date }[] =
+      await this.federationDeadLetterRepository
+        .createQueryBuilder('deadLetter')
+        .select('deadLetter.destination', 'destination')
+        .addSelect('COUNT(*)', 'count')
+        .addSelect('MAX(deadLetter.failedAt)', 'lastFailedAt')
+        .where('deadLetter.destination IS NOT NULL')
+        .groupBy('deadLetter.destination')
+        .getRawMany();
+
+    const destinations = new Map<
+      string,
+      {
+        destination: string;
+        queued: number;
+        failed: number;
+        oldestQueuedAt: Date | null;
+        nextAttemptAt: Date | null;
+        lastFailedAt: Date | null;
+      }
+    >();
+    const getEntry = (destination: string) => {
+      let entry = destinations.get(destination);
+      if (!entry) {
+        entry = {
+          destination,
+          queued: 0,
+          failed: 0,
+          oldestQueuedAt: null,
+          nextAttemptAt: null,
+          lastFailedAt: null,
+        };
+        destinations.set(destination, entry);
+      }
+      return entry;
+    };
+
+    for (const row of queued) {
+      const entry = getEntry(row.destination);
+      entry.queued = parseInt(row.count);
+      entry.oldestQueuedAt = row.oldestAt;
+      entry.nextAttemptAt = row.nextAttemptAt;
+    }
+    for (const row of failed) {
+      const entry = getEntry(row.destination);
+      entry.failed = parseInt(row.count);
+      entry.lastFailedAt = row.lastFailedAt;
+    }
+
+    return {
+      data: Array.from(destinations.values()).sort(
+        (a, b) => b.queued + b.failed - (a.queued + a.failed),
+      ),
+    };
+  }
+
+  // List queued and failed deliveries to a single destination instance
+  async getFederationDeliveriesByDestination(
+    destination: string,
+    limit: number = 50,
+  ) {
+    const [queued, failed] = await Promise.all([
+      this.federationQueueRepository.find({
+        where: { destination },
+        order: { availableAt: 'ASC' },
+        take: limit,
+      }),
+      this.federationDeadLetterRepository.find({
+        where: { destination },
+        order: { failedAt: 'DESC' },
+        take: limit,
+      }),
+    ]);
+
+    return {
+      destination,
+      queued: queued.map((job) => ({
+        id: job.id,
+        activityId: job.message?.activityId,
+        activityType: job.message?.activityType,
+        inbox: job.message?.inbox,
+        attempts: job.attempts,
+        availableAt: job.availableAt,
+        lastError: job.lastError,
+        createdAt: job.createdAt,
+      })),
+      failed: failed.map((deadLetter) => ({
+        id: deadLetter.id,
+        activityId: deadLetter.message?.activityId,
+        activityType: deadLetter.message?.activityType,
+        inbox: deadLetter.message?.inbox,
+        attempts: deadLetter.attempts,
+        lastError: deadLetter.lastError,
+        enqueuedAt: deadLetter.enqueuedAt,
+        failedAt: deadLetter.failedAt,
+      })),
+    };
+  }
+
+  // Get all domain blocks
+  async getDomainBlocks() {
+    return { data: await this.domainBlockService.findAll() };
+  }
+
+  // Block a domain; suspending it severs existing follows
+  async createDomainBlock(attributes: {
+    domain: string;
+    severity?: DomainBlockSeverity;
+    privateComment?: string;
+    publicComment?: string;
+  }) {
+    const block = await this.domainBlockService.create(attributes);
+    const severedFollows =
+      block.severity === 'suspend'
+        ? await this.followService.removeFollowsWithDomain(block.domain)
+        : 0;
+
+    return { ...block, severedFollows };
+  }
+
+  // Update a domain block's severity or comments
+  async updateDomainBlock(
+    id: string,
+    attributes: {
+      severity?: DomainBlockSeverity;
+      privateComment?: string | null;
+      publicComment?: string | null;
+    },
+  ) {
+    const block = await this.domainBlockService.update(id, attributes);
+    const severedFollows =
+      block.severity === 'suspend'
+        ? await this.followService.removeFollowsWithDomain(block.domain)
+        : 0;
+
+    return { ...block, severedFollows };
+  }
+
+  // Lift a domain block
+  async removeDomainBlock(id: string) {
+    await this.domainBlockService.remove(id);
+  }
+
+  async getRelays() {
+    return {
+      data: await this.relayService.findAll(),
+      enabled: RelayService.isEnabled(),
+    };
+  }
+
+  // Subscribe to a relay; it stays pending until the relay accepts
+  async addRelay(inboxUrl: string) {
+    return await this.relayService.subscribe(inboxUrl);
+  }
+
+  async removeRelay(id: string) {
+    await this.relayService.unsubscribe(id);
+  }
 }
@@ -0,0 +1,13 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Authenticates the request when a valid token is present, but lets
+ * anonymous requests through with `req.user` left undefined.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser = any>(err: unknown, user: TUser): TUser {
+    return (user || undefined) as TUser;
+  }
+}
@@ -4,16 +4,52 @@ import { ActorHandler } from './handlers/actor.handler';
 import { NodeInfoHandler } from './handlers/nodeinfo.handler';
 import { ActorSyncService } from './services/actor-sync.service';
 import { ContextService } from './services/context.service';
+import { DomainBlockService } from './services/domain-block.service';
+import { KeyExpiryService } from './services/key-expiry.service';
+import { KeyRotationService } from './services/key-rotation.service';
+import { AuthorizedFetchService } from './services/authorized-fetch.service';
+import { ActorRefreshService } from './services/actor-refresh.service';
+import { PollExpiryService } from './services/poll-expiry.service';
+import { RelayService } from './services/relay.service';
+import { NotificationService } from './services/notification.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { User, Note, Actor, Follow, KeyPair } from '../../entities';
+import {
+  User,
+  Note,
+  Actor,
+  Follow,
+  KeyPair,
+  Like,
+  Presentation,
+  DomainBlock,
+  Block,
+  Mute,
+  Pin,
+  Reaction,
+  Poll,
+  PollVote,
+  Tag,
+  TagFollow,
+  Relay,
+  Notification,
+} from '../../entities';
 import { FollowService } from '../microblogging/services/follow.service';
 import { NoteService } from '../microblogging/services/note.service';
 import { ObjectDispatcherHandler } from './handlers/object-dispatcher.handler';
 import { ActorService } from '../microblogging/services/actor.service';
 import { TimelineService } from '../microblogging/services/timeline.service';
 import { MarkdownService } from '../microblogging/services/markdown.service';
+import { LikeService } from '../microblogging/services/like.service';
+import { BlockService } from '../microblogging/services/block.service';
+import { AccountMigrationService } from '../microblogging/services/account-migration.service';
+import { PinService } from '../microblogging/services/pin.service';
+import { ReactionService } from '../microblogging/services/reaction.service';
+import { PollService } from '../microblogging/services/poll.service';
+import { TagService } from '../microblogging/services/tag.service';
 import { TimelinePost } from 'src/entities/timeline-post.entity';
 import { Mention } from 'src/entities/mention.entity';
+import { PresentationService } from '../presentation/presentation.service';
+import { UploadModule } from '../upload/upload.module';
 
 @Module({
   imports: [
@@ -25,7 +61,21 @@ import { Mention } from 'src/entities/mention.entity';
       KeyPair,
       TimelinePost,
       Mention,
+      Like,
+      Presentation,
+      DomainBlock,
+      Block,
+      Mute,
+      Pin,
+      Reaction,
+      Poll,
+      PollVote,
+      Tag,
+      TagFollow,
+      Relay,
+      Notification,
     ]),
+    UploadModule,
   ],
   providers: [
     FederationService,
@@ -34,13 +84,41 @@ import { Mention } from 'src/entities/mention.entity';
     ObjectDispatcherHandler,
     ActorSyncService,
     ContextService,
+    DomainBlockService,
+    KeyRotationService,
+    KeyExpiryService,
+    AuthorizedFetchService,
+    ActorRefreshService,
+    PollExpiryService,
+    RelayService,
+    NotificationService,
     FollowService,
     NoteService,
     ActorService,
     TimelineService,
     MarkdownService,
+    LikeService,
+    PresentationService,
+    BlockService,
+    AccountMigrationService,
+    PinService,
+    ReactionService,
+    PollService,
+    TagService,
+  ],
+  exports: [
+    FederationService,
+    ActorSyncService,
+    ContextService,
+    DomainBlockService,
+    KeyRotationService,
+    KeyExpiryService,
+    AuthorizedFetchService,
+    ActorRefreshService,
+    PollExpiryService,
+    RelayService,
+    NotificationService,
   ],
-  exports: [FederationService, ActorSyncService, ContextService],
 })
 export class FederationModule {
   // Remove OnModuleInit to prevent double initialization
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { IsNull, MoreThan, Or, Repository } from 'typeorm';
 import {
   User,
   Actor,
@@ -8,6 +8,8 @@ import {
   KeyAlgorithm,
   Follow,
   Note,
+  Presentation,
+  Relay,
 } from '../../../entities';
 import { ActorSyncService } from '../services/actor-sync.service';
 import {
@@ -27,7 +29,6 @@ import {
   Endpoints,
   Undo,
   Reject,
-  lookupObject,
   Create,
   Announce,
   Note as APNote,
@@ -35,12 +36,40 @@ import {
   Context,
   isActor,
   Service,
+  Like as APLike,
+  Delete,
+  Update,
+  Document as APDocument,
+  Page,
+  Activity,
+  Block as APBlock,
+  Move,
+  Emoji,
+  EmojiReact,
+  Question,
 } from '@fedify/fedify';
 import { FollowService } from '../../microblogging/services/follow.service';
-import { toAPNote, toAPPersonObject } from 'src/lib/activitypub';
+import {
+  toAPAnnounce,
+  toAPCreateNote,
+  toAPNote,
+  toAPPersonObject,
+  toAPPresentation,
+} from 'src/lib/activitypub';
 import { ActorService } from 'src/modules/microblogging/services/actor.service';
 import { NoteService } from 'src/modules/microblogging/services/note.service';
 import { TimelineService } from 'src/modules/microblogging/services/timeline.service';
+import { LikeService } from 'src/modules/microblogging/services/like.service';
+import { PresentationService } from 'src/modules/presentation/presentation.service';
+import { DomainBlockService } from '../services/domain-block.service';
+import { AuthorizedFetchService } from '../services/authorized-fetch.service';
+import { RelayService } from '../services/relay.service';
+import { NotificationService } from '../services/notification.service';
+import { BlockService } from 'src/modules/microblogging/services/block.service';
+import { AccountMigrationService } from 'src/modules/microblogging/services/account-migration.service';
+import { PinService } from 'src/modules/microblogging/services/pin.service';
+import { ReactionService } from 'src/modules/microblogging/services/reaction.service';
+import { PollService } from 'src/modules/microblogging/services/poll.service';
 
 interface RsaJwk {
   kty: 'RSA';
@@ -73,11 +102,24 @@ export class ActorHandler {
     private followRepository: Repository<Follow>,
     @InjectRepository(Note)
     private noteRepository: Repository<Note>,
+    @InjectRepository(Presentation)
+    private presentationRepository: Repository<Presentation>,
     private actorSyncService: ActorSyncService,
     private followService: FollowService,
     private actorService: ActorService,
     private noteService: NoteService,
     private timelineService: TimelineService,
+    private likeService: LikeService,
+    private presentationService: PresentationService,
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
+    private blockService: BlockService,
+    private accountMigrationService: AccountMigrationService,
+    private pinService: PinService,
+    private reactionService: ReactionService,
+    private pollService: PollService,
+    private relayService: RelayService,
+    private notificationService: NotificationService,
   ) {}
 
   async setup(federation: Federation<unknown>) {
@@ -105,6 +147,13 @@ export class ActorHandler {
         ),
       };
     }
+    // Peers in secure mode only answer fetches signed by the instance actor
+    if (
+      this.authorizedFetchService.isEnabled() &&
+      this.INSTANCE_ACTOR_KEY == null
+    ) {
+      throw new Error('INSTANCE_ACTOR_KEY is required for authorized fetch');
+    }
     federation
       .setActorDispatcher(
         '/ap/actors/{identifier}',
@@ -137,36 +186,54 @@ export class ActorHandler {
       })
       .setKeyPairsDispatcher(this.handleKeyPairs.bind(this));
 
-    federation.setOutboxDispatcher(
-      '/ap/actors/{identifier}/outbox',
-      async (ctx, identifier) => {
+    federation
+      .setOutboxDispatcher(
+        '/ap/actors/{identifier}/outbox',
+        async (ctx, identifier, cursor) => {
+          const actor = await this.actorRepository.findOne({
+            where: { id: identifier, isLocal: true },
+          });
+          if (!actor) {
+            console.log('Actor not found for identifier:', identifier);
+            return null;
+          }
+
+          const {
+            items: notes,
+            nextCursor,
+            last,
+          } = await this.noteService.getOutboxNotes(actor.id, {
+            cursor: cursor || null,
+            limit: 20,
+          });
+
+          return {
+            items: notes.map((note) =>
+              note.sharedNoteId
+                ? toAPAnnounce(ctx, note)
+                : toAPCreateNote(ctx, note),
+            ),
+            nextCursor: last ? null : nextCursor,
+          };
+        },
+      )
+      // Followers-only and direct notes are not listed, so not counted
+      .setCounter(async (ctx, identifier) => {
         const actor = await this.actorRepository.findOne({
-          where: { id: identifier },
+          where: { id: identifier, isLocal: true },
         });
-        if (!actor) {
-          console.log('Actor not found for identifier:', identifier);
-          return null;
-        }
+        if (!actor) return null;
 
-        const notes = await this.noteRepository.find({
-          where: { authorId: actor.id, visibility: In(['public', 'unlisted']) },
-          relations: ['author'],
-        });
+        return this.noteService.countOutboxNotes(actor.id);
+      })
+      .setFirstCursor(async (ctx, identifier) => '')
+      .authorize((ctx, identifier, signedKey, signedKeyOwner) =>
+        this.authorizedFetchService.authorize(signedKeyOwner),
+      );
 
-        return {
-          items: notes.map((note) => {
-            const apNote = toAPNote(ctx, note);
-            return new Create({
-              id: new URL('#create', apNote.id ?? ctx.origin),
-              object: apNote,
-              actors: apNote?.attributionIds,
-              tos: apNote?.toIds,
-              ccs: apNote?.ccIds,
-            });
-          }),
-        };
-      },
-    );
+    // Activities from suspended domains are dropped before any processing
+    const isFromSuspendedDomain = (activity: Activity) =>
+      this.domainBlockService.isSuspended(activity.actorId);
 
     federation
       .setInboxListeners('/ap/actors/{identifier}/inbox', '/ap/inbox')
@@ -174,6 +241,7 @@ export class ActorHandler {
         identifier: new URL(ctx.canonicalOrigin).hostname,
       }))
       .on(APFollow, async (ctx, follow) => {
+        if (await isFromSuspendedDomain(follow)) return;
         console.log({ follow });
         if (follow.objectId === null) {
           return;
@@ -211,6 +279,14 @@ export class ActorHandler {
           await this.actorRepository.save(followerActor!);
         }
 
+        // Follows from actors the target has blocked are dropped
+        if (
+          targetActor &&
+          (await this.blockService.isBlocking(targetActor, followerActor!))
+        ) {
+          return;
+        }
+
         if (targetActor) {
           const followObj = await this.followService.followActor(
             followerActor!,
@@ -233,28 +309,94 @@ export class ActorHandler {
         }
       })
       .on(Undo, async (ctx, undo) => {
+        if (await isFromSuspendedDomain(undo)) return;
         console.log({ undo });
         const object = await undo.getObject();
         if (object instanceof APFollow) handleUndoFollow(ctx, undo);
+        else if (object instanceof APLike) handleUndoLike(ctx, undo);
+        else if (object instanceof APBlock) handleUndoBlock(ctx, undo);
+        else if (object instanceof EmojiReact) handleUndoReaction(ctx, undo);
+        else if (object instanceof Announce) handleUndoAnnounce(ctx, undo);
       })
       .on(Accept, async (ctx, accept) => {
+        if (await isFromSuspendedDomain(accept)) return;
         console.log({ accept });
+        // Relays answer the instance actor's Follow of the public collection
+        if (await this.relayService.handleResponse(accept)) return;
         const object = await accept.getObject({ crossOrigin: 'trust' });
         if (object instanceof APFollow) handleAcceptFollow(ctx, accept);
       })
       .on(Reject, async (ctx, reject) => {
+        if (await isFromSuspendedDomain(reject)) return;
         console.log({ reject });
+        if (await this.relayService.handleResponse(reject)) return;
         const object = await reject.getObject({ crossOrigin: 'trust' });
         if (object instanceof APFollow) handleRejectFollow(ctx, reject);
       })
       .on(Create, async (ctx, create) => {
+        if (await isFromSuspendedDomain(create)) return;
         console.log({ create });
         const object = await create.getObject();
-        if (object instanceof APNote) handleOnCreateNote(ctx, create);
+        if (object instanceof APNote || object instanceof Question)
+          handleOnCreateNote(ctx, create);
+        else if (object instanceof APDocument || object instanceof Page)
+          handleOnCreatePresentation(ctx, create);
       })
       .on(Announce, async (ctx, announce) => {
+        if (await isFromSuspendedDomain(announce)) return;
+        const relay = await this.relayService.getAcceptedRelay(
+          announce.actorId,
+        );
+        if (relay) {
+          handleOnRelayAnnounce(ctx, announce, relay);
+          return;
+        }
         const object = await announce.getObject();
         if (object instanceof APNote) handleOnAnnounceNote(ctx, announce);
+      })
+      .on(APLike, async (ctx, like) => {
+        if (await isFromSuspendedDomain(like)) return;
+        console.log({ like });
+        // Misskey sends emoji reactions as a Like with content
+        if (like.content) handleOnReaction(ctx, like);
+        else handleOnLike(ctx, like);
+      })
+      .on(EmojiReact, async (ctx, react) => {
+        if (await isFromSuspendedDomain(react)) return;
+        console.log({ react });
+        handleOnReaction(ctx, react);
+      })
+      .on(APBlock, async (ctx, block) => {
+        if (await isFromSuspendedDomain(block)) return;
+        console.log({ block });
+        handleOnBlock(ctx, block);
+      })
+      .on(Move, async (ctx, move) => {
+        if (await isFromSuspendedDomain(move)) return;
+        console.log({ move });
+        handleOnMove(ctx, move);
+      })
+      .on(Delete, async (ctx, del) => {
+        if (await isFromSuspendedDomain(del)) return;
+        console.log({ delete: del });
+        // Actors delete themselves by sending Delete with their own id
+        if (del.actorId != null && del.actorId.href === del.objectId?.href)
+          handleOnDeleteActor(ctx, del);
+        else handleOnDeleteNote(ctx, del);
+      })
+      .on(Update, async (ctx, update) => {
+        if (await isFromSuspendedDomain(update)) return;
+        console.log({ update });
+        const object = await update.getObject();
+        if (object instanceof APNote) handleOnUpdateNote(ctx, update);
+        else if (object instanceof Question)
+          handleOnUpdateQuestion(ctx, update);
+        else if (
+          object instanceof Person ||
+          object instanceof Service ||
+          object instanceof Application
+        )
+          handleOnUpdateActor(ctx, update, object);
       });
 
     const handleRejectFollow = async (ctx, reject: Reject) => {
@@ -276,7 +418,9 @@ export class ActorHandler {
 
       const url = object?.objectId?.href || '';
       if (url !== '') {
-        const lookupResult = await lookupObject(new URL(url));
+        const lookupResult = await this.authorizedFetchService.lookupObject(
+          new URL(url),
+        );
         if (lookupResult && lookupResult instanceof Person) {
           await this.actorService.persistActor(lookupResult);
         }
@@ -307,7 +451,9 @@ export class ActorHandler {
 
       const requesterIri = object?.actorId?.href || '';
       if (iri !== '') {
-        const lookupResult = await lookupObject(new URL(requesterIri));
+        const lookupResult = await this.authorizedFetchService.lookupObject(
+          new URL(requesterIri),
+        );
         if (lookupResult && lookupResult instanceof Person) {
           await this.actorService.persistActor(lookupResult);
         }
@@ -345,49 +491,179 @@ export class ActorHandler {
       });
     };
 
+    const resolveMentionedActors = async (tags: object[]) => {
+      const actors: Actor[] = [];
+      for (const tag of tags) {
+        if (tag instanceof APMention) {
+          const iri = tag?.href?.href || '';
+          if (!iri || (await this.domainBlockService.isSuspended(iri)))
+            continue;
+          const apActor = await this.authorizedFetchService.lookupObject(
+            new URL(iri),
+          );
+          if (
+            apActor instanceof Person ||
+            apActor instanceof Service ||
+            apActor instanceof Application
+          ) {
+            const actor = await this.actorService.persistActor(apActor);
+            if (actor) {
+              actors.push(actor);
+            }
+          }
+        }
+      }
+      return actors;
+    };
+
     const handleOnCreateNote = async (
       ctx: Context<unknown>,
       create: Create,
     ) => {
       const object = await create.getObject();
-      if (object && object instanceof APNote) {
+      if (object instanceof APNote && (await handleOnPollVote(create, object)))
+        return;
+      if (object instanceof APNote || object instanceof Question) {
         const tags = object.getTags();
         const tagsArray: object[] = [];
         for await (const tag of tags) {
           tagsArray.push(tag);
         }
 
-        const actors: Actor[] = [];
         const hashtagNames =
           NoteService.extractHashtagNamesFromAPTags(tagsArray);
-        for (const tag of tagsArray) {
-          if (tag instanceof APMention) {
-            const iri = tag?.href?.href || '';
-            const apActor = await lookupObject(new URL(iri));
-            if (
-              apActor instanceof Person ||
-              apActor instanceof Service ||
-              apActor instanceof Application
-            ) {
-              const actor = await this.actorService.persistActor(apActor);
-              if (actor) {
-                actors.push(actor);
-              }
-            }
-          }
-        }
+        const actors = await resolveMentionedActors(tagsArray);
         // Note creation and Attach hashTags
         const note = await this.timelineService.addItemToTimeline(object);
+        if (note && object instanceof Question) {
+          await this.pollService.syncRemotePoll(note, object);
+        }
         if (note && hashtagNames.length > 0) {
           await this.noteService.upsertAndAttachTags(note, hashtagNames);
         }
         if (note) {
-          const mentions = await this.noteService.addMentions(note, actors);
-          for (const mention of mentions) {
-            // TODO : Create Notifications for local actors
-          }
+          // Mentioned local actors are notified by addMentions
+          await this.noteService.addMentions(note, actors);
+          await this.notificationService.notifyReply(note);
+          await handleNotePresentation(object, note);
+        }
+      }
+    };
+
+    // Cosmoslide publishes a presentation as a note with the presentation's
+    // PDF attached under the presentation's ID
+    const handleNotePresentation = async (
+      object: APNote | Question,
+      note: Note,
+    ) => {
+      let presentationId: URL | null = null;
+      for await (const attachment of object.getAttachments()) {
+        if (
+          attachment instanceof APDocument &&
+          attachment.mediaType === 'application/pdf' &&
+          attachment.id
+        ) {
+          presentationId = attachment.id;
+          break;
         }
       }
+      if (!presentationId || presentationId.origin !== object.id?.origin)
+        return;
+
+      try {
+        const presentation =
+          await this.authorizedFetchService.lookupObject(presentationId);
+        if (
+          !(presentation instanceof APDocument || presentation instanceof Page)
+        )
+          return;
+        if (presentation.attributionId?.href !== object.attributionId?.href)
+          return;
+
+        const actor = await this.actorRepository.findOne({
+          where: { id: note.authorId },
+        });
+        if (!actor) return;
+
+        await this.presentationService.persistRemotePresentation(
+          presentation,
+          actor,
+          note,
+        );
+      } catch (error) {
+        console.warn(`Failed to fetch presentation ${presentationId}:`, error);
+      }
+    };
+
+    // Poll votes arrive as a Note without content, named after the chosen
+    // option and in reply to the Question
+    const handleOnPollVote = async (
+      create: Create,
+      vote: APNote,
+    ): Promise<boolean> => {
+      if (
+        vote.name == null ||
+        vote.content != null ||
+        vote.id == null ||
+        vote.replyTargetId == null ||
+        create.actorId == null
+      )
+        return false;
+
+      const note = await this.noteRepository.findOne({
+        where: { iri: vote.replyTargetId.href },
+        relations: ['author'],
+      });
+      if (!note?.author?.isLocal) return false;
+      if (vote.attributionId?.href !== create.actorId.href) return true;
+
+      const apActor = await create.getActor();
+      if (
+        !(
+          apActor instanceof Person ||
+          apActor instanceof Service ||
+          apActor instanceof Application
+        )
+      )
+        return true;
+
+      const actor = await this.actorService.persistActor(apActor);
+      if (actor) {
+        await this.pollService.addRemoteVote(
+          actor,
+          note,
+          vote.id.href,
+          vote.name.toString(),
+        );
+      }
+      return true;
+    };
+
+    const handleOnCreatePresentation = async (
+      ctx: Context<unknown>,
+      create: Create,
+    ) => {
+      const object = await create.getObject();
+      if (!(object instanceof APDocument || object instanceof Page)) return;
+
+      const author = await create.getActor();
+      if (
+        !(
+          author instanceof Person ||
+          author instanceof Service ||
+          author instanceof Application
+        )
+      )
+        return;
+
+      // Only accept presentations attributed to the actor who sent them
+      if (object.attributionId && object.attributionId.href !== author.id?.href)
+        return;
+
+      const actor = await this.actorService.persistActor(author);
+      if (!actor) return;
+
+      await this.presentationService.persistRemotePresentation(object, actor);
     };
 
     const handleOnAnnounceNote = async (
@@ -400,12 +676,410 @@ export class ActorHandler {
         if (apActor instanceof Person) {
           const actor = await this.actorService.persistActor(apActor);
           const share = await this.noteService.persistSharedNote(announce);
-          if (share != null)
+          if (share != null) {
             await this.timelineService.addSharedItemToTimeline(actor!, share);
+            await this.notificationService.notify({
+              type: 'share',
+              recipientId: share.sharedNote?.authorId,
+              actorId: actor?.id,
+              noteId: share.sharedNoteId,
+            });
+          }
         }
       }
     };
 
+    // Relays announce public posts from their other subscribers; those are
+    // kept for the federated timeline without touching the relay's shares
+    const handleOnRelayAnnounce = async (
+      ctx: Context<unknown>,
+      announce: Announce,
+      relay: Relay,
+    ) => {
+      const object = await announce.getObject();
+      if (!(object instanceof APNote || object instanceof Question)) return;
+      if (object.id == null || object.attributionId == null) return;
+      if (this.noteService.classifyVisibility(object) !== 'public') return;
+      if (await this.domainBlockService.isSuspended(object.attributionId))
+        return;
+
+      const existing = await this.noteRepository.exists({
+        where: { iri: object.id.href },
+      });
+      if (existing) return;
+
+      const note = await this.timelineService.addItemToTimeline(object);
+      if (!note) return;
+      await this.noteRepository.update(note.id, { relayId: relay.id });
+
+      if (object instanceof Question) {
+        await this.pollService.syncRemotePoll(note, object);
+      }
+      const tags: object[] = [];
+      for await (const tag of object.getTags()) {
+        tags.push(tag);
+      }
+      const hashtagNames = NoteService.extractHashtagNamesFromAPTags(tags);
+      if (hashtagNames.length > 0) {
+        await this.noteService.upsertAndAttachTags(note, hashtagNames);
+      }
+    };
+
+    const handleOnLike = async (ctx: Context<unknown>, like: APLike) => {
+      if (like.id == null || like.actorId == null || like.objectId == null)
+        return;
+
+      const note = await this.noteRepository.findOne({
+        where: { iri: like.objectId.href },
+      });
+      if (!note) return;
+
+      const apActor = await like.getActor();
+      if (
+        !(
+          apActor instanceof Person ||
+          apActor instanceof Service ||
+          apActor instanceof Application
+        )
+      )
+        return;
+
+      const actor = await this.actorService.persistActor(apActor);
+      if (!actor) return;
+
+      const added = await this.likeService.addRemoteLike(
+        actor,
+        note,
+        like.id.href,
+      );
+      if (added) {
+        await this.notificationService.notify({
+          type: 'like',
+          recipientId: note.authorId,
+          actorId: actor.id,
+          noteId: note.id,
+        });
+      }
+    };
+
+    const handleUndoLike = async (ctx: Context<unknown>, undo: Undo) => {
+      const object = (await undo.getObject()) as APLike;
+      if (undo.actorId === null || object.id === null) return;
+      if (object.actorId?.href !== undo.actorId.href) return;
+
+      const likerActor = await this.actorRepository.findOne({
+        where: {
+          iri: undo.actorId.href,
+        },
+      });
+      if (!likerActor) return;
+
+      // A Like with content was recorded as a reaction
+      if (
+        !(await this.likeService.removeRemoteLike(likerActor, object.id.href))
+      )
+        await this.reactionService.removeRemoteReaction(
+          likerActor,
+          object.id.href,
+        );
+    };
+
+    // Notes are looked up by IRI, local presentations by their object URI
+    const resolveReactionTarget = async (
+      ctx: Context<unknown>,
+      objectId: URL,
+    ) => {
+      const note = await this.noteRepository.findOne({
+        where: { iri: objectId.href },
+        relations: ['author'],
+      });
+      if (note) return { note };
+
+      const parsed = ctx.parseUri(objectId);
+      const presentation = await this.presentationRepository.findOne({
+        where:
+          parsed?.type === 'object' && parsed.class === APDocument
+            ? { id: parsed.values.presentationId }
+            : { iri: objectId.href },
+        relations: ['actor'],
+      });
+      if (presentation) return { presentation };
+
+      return null;
+    };
+
+    const handleOnReaction = async (
+      ctx: Context<unknown>,
+      reaction: APLike | EmojiReact,
+    ) => {
+      if (
+        reaction.id == null ||
+        reaction.actorId == null ||
+        reaction.objectId == null
+      )
+        return;
+      const content = reaction.content?.toString().trim();
+      if (!content) return;
+
+      const target = await resolveReactionTarget(ctx, reaction.objectId);
+      if (!target) return;
+
+      const apActor = await reaction.getActor();
+      if (
+        !(
+          apActor instanceof Person ||
+          apActor instanceof Service ||
+          apActor instanceof Application
+        )
+      )
+        return;
+
+      const actor = await this.actorService.persistActor(apActor);
+      if (!actor) return;
+
+      // Custom emoji come with their image as an Emoji tag
+      let emojiUrl: string | null = null;
+      if (!(await this.domainBlockService.rejectsMedia(reaction.actorId))) {
+        for await (const tag of reaction.getTags()) {
+          if (!(tag instanceof Emoji) || tag.name?.toString() !== content)
+            continue;
+          const icon = await tag.getIcon();
+          const url = icon?.url instanceof URL ? icon.url : icon?.url?.href;
+          emojiUrl = url?.href ?? null;
+        }
+      }
+
+      await this.reactionService.addRemoteReaction(
+        actor,
+        target,
+        reaction.id.href,
+        content,
+        emojiUrl,
+      );
+    };
+
+    const handleUndoReaction = async (ctx: Context<unknown>, undo: Undo) => {
+      const object = (await undo.getObject()) as EmojiReact;
+      if (undo.actorId === null || object.id === null) return;
+      if (object.actorId?.href !== undo.actorId.href) return;
+
+      const reactorActor = await this.actorRepository.findOne({
+        where: {
+          iri: undo.actorId.href,
+        },
+      });
+      if (!reactorActor) return;
+
+      await this.reactionService.removeRemoteReaction(
+        reactorActor,
+        object.id.href,
+      );
+    };
+
+    const handleUndoAnnounce = async (ctx: Context<unknown>, undo: Undo) => {
+      const object = (await undo.getObject()) as Announce;
+      if (undo.actorId === null || object.id === null) return;
+      if (object.actorId?.href !== undo.actorId.href) return;
+
+      const sharerActor = await this.actorRepository.findOne({
+        where: {
+          iri: undo.actorId.href,
+        },
+      });
+      if (!sharerActor) return;
+
+      await this.noteService.deleteRemoteShare(sharerActor, object.id.href);
+    };
+
+    const handleOnBlock = async (ctx: Context<unknown>, block: APBlock) => {
+      if (block.id == null || block.actorId == null || block.objectId == null)
+        return;
+
+      const parsed = ctx.parseUri(block.objectId);
+      if (parsed === null || parsed.type !== 'actor') return;
+
+      const blockedActor = await this.actorRepository.findOne({
+        where: { id: parsed.identifier, isLocal: true },
+      });
+      if (!blockedActor) return;
+
+      const apActor = await block.getActor();
+      if (
+        !(
+          apActor instanceof Person ||
+          apActor instanceof Service ||
+          apActor instanceof Application
+        )
+      )
+        return;
+
+      const blocker = await this.actorService.persistActor(apActor);
+      if (!blocker) return;
+
+      await this.blockService.addRemoteBlock(
+        blocker,
+        blockedActor,
+        block.id.href,
+      );
+    };
+
+    const handleUndoBlock = async (ctx: Context<unknown>, undo: Undo) => {
+      const object = (await undo.getObject()) as APBlock;
+      if (undo.actorId === null || object.id === null) return;
+      if (object.actorId?.href !== undo.actorId.href) return;
+
+      const blockerActor = await this.actorRepository.findOne({
+        where: {
+          iri: undo.actorId.href,
+        },
+      });
+      if (!blockerActor) return;
+
+      await this.blockService.removeRemoteBlock(blockerActor, object.id.href);
+    };
+
+    const handleOnMove = async (ctx: Context<unknown>, move: Move) => {
+      if (move.actorId == null || move.objectId == null) return;
+      if (move.targetId == null) return;
+
+      // Only an actor may move itself
+      if (move.actorId.href !== move.objectId.href) return;
+
+      const oldActor = await this.actorRepository.findOne({
+        where: { iri: move.objectId.href },
+      });
+      if (!oldActor || oldActor.isLocal) return;
+
+      const target = await move.getTarget();
+      if (
+        !(
+          target instanceof Person ||
+          target instanceof Service ||
+          target instanceof Application
+        )
+      )
+        return;
+
+      await this.accountMigrationService.applyRemoteMove(oldActor, target);
+    };
+
+    const handleOnUpdateNote = async (
+      ctx: Context<unknown>,
+      update: Update,
+    ) => {
+      const object = await update.getObject();
+      if (!(object instanceof APNote) || object.id == null) return;
+      if (update.actorId == null) return;
+
+      const note = await this.noteRepository.findOne({
+        where: { iri: object.id.href },
+        relations: ['author'],
+      });
+      if (!note || !note.author || note.author.isLocal) return;
+
+      // Only the author of a note may update it
+      const authorIri = note.author.iri ?? note.author.actorId;
+      if (
+        authorIri !== update.actorId.href ||
+        object.attributionId?.href !== authorIri
+      )
+        return;
+
+      const tagsArray: object[] = [];
+      for await (const tag of object.getTags()) {
+        tagsArray.push(tag);
+      }
+
+      await this.noteService.applyRemoteUpdate(
+        note,
+        object,
+        await resolveMentionedActors(tagsArray),
+        NoteService.extractHashtagNamesFromAPTags(tagsArray),
+      );
+    };
+
+    // Remote polls send Update(Question) with new tallies and when closed
+    const handleOnUpdateQuestion = async (
+      ctx: Context<unknown>,
+      update: Update,
+    ) => {
+      const object = await update.getObject();
+      if (!(object instanceof Question) || object.id == null) return;
+      if (update.actorId == null) return;
+
+      const note = await this.noteRepository.findOne({
+        where: { iri: object.id.href },
+        relations: ['author'],
+      });
+      if (!note || !note.author || note.author.isLocal) return;
+
+      // Only the author of a poll may update it
+      if ((note.author.iri ?? note.author.actorId) !== update.actorId.href)
+        return;
+
+      await this.pollService.syncRemotePoll(note, object);
+    };
+
+    const handleOnDeleteNote = async (ctx: Context<unknown>, del: Delete) => {
+      if (del.actorId == null || del.objectId == null) return;
+
+      const note = await this.noteRepository.findOne({
+        where: { iri: del.objectId.href },
+        relations: ['author'],
+      });
+      if (!note) {
+        // The deleted object may be a presentation instead
+        const actor = await this.actorRepository.findOne({
+          where: { iri: del.actorId.href },
+        });
+        if (actor && !actor.isLocal) {
+          await this.presentationService.deleteRemotePresentation(
+            del.objectId.href,
+            actor,
+          );
+        }
+        return;
+      }
+      if (!note.author || note.author.isLocal) return;
+
+      // Only the author of a note may delete it
+      const authorIri = note.author.iri ?? note.author.actorId;
+      if (authorIri !== del.actorId.href) return;
+
+      await this.noteService.deleteRemoteNote(note);
+    };
+
+    const handleOnUpdateActor = async (
+      ctx: Context<unknown>,
+      update: Update,
+      object: Person | Service | Application,
+    ) => {
+      // Only an actor may update itself
+      if (update.actorId == null || object.id == null) return;
+      if (update.actorId.href !== object.id.href) return;
+
+      // Actors that are not known here are fetched when first needed
+      const actor = await this.actorRepository.findOne({
+        where: { iri: object.id.href },
+      });
+      if (!actor || actor.isLocal) return;
+
+      await this.actorService.persistActor(object);
+      await this.actorService.persistFeatured(actor, object);
+    };
+
+    const handleOnDeleteActor = async (ctx: Context<unknown>, del: Delete) => {
+      if (del.actorId == null) return;
+
+      const actor = await this.actorRepository.findOne({
+        where: { iri: del.actorId.href },
+      });
+      if (!actor || actor.isLocal) return;
+
+      await this.noteService.purgeRemoteActor(actor);
+      await this.followService.removeFollowsOfActor(actor);
+    };
+
     federation
       .setFollowersDispatcher(
         '/ap/actors/{identifier}/followers',
@@ -418,10 +1092,13 @@ export class ActorHandler {
             cursor,
             limit: 10,
           });
-          const items = followers.map((follower) => ({
-            id: new URL(follower.iri),
-            inboxId: new URL(follower.inboxUrl),
-          }));
+          const items =
+            await this.domainBlockService.excludeSuspendedRecipients(
+              followers.map((follower) => ({
+                id: new URL(follower.iri),
+                inboxId: new URL(follower.inboxUrl),
+              })),
+            );
 
           return {
             items,
@@ -429,7 +1106,10 @@ export class ActorHandler {
           };
         },
       )
-      .setFirstCursor(async (ctx, identifier) => '');
+      .setFirstCursor(async (ctx, identifier) => '')
+      .authorize((ctx, identifier, signedKey, signedKeyOwner) =>
+        this.authorizedFetchService.authorize(signedKeyOwner),
+      );
 
     federation
       .setFollowingDispatcher(
@@ -451,7 +1131,59 @@ export class ActorHandler {
           };
         },
       )
+      .setFirstCursor(async (ctx, identifier) => '')
+      .authorize((ctx, identifier, signedKey, signedKeyOwner) =>
+        this.authorizedFetchService.authorize(signedKeyOwner),
+      );
+
+    federation
+      .setLikedDispatcher(
+        '/ap/actors/{identifier}/liked',
+        async (ctx, identifier, cursor) => {
+          const {
+            items: likes,
+            nextCursor,
+            last,
+          } = await this.likeService.getLikedByActor(identifier, {
+            cursor,
+            limit: 10,
+          });
+          const items = likes
+            .filter((like) => like.note?.iri)
+            .map((like) => new URL(like.note.iri));
+
+          return {
+            items,
+            nextCursor: last ? null : nextCursor?.toString(),
+          };
+        },
+      )
+      .setCounter((ctx, identifier) =>
+        this.likeService.countLikedByActor(identifier),
+      )
       .setFirstCursor(async (ctx, identifier) => '');
+
+    // Pinned notes and presentations, shown first on remote profiles
+    federation.setFeaturedDispatcher(
+      '/ap/actors/{identifier}/featured',
+      async (ctx, identifier) => {
+        const actor = await this.actorRepository.findOne({
+          where: { id: identifier, isLocal: true },
+        });
+        if (!actor) return null;
+
+        const { notes, presentations } = await this.pinService.getPins(actor);
+
+        return {
+          items: [
+            ...notes.map((note) => toAPNote(ctx, note)),
+            ...presentations.map((presentation) =>
+              toAPPresentation(ctx, presentation, actor),
+            ),
+          ],
+        };
+      },
+    );
   }
 
   async handleKeyPairs(ctx: RequestContext<unknown>, identifier: string) {
@@ -471,23 +1203,29 @@ export class ActorHandler {
       return [];
     }
 
-    // Load all active key pairs for the user
     const user = actor.user;
+
+    // Load all active key pairs for the user, newest first so that the
+    // current key is the one used for signing. Keys rotated out are
+    // published until their grace period ends.
     const keyPairs = await this.keyPairRepository.find({
       where: {
         userId: user.id,
         isActive: true,
+        expiresAt: Or(IsNull(), MoreThan(new Date())),
       },
       order: {
         algorithm: 'ASC', // RSA first, then Ed25519
-        createdAt: 'ASC',
+        createdAt: 'DESC',
       },
     });
 
-    const availableAlgorithms = keyPairs.map((keyPair) => keyPair.algorithm);
     let result: CryptoKeyPair[] = [];
     for (const algorithm of [KeyAlgorithm.RSA, KeyAlgorithm.Ed25519] as const) {
-      if (!availableAlgorithms.includes(algorithm)) {
+      const available = keyPairs.filter(
+        (keyPair) => keyPair.algorithm === algorithm,
+      );
+      if (available.length === 0) {
         const { privateKey, publicKey } =
           await generateCryptoKeyPair(algorithm);
 
@@ -509,15 +1247,15 @@ export class ActorHandler {
 
         await this.keyPairRepository.save(keyPair);
       } else {
-        let keyPair = keyPairs.find((item) => item.algorithm === algorithm);
-
-        result.push({
-          privateKey: await importJwk(
-            JSON.parse(keyPair!.privateKey),
-            'private',
-          ),
-          publicKey: await importJwk(JSON.parse(keyPair!.publicKey), 'public'),
-        });
+        for (const keyPair of available) {
+          result.push({
+            privateKey: await importJwk(
+              JSON.parse(keyPair.privateKey),
+              'private',
+            ),
+            publicKey: await importJwk(JSON.parse(keyPair.publicKey), 'public'),
+          });
+        }
       }
     }
 
@@ -533,7 +1271,7 @@ export class ActorHandler {
       return null;
     }
 
-    // Get the first active RSA key pair
+    // Get the current active RSA key pair
     const keyPair = await this.keyPairRepository.findOne({
       where: {
         userId: user.id,
@@ -541,7 +1279,7 @@ export class ActorHandler {
         isActive: true,
       },
       order: {
-        createdAt: 'ASC',
+        createdAt: 'DESC',
       },
     });
 
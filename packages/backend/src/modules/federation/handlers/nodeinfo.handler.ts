@@ -4,6 +4,7 @@ import { Repository } from 'typeorm';
 import { User, Note } from '../../../entities';
 import { ConfigService } from '@nestjs/config';
 import { Federation, parseSemVer, RequestContext } from '@fedify/fedify';
+import { DomainBlockService } from '../services/domain-block.service';
 
 @Injectable()
 export class NodeInfoHandler {
@@ -13,6 +14,7 @@ export class NodeInfoHandler {
     @InjectRepository(Note)
     private noteRepository: Repository<Note>,
     private configService: ConfigService,
+    private domainBlockService: DomainBlockService,
   ) {}
 
   setup(federation: Federation<unknown>) {
@@ -42,6 +44,20 @@ export class NodeInfoHandler {
     // Get post count
     const localPosts = await this.noteRepository.count();
 
+    // Publishing the block list is opt-in
+    const metadata =
+      process.env.FEDERATION_PUBLISH_DOMAIN_BLOCKS === 'true'
+        ? {
+            domainBlocks: (await this.domainBlockService.findAll()).map(
+              (block) => ({
+                domain: block.domain,
+                severity: block.severity,
+                comment: block.publicComment ?? '',
+              }),
+            ),
+          }
+        : undefined;
+
     // Return fedify NodeInfo format with proper URL objects
 
     return {
@@ -66,6 +82,7 @@ export class NodeInfoHandler {
         localComments: 0,
       },
       openRegistrations: true,
+      metadata,
     };
   }
 }
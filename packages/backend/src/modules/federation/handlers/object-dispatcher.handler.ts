@@ -1,43 +1,253 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { User, Note } from '../../../entities';
+import { Repository } from 'typeorm';
+import { User, Note, Actor, Poll, Presentation } from '../../../entities';
 import {
+  Document,
   Federation,
   Note as APNote,
   Announce as APAnnounce,
+  Like as APLike,
+  Question,
+  Tombstone,
 } from '@fedify/fedify';
+import { Temporal } from '@js-temporal/polyfill';
 import { NoteService } from 'src/modules/microblogging/services/note.service';
-import { toAPAnnounce } from 'src/lib/activitypub';
+import { LikeService } from 'src/modules/microblogging/services/like.service';
+import { TagService } from 'src/modules/microblogging/services/tag.service';
+import { AuthorizedFetchService } from '../services/authorized-fetch.service';
+import {
+  NOTE_LIKES_COLLECTION,
+  NOTE_REPLIES_COLLECTION,
+  TAG_COLLECTION,
+  toAPAnnounce,
+  toAPNote,
+  toAPPresentation,
+  toAPQuestion,
+} from 'src/lib/activitypub';
 
 @Injectable()
 export class ObjectDispatcherHandler {
-  constructor(private noteService: NoteService) {}
+  constructor(
+    private noteService: NoteService,
+    private likeService: LikeService,
+    private tagService: TagService,
+    private authorizedFetchService: AuthorizedFetchService,
+
+    @InjectRepository(Presentation)
+    private presentationRepository: Repository<Presentation>,
+
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @InjectRepository(Poll)
+    private pollRepository: Repository<Poll>,
+  ) {}
 
   setup(federation: Federation<unknown>) {
-    federation.setObjectDispatcher(
-      APNote,
-      '/ap/notes/{noteId}',
-      async (ctx, { noteId }) => {
-        const note = await this.noteService.getNoteById(noteId);
-        if (!note) return null;
-
-        return new APNote({
-          id: ctx.getObjectUri(APNote, { noteId }),
-          content: note.content,
-          // Many more properties...
-        });
-      },
-    );
+    // A note is served as a Note, as a Question when it has a poll, or as a
+    // Tombstone once deleted
+    federation
+      .setObjectDispatcher<APNote | Question | Tombstone, 'noteId'>(
+        APNote,
+        '/ap/notes/{noteId}',
+        async (ctx, { noteId }) => {
+          const note = await this.noteService.getNoteById(noteId, {
+            withDeleted: true,
+            withMentions: true,
+          });
+          if (!note) return null;
+
+          // Deleted notes are served as a Tombstone in place of the Note
+          if (note.deletedAt) {
+            return new Tombstone({
+              id: ctx.getObjectUri(APNote, { noteId }),
+              deleted: Temporal.Instant.from(note.deletedAt.toISOString()),
+            });
+          }
+
+          // Followers-only notes are only served to signed fetches from
+          // followers of the author, and direct notes are never served
+          const signedKeyOwner =
+            note.visibility === 'followers'
+              ? await ctx.getSignedKeyOwner({
+                  documentLoader:
+                    await this.authorizedFetchService.getDocumentLoader(),
+                })
+              : null;
+          if (
+            !(await this.authorizedFetchService.canViewNote(
+              note,
+              signedKeyOwner,
+            ))
+          ) {
+            return null;
+          }
+
+          // Notes with a poll are served as a Question with current tallies
+          const poll = await this.pollRepository.findOne({
+            where: { noteId },
+          });
+          if (poll && note.author?.isLocal) {
+            return toAPQuestion(ctx, note, poll);
+          }
+
+          return toAPNote(ctx, note);
+        },
+      )
+      .authorize((ctx, values, signedKey, signedKeyOwner) =>
+        this.authorizedFetchService.authorize(signedKeyOwner),
+      );
 
     federation.setObjectDispatcher(
       APAnnounce,
       '/ap/announces/{announceId}',
       async (ctx, { announceId }) => {
         const share = await this.noteService.getSharedNoteById(announceId);
-        if (!share || !share.sharedNote || share.author.user) return null;
+        // Remote shares are served by their own instance
+        if (!share || !share.sharedNote || !share.author?.isLocal) return null;
 
         return toAPAnnounce(ctx, share);
       },
     );
+
+    federation.setObjectDispatcher(
+      Document,
+      '/ap/presentations/{presentationId}',
+      async (ctx, { presentationId }) => {
+        const presentation = await this.presentationRepository.findOne({
+          where: { id: presentationId },
+        });
+        // Remote presentations are served by their own instance
+        if (!presentation || presentation.iri || !presentation.actorId)
+          return null;
+
+        const actor = await this.actorRepository.findOne({
+          where: { id: presentation.actorId },
+        });
+        if (!actor) return null;
+
+        return toAPPresentation(ctx, presentation, actor);
+      },
+    );
+
+    federation
+      .setCollectionDispatcher(
+        NOTE_LIKES_COLLECTION,
+        APLike,
+        '/ap/notes/{noteId}/likes',
+        async (ctx, { noteId }, cursor) => {
+          const {
+            items: likes,
+            nextCursor,
+            last,
+          } = await this.likeService.getLikesOfNote(noteId, {
+            cursor,
+            limit: 10,
+          });
+          const items = likes
+            .filter((like) => like.iri && like.actor && like.note?.iri)
+            .map(
+              (like) =>
+                new APLike({
+                  id: new URL(like.iri),
+                  actor: new URL(like.actor.iri ?? like.actor.actorId),
+                  object: new URL(like.note.iri),
+                }),
+            );
+
+          return {
+            items,
+            nextCursor: last ? null : nextCursor?.toString(),
+          };
+        },
+      )
+      .setCounter((ctx, { noteId }) =>
+        this.likeService.countLikesOfNote(noteId),
+      )
+      .setFirstCursor(async (ctx, values) => '');
+
+    federation
+      .setCollectionDispatcher(
+        NOTE_REPLIES_COLLECTION,
+        APNote,
+        '/ap/notes/{noteId}/replies',
+        async (ctx, { noteId }, cursor) => {
+          const {
+            items: replies,
+            nextCursor,
+            last,
+          } = await this.noteService.getReplies(noteId, {
+            cursor,
+            limit: 10,
+          });
+          // Local replies are embedded in full, remote ones by reference
+          const items = replies
+            .filter((reply) => reply.iri && reply.author)
+            .map((reply) =>
+              reply.author.isLocal
+                ? toAPNote(ctx, reply)
+                : new APNote({
+                    id: new URL(reply.iri),
+                    attribution: new URL(
+                      reply.author.iri ?? reply.author.actorId,
+                    ),
+                  }),
+            );
+
+          return {
+            items,
+            nextCursor: last ? null : nextCursor?.toString(),
+          };
+        },
+      )
+      .setCounter((ctx, { noteId }) => this.noteService.countReplies(noteId))
+      .setFirstCursor(async (ctx, values) => '');
+
+    // The hashtag URL doubles as a collection of its public notes; browsers
+    // fall through to the web page
+    federation
+      .setOrderedCollectionDispatcher(
+        TAG_COLLECTION,
+        APNote,
+        '/tags/{name}',
+        async (ctx, { name }, cursor) => {
+          const tag = await this.tagService.getTag(name);
+          if (!tag) return null;
+
+          const {
+            items: notes,
+            nextCursor,
+            last,
+          } = await this.noteService.getTagNotes(tag.id, {
+            cursor,
+            limit: 20,
+          });
+          // Local notes are embedded in full, remote ones by reference
+          const items = notes
+            .filter((note) => note.iri && note.author)
+            .map((note) =>
+              note.author.isLocal
+                ? toAPNote(ctx, note)
+                : new APNote({
+                    id: new URL(note.iri),
+                    attribution: new URL(
+                      note.author.iri ?? note.author.actorId,
+                    ),
+                  }),
+            );
+
+          return {
+            items,
+            nextCursor: last ? null : nextCursor,
+          };
+        },
+      )
+      .setCounter(async (ctx, { name }) => {
+        const tag = await this.tagService.getTag(name);
+
+        return tag ? this.noteService.countTagNotes(tag.id) : null;
+      })
+      .setFirstCursor(async (ctx, values) => '');
   }
 }
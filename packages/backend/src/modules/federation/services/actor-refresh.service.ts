@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { Application, Person, Service } from '@fedify/fedify';
+import { Actor } from '../../../entities';
+import { ActorService } from '../../microblogging/services/actor.service';
+import { AuthorizedFetchService } from './authorized-fetch.service';
+import { DomainBlockService } from './domain-block.service';
+
+// How often stale remote actors are looked for
+const REFRESH_INTERVAL = 10 * 60 * 1000;
+
+// Remote actors refreshed per run
+const REFRESH_BATCH_SIZE = 50;
+
+/**
+ * Periodically re-fetches remote actors whose data is older than
+ * FEDERATION_ACTOR_TTL_HOURS (default: 24) so that names, avatars and
+ * endpoints do not go stale.
+ */
+@Injectable()
+export class ActorRefreshService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ActorRefreshService.name);
+  #timer?: NodeJS.Timeout;
+  #running = false;
+
+  constructor(
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    private actorService: ActorService,
+    private authorizedFetchService: AuthorizedFetchService,
+    private domainBlockService: DomainBlockService,
+  ) {}
+
+  onModuleInit() {
+    this.#timer = setInterval(() => {
+      void this.refreshStaleActors();
+    }, REFRESH_INTERVAL);
+    this.#timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.#timer);
+  }
+
+  getTtl(): number {
+    const hours = Number(process.env.FEDERATION_ACTOR_TTL_HOURS);
+    return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Refresh the remote actors that were fetched longest ago, if older than
+   * the TTL
+   */
+  async refreshStaleActors(limit: number = REFRESH_BATCH_SIZE) {
+    if (this.#running) return { refreshed: 0, failed: 0 };
+    this.#running = true;
+
+    try {
+      const actors = await this.actorRepository
+        .createQueryBuilder('actor')
+        .where('actor.isLocal = false')
+        .andWhere(
+          new Brackets((qb) =>
+            qb
+              .where('actor.lastFetchedAt IS NULL')
+              .orWhere('actor.lastFetchedAt < :staleBefore'),
+          ),
+          { staleBefore: new Date(Date.now() - this.getTtl()) },
+        )
+        .orderBy('actor.lastFetchedAt', 'ASC', 'NULLS FIRST')
+        .take(limit)
+        .getMany();
+
+      return await this.#refreshAll(actors);
+    } catch (error) {
+      this.logger.error(`Failed to refresh remote actors: ${error}`);
+      return { refreshed: 0, failed: 0 };
+    } finally {
+      this.#running = false;
+    }
+  }
+
+  /**
+   * Refresh every known remote actor on a domain, regardless of the TTL
+   */
+  async refreshDomain(domain: string) {
+    const actors = await this.actorRepository
+      .createQueryBuilder('actor')
+      .where('actor.isLocal = false')
+      .andWhere('actor.domain LIKE :pattern', { pattern: `%${domain}%` })
+      .getMany();
+
+    return await this.#refreshAll(
+      actors.filter((actor) => {
+        const host = DomainBlockService.getHost(actor.domain);
+        return !!host && DomainBlockService.coversHost(domain, host);
+      }),
+    );
+  }
+
+  /**
+   * Re-fetch a remote actor and persist the result
+   */
+  async refreshActor(actor: Actor): Promise<boolean> {
+    if (actor.isLocal) return false;
+
+    const iri = actor.iri ?? actor.actorId;
+    if (await this.domainBlockService.isSuspended(iri)) return false;
+
+    try {
+      const object = await this.authorizedFetchService.lookupObject(
+        new URL(iri),
+      );
+      if (
+        object instanceof Person ||
+        object instanceof Service ||
+        object instanceof Application
+      ) {
+        await this.actorService.persistActor(object);
+        await this.actorService.persistFeatured(actor, object);
+        return true;
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to refresh actor ${iri}: ${error}`);
+    }
+
+    // Do not retry unreachable actors until the TTL has passed again
+    await this.actorRepository.update(actor.id, { lastFetchedAt: new Date() });
+    return false;
+  }
+
+  async #refreshAll(actors: Actor[]) {
+    let refreshed = 0;
+    let failed = 0;
+    for (const actor of actors) {
+      if (await this.refreshActor(actor)) refreshed++;
+      else failed++;
+    }
+
+    return { refreshed, failed };
+  }
+}
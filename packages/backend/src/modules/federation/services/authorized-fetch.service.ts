@@ -0,0 +1,89 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Actor as APActor,
+  DocumentLoader,
+  Federation,
+  lookupObject,
+} from '@fedify/fedify';
+import { Follow, Note } from '../../../entities';
+import { DomainBlockService } from './domain-block.service';
+
+/**
+ * Authorized fetch ("secure mode"): objects and collections are only served
+ * to requests signed by an actor on a domain that is not suspended, and
+ * remote objects are fetched with the instance actor's key.
+ */
+@Injectable()
+export class AuthorizedFetchService {
+  constructor(
+    @InjectRepository(Follow)
+    private followRepository: Repository<Follow>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private domainBlockService: DomainBlockService,
+  ) {}
+
+  isEnabled(): boolean {
+    return process.env.FEDERATION_AUTHORIZED_FETCH === 'true';
+  }
+
+  /**
+   * Authorize predicate for object and collection dispatchers
+   */
+  async authorize(signedKeyOwner: APActor | null): Promise<boolean> {
+    if (!this.isEnabled()) return true;
+    if (!signedKeyOwner?.id) return false;
+
+    return !(await this.domainBlockService.isSuspended(signedKeyOwner.id));
+  }
+
+  /**
+   * Followers-only notes are only served to signers who follow the author
+   */
+  async canViewNote(
+    note: Note,
+    signedKeyOwner: APActor | null,
+  ): Promise<boolean> {
+    if (note.visibility === 'public' || note.visibility === 'unlisted') {
+      return true;
+    }
+    if (note.visibility !== 'followers' || !signedKeyOwner?.id) return false;
+
+    return await this.followRepository.exists({
+      where: {
+        follower: { iri: signedKeyOwner.id.href },
+        followingId: note.authorId,
+        status: 'accepted',
+      },
+    });
+  }
+
+  /**
+   * Document loader that signs requests as the instance actor, so that peers
+   * running in secure mode answer our fetches
+   */
+  async getDocumentLoader(): Promise<DocumentLoader> {
+    const ctx = this.federation.createContext(
+      new URL(process.env.FEDERATION_ORIGIN || ''),
+      undefined,
+    );
+    if (process.env.INSTANCE_ACTOR_KEY == null) {
+      return ctx.documentLoader;
+    }
+
+    return await ctx.getDocumentLoader({
+      identifier: new URL(ctx.canonicalOrigin).hostname,
+    });
+  }
+
+  async lookupObject(identifier: string | URL) {
+    return await lookupObject(identifier, {
+      documentLoader: await this.getDocumentLoader(),
+    });
+  }
+}
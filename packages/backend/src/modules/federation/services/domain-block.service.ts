@@ -0,0 +1,213 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DomainBlock, DomainBlockSeverity } from '../../../entities';
+
+export const DOMAIN_BLOCK_SEVERITIES: DomainBlockSeverity[] = [
+  'silence',
+  'suspend',
+  'reject_media',
+];
+
+// How long the block list is cached before it is reloaded
+const CACHE_TTL = 60 * 1000;
+
+@Injectable()
+export class DomainBlockService {
+  #cache: { blocks: Promise<DomainBlock[]>; loadedAt: number } | null = null;
+
+  constructor(
+    @InjectRepository(DomainBlock)
+    private domainBlockRepository: Repository<DomainBlock>,
+  ) {}
+
+  /**
+   * Extract the hostname from a URL, `@user@host` handle or bare domain
+   */
+  static getHost(target: string | URL): string | null {
+    if (target instanceof URL) return target.hostname.toLowerCase();
+
+    const value = target.trim();
+    try {
+      if (/^https?:\/\//i.test(value)) {
+        return new URL(value).hostname.toLowerCase();
+      }
+
+      // @user@host or user@host handle
+      const host = value.includes('@')
+        ? value.slice(value.lastIndexOf('@') + 1)
+        : value;
+      return new URL(`https://${host}`).hostname.toLowerCase() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a block on `domain` applies to `host` (the domain or a subdomain)
+   */
+  static coversHost(domain: string, host: string): boolean {
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+
+  async findAll(): Promise<DomainBlock[]> {
+    return this.domainBlockRepository.find({ order: { domain: 'ASC' } });
+  }
+
+  async create(attributes: {
+    domain: string;
+    severity?: DomainBlockSeverity;
+    privateComment?: string;
+    publicComment?: string;
+  }): Promise<DomainBlock> {
+    const domain = this.#normalizeDomain(attributes.domain);
+    const severity = this.#validateSeverity(attributes.severity ?? 'suspend');
+
+    const existing = await this.domainBlockRepository.findOne({
+      where: { domain },
+    });
+    if (existing) {
+      throw new ConflictException(`${domain} is already blocked`);
+    }
+
+    const block = this.domainBlockRepository.create({
+      domain,
+      severity,
+      privateComment: attributes.privateComment || null,
+      publicComment: attributes.publicComment || null,
+    });
+    await this.domainBlockRepository.save(block);
+    this.#cache = null;
+
+    return block;
+  }
+
+  async update(
+    id: string,
+    attributes: {
+      severity?: DomainBlockSeverity;
+      privateComment?: string | null;
+      publicComment?: string | null;
+    },
+  ): Promise<DomainBlock> {
+    const block = await this.domainBlockRepository.findOne({ where: { id } });
+    if (!block) {
+      throw new NotFoundException('Domain block not found');
+    }
+
+    if (attributes.severity !== undefined) {
+      block.severity = this.#validateSeverity(attributes.severity);
+    }
+    if (attributes.privateComment !== undefined) {
+      block.privateComment = attributes.privateComment || null;
+    }
+    if (attributes.publicComment !== undefined) {
+      block.publicComment = attributes.publicComment || null;
+    }
+    await this.domainBlockRepository.save(block);
+    this.#cache = null;
+
+    return block;
+  }
+
+  async remove(id: string): Promise<void> {
+    const result = await this.domainBlockRepository.delete(id);
+    if (!result.affected) {
+      throw new NotFoundException('Domain block not found');
+    }
+    this.#cache = null;
+  }
+
+  /**
+   * The block applying to a URL, handle or domain, if any
+   */
+  async getBlock(
+    target: string | URL | null | undefined,
+  ): Promise<DomainBlock | null> {
+    if (!target) return null;
+    const host = DomainBlockService.getHost(target);
+    if (!host) return null;
+
+    const blocks = await this.#getBlocks();
+    return (
+      blocks.find((block) =>
+        DomainBlockService.coversHost(block.domain, host),
+      ) ?? null
+    );
+  }
+
+  async isSuspended(target: string | URL | null | undefined): Promise<boolean> {
+    return (await this.getBlock(target))?.severity === 'suspend';
+  }
+
+  async rejectsMedia(
+    target: string | URL | null | undefined,
+  ): Promise<boolean> {
+    const severity = (await this.getBlock(target))?.severity;
+    return severity === 'reject_media' || severity === 'suspend';
+  }
+
+  /**
+   * Domains whose posts are kept off the public timeline
+   */
+  async getSilencedDomains(): Promise<string[]> {
+    return (await this.#getBlocks())
+      .filter(
+        (block) => block.severity === 'silence' || block.severity === 'suspend',
+      )
+      .map((block) => block.domain);
+  }
+
+  /**
+   * Drop recipients on suspended domains before delivering an activity
+   */
+  async excludeSuspendedRecipients<
+    T extends { id: URL | null; inboxId: URL | null },
+  >(recipients: T[]): Promise<T[]> {
+    const allowed: T[] = [];
+    for (const recipient of recipients) {
+      if (await this.isSuspended(recipient.inboxId ?? recipient.id)) continue;
+      allowed.push(recipient);
+    }
+
+    return allowed;
+  }
+
+  async #getBlocks(): Promise<DomainBlock[]> {
+    if (!this.#cache || Date.now() - this.#cache.loadedAt > CACHE_TTL) {
+      this.#cache = {
+        blocks: this.domainBlockRepository.find().catch((error) => {
+          this.#cache = null;
+          throw error;
+        }),
+        loadedAt: Date.now(),
+      };
+    }
+
+    return this.#cache.blocks;
+  }
+
+  #normalizeDomain(domain: string): string {
+    const host = domain ? DomainBlockService.getHost(domain) : null;
+    if (!host || !host.includes('.')) {
+      throw new BadRequestException('A valid domain is required');
+    }
+
+    return host;
+  }
+
+  #validateSeverity(severity: string): DomainBlockSeverity {
+    if (!DOMAIN_BLOCK_SEVERITIES.includes(severity as DomainBlockSeverity)) {
+      throw new BadRequestException(
+        `Severity must be one of: ${DOMAIN_BLOCK_SEVERITIES.join(', ')}`,
+      );
+    }
+
+    return severity as DomainBlockSeverity;
+  }
+}
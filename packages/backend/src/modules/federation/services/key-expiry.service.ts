@@ -0,0 +1,43 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { KeyRotationService } from './key-rotation.service';
+
+// How often key pairs past their grace period are looked for
+const EXPIRY_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Periodically marks key pairs whose grace period after a rotation has
+ * passed as inactive. The key pairs dispatcher already leaves expired keys
+ * out; this keeps the stored flags in line.
+ */
+@Injectable()
+export class KeyExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(KeyExpiryService.name);
+  #timer?: NodeJS.Timeout;
+
+  constructor(private keyRotationService: KeyRotationService) {}
+
+  onModuleInit() {
+    this.#timer = setInterval(() => {
+      void this.deactivateExpiredKeys();
+    }, EXPIRY_INTERVAL);
+    this.#timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.#timer);
+  }
+
+  async deactivateExpiredKeys() {
+    try {
+      return await this.keyRotationService.deactivateExpiredKeys();
+    } catch (error) {
+      this.logger.error(`Failed to deactivate expired keys: ${error}`);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import { exportJwk, Federation, generateCryptoKeyPair } from '@fedify/fedify';
+import { KeyAlgorithm, KeyPair, User } from '../../../entities';
+import { toUpdatePersonActivity } from '../../../lib/activitypub';
+
+// How long replaced keys stay published so peers can still verify signatures
+export const DEFAULT_KEY_GRACE_PERIOD_HOURS = 24;
+
+export interface KeyPairSummary {
+  id: string;
+  algorithm: KeyAlgorithm;
+  fingerprint: string;
+  isActive: boolean;
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
+@Injectable()
+export class KeyRotationService {
+  constructor(
+    @InjectRepository(KeyPair)
+    private keyPairRepository: Repository<KeyPair>,
+
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+  ) {}
+
+  /**
+   * Generate fresh RSA and Ed25519 key pairs for a user. The previous keys
+   * expire after the grace period, and followers are sent Update(Person) so
+   * they refetch the actor and its keys.
+   */
+  async rotateKeys(
+    userId: string,
+    gracePeriodHours: number = DEFAULT_KEY_GRACE_PERIOD_HOURS,
+  ): Promise<{ keys: KeyPairSummary[]; previousKeysExpireAt: Date }> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      relations: ['actor'],
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const previousKeysExpireAt = new Date(
+      Date.now() + Math.max(0, gracePeriodHours) * 60 * 60 * 1000,
+    );
+    const previousKeys = await this.keyPairRepository.find({
+      where: { userId, isActive: true },
+    });
+    for (const keyPair of previousKeys) {
+      if (!keyPair.expiresAt || keyPair.expiresAt > previousKeysExpireAt) {
+        keyPair.expiresAt = previousKeysExpireAt;
+      }
+    }
+    await this.keyPairRepository.save(previousKeys);
+
+    const keys: KeyPair[] = [];
+    for (const algorithm of [KeyAlgorithm.RSA, KeyAlgorithm.Ed25519] as const) {
+      const { privateKey, publicKey } = await generateCryptoKeyPair(algorithm);
+      keys.push(
+        this.keyPairRepository.create({
+          algorithm,
+          privateKey: JSON.stringify(await exportJwk(privateKey)),
+          publicKey: JSON.stringify(await exportJwk(publicKey)),
+          userId,
+        }),
+      );
+    }
+    await this.keyPairRepository.save(keys);
+    await this.deactivateExpiredKeys(userId);
+
+    if (user.actor) {
+      try {
+        const ctx = this.federation.createContext(
+          new URL(process.env.FEDERATION_ORIGIN || ''),
+          undefined,
+        );
+        await ctx.sendActivity(
+          { identifier: user.actor.id },
+          'followers',
+          await toUpdatePersonActivity(ctx, user.actor),
+          {
+            preferSharedInbox: true,
+            excludeBaseUris: [new URL(ctx.canonicalOrigin)],
+          },
+        );
+      } catch (error) {
+        console.error('Failed to send key rotation update activity:', error);
+      }
+    }
+
+    return {
+      keys: keys.map((keyPair) => this.#toSummary(keyPair)),
+      previousKeysExpireAt,
+    };
+  }
+
+  /**
+   * Mark key pairs whose grace period has passed as inactive
+   */
+  async deactivateExpiredKeys(userId?: string): Promise<number> {
+    const result = await this.keyPairRepository.update(
+      {
+        ...(userId ? { userId } : {}),
+        isActive: true,
+        expiresAt: LessThanOrEqual(new Date()),
+      },
+      { isActive: false },
+    );
+
+    return result.affected ?? 0;
+  }
+
+  /**
+   * All key pairs a user has had, newest first
+   */
+  async getKeyHistory(userId: string): Promise<KeyPairSummary[]> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.deactivateExpiredKeys(userId);
+    const keyPairs = await this.keyPairRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+
+    return keyPairs.map((keyPair) => this.#toSummary(keyPair));
+  }
+
+  #toSummary(keyPair: KeyPair): KeyPairSummary {
+    return {
+      id: keyPair.id,
+      algorithm: keyPair.algorithm,
+      fingerprint: this.#getFingerprint(keyPair.publicKey),
+      isActive: keyPair.isActive,
+      createdAt: keyPair.createdAt,
+      expiresAt: keyPair.expiresAt,
+    };
+  }
+
+  // RFC 7638 JWK thumbprint (SHA-256, base64url) of a public key
+  #getFingerprint(publicKey: string): string {
+    const jwk = JSON.parse(publicKey) as Record<string, string>;
+    const members =
+      jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+
+    return createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,258 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { Observable, Subject, filter } from 'rxjs';
+import {
+  Actor,
+  Note,
+  Notification,
+  NotificationType,
+  Presentation,
+} from '../../../entities';
+import { BlockService } from '../../microblogging/services/block.service';
+
+interface PaginationParameter {
+  cursor: string | null;
+  limit: number;
+}
+
+interface PaginationResult<T> {
+  items: T[];
+  nextCursor: string | null;
+  last: boolean;
+}
+
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  // Saved notifications, for real-time delivery to connected clients. This
+  // service is only provided by FederationModule so that inbox listeners and
+  // the API share the same stream. The stream is in-process: with several
+  // backend processes, a client only hears about notifications created by
+  // the process it is connected to, and picks up the rest when it reloads
+  // the list.
+  #notifications = new Subject<Notification>();
+
+  constructor(
+    @InjectRepository(Notification)
+    private notificationRepository: Repository<Notification>,
+
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @InjectRepository(Note)
+    private noteRepository: Repository<Note>,
+
+    @InjectRepository(Presentation)
+    private presentationRepository: Repository<Presentation>,
+
+    private blockService: BlockService,
+  ) {}
+
+  /**
+   * Notify a local actor. Nothing is recorded for remote recipients, for
+   * actors notifying themselves, for actors the recipient blocked or muted,
+   * or when the same notification about the same note was already recorded.
+   * Notifications without a note, such as follows, are recorded every time.
+   */
+  async notify({
+    type,
+    recipientId,
+    actorId,
+    noteId = null,
+    presentationId = null,
+  }: {
+    type: NotificationType;
+    recipientId: string | null | undefined;
+    actorId: string | null | undefined;
+    noteId?: string | null;
+    presentationId?: string | null;
+  }): Promise<Notification | null> {
+    if (!recipientId || !actorId || recipientId === actorId) return null;
+
+    try {
+      const recipient = await this.actorRepository.findOne({
+        where: { id: recipientId },
+      });
+      if (!recipient?.isLocal) return null;
+
+      const hiddenActorIds =
+        await this.blockService.getHiddenActorIds(recipient);
+      if (hiddenActorIds.includes(actorId)) return null;
+
+      // Activities about a note may be delivered more than once
+      if (
+        noteId &&
+        (await this.notificationRepository.exists({
+          where: { type, recipientId, actorId, noteId },
+        }))
+      ) {
+        return null;
+      }
+
+      const notification = await this.notificationRepository.save(
+        this.notificationRepository.create({
+          type,
+          recipientId,
+          actorId,
+          noteId,
+          presentationId,
+        }),
+      );
+
+      const saved = await this.notificationRepository.findOne({
+        where: { id: notification.id },
+        relations: ['actor', 'note', 'note.author', 'presentation'],
+      });
+      if (saved) {
+        this.#notifications.next(saved);
+      }
+
+      return saved;
+    } catch (error) {
+      this.logger.error(`Failed to create ${type} notification: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Notify the author of the note a reply answers. Replies to the note of a
+   * presentation are reported as comments on the presentation.
+   */
+  async notifyReply(note: Note): Promise<Notification | null> {
+    if (!note.inReplyToId) return null;
+
+    const parent = await this.noteRepository.findOne({
+      where: { id: note.inReplyToId },
+    });
+    if (!parent) return null;
+
+    const presentation = await this.presentationRepository.findOne({
+      where: { noteId: parent.id },
+    });
+
+    return this.notify({
+      type: presentation ? 'presentation_comment' : 'reply',
+      recipientId: parent.authorId,
+      actorId: note.authorId ?? note.author?.id,
+      noteId: note.id,
+      presentationId: presentation?.id ?? null,
+    });
+  }
+
+  /**
+   * Notify an actor mentioned in a note. The author of the replied note is
+   * left to notifyReply.
+   */
+  async notifyMention(
+    note: Note,
+    mentioned: Actor,
+  ): Promise<Notification | null> {
+    if (note.inReplyToId) {
+      const parent = await this.noteRepository.findOne({
+        select: ['id', 'authorId'],
+        where: { id: note.inReplyToId },
+      });
+      if (parent?.authorId === mentioned.id) return null;
+    }
+
+    return this.notify({
+      type: 'mention',
+      recipientId: mentioned.id,
+      actorId: note.authorId ?? note.author?.id,
+      noteId: note.id,
+    });
+  }
+
+  /**
+   * An actor's notifications, newest first
+   */
+  async getNotifications(
+    actor: Actor,
+    {
+      types,
+      unread = false,
+      ...pagination
+    }: { types?: NotificationType[]; unread?: boolean } & PaginationParameter,
+  ): Promise<PaginationResult<Notification>> {
+    const { cursor, limit } = pagination;
+
+    const query = this.notificationRepository
+      .createQueryBuilder('notification')
+      .leftJoinAndSelect('notification.actor', 'actor')
+      .leftJoinAndSelect('notification.note', 'note')
+      .leftJoinAndSelect('note.author', 'noteAuthor')
+      .leftJoinAndSelect('notification.presentation', 'presentation')
+      .where('notification.recipientId = :recipientId', {
+        recipientId: actor.id,
+      })
+      // Drop notifications about notes that have since been deleted
+      .andWhere('(notification.noteId IS NULL OR note.id IS NOT NULL)')
+      .orderBy('notification.createdAt', 'DESC')
+      .addOrderBy('notification.id', 'DESC')
+      .take(limit + 1);
+
+    if (types && types.length > 0) {
+      query.andWhere('notification.type IN (:...types)', { types });
+    }
+    if (unread) {
+      query.andWhere('notification.readAt IS NULL');
+    }
+
+    if (cursor) {
+      const separator = cursor.lastIndexOf('_');
+      const createdAt = new Date(cursor.slice(0, separator));
+      const id = cursor.slice(separator + 1);
+      if (separator > 0 && !isNaN(createdAt.getTime())) {
+        query.andWhere(
+          '(notification.createdAt, notification.id) < (:createdAt, :id)',
+          { createdAt, id },
+        );
+      }
+    }
+
+    const notifications = await query.getMany();
+    const items = notifications.slice(0, limit);
+    const lastItem = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: lastItem
+        ? `${lastItem.createdAt.toISOString()}_${lastItem.id}`
+        : null,
+      last: notifications.length <= limit,
+    };
+  }
+
+  async countUnread(actor: Actor): Promise<number> {
+    return this.notificationRepository.count({
+      where: { recipientId: actor.id, readAt: IsNull() },
+    });
+  }
+
+  /**
+   * Mark the given notifications, or all of them, as read
+   */
+  async markAsRead(actor: Actor, ids?: string[]): Promise<number> {
+    const result = await this.notificationRepository.update(
+      {
+        recipientId: actor.id,
+        readAt: IsNull(),
+        ...(ids ? { id: In(ids) } : {}),
+      },
+      { readAt: new Date() },
+    );
+
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Notifications for an actor as they are created by this process
+   */
+  stream(actor: Actor): Observable<Notification> {
+    return this.#notifications.pipe(
+      filter((notification) => notification.recipientId === actor.id),
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PollService } from '../../microblogging/services/poll.service';
+
+// How often expired local polls are looked for
+const EXPIRY_INTERVAL = 60 * 1000;
+
+// Polls closed per run
+const EXPIRY_BATCH_SIZE = 20;
+
+/**
+ * Periodically closes expired local polls so that their final tallies are
+ * delivered to followers and remote voters.
+ */
+@Injectable()
+export class PollExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PollExpiryService.name);
+  #timer?: NodeJS.Timeout;
+  #running = false;
+
+  constructor(private pollService: PollService) {}
+
+  onModuleInit() {
+    this.#timer = setInterval(() => {
+      void this.closeExpiredPolls();
+    }, EXPIRY_INTERVAL);
+    this.#timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.#timer);
+  }
+
+  async closeExpiredPolls(limit: number = EXPIRY_BATCH_SIZE) {
+    if (this.#running) return 0;
+    this.#running = true;
+
+    let closed = 0;
+    try {
+      const polls = await this.pollService.getExpiredLocalPolls(limit);
+      for (const poll of polls) {
+        if (await this.pollService.closePoll(poll)) closed++;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to close expired polls: ${error}`);
+    } finally {
+      this.#running = false;
+    }
+
+    return closed;
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Accept,
+  Activity,
+  Context,
+  Federation,
+  Follow,
+  PUBLIC_COLLECTION,
+  Reject,
+  Undo,
+} from '@fedify/fedify';
+import { Actor, Relay } from '../../../entities';
+import { DomainBlockService } from './domain-block.service';
+
+@Injectable()
+export class RelayService {
+  private readonly logger = new Logger(RelayService.name);
+
+  constructor(
+    @InjectRepository(Relay)
+    private relayRepository: Repository<Relay>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private domainBlockService: DomainBlockService,
+  ) {}
+
+  /**
+   * Relays are followed by the instance actor, which only exists when
+   * INSTANCE_ACTOR_KEY is configured
+   */
+  static isEnabled(): boolean {
+    return process.env.INSTANCE_ACTOR_KEY != null;
+  }
+
+  async findAll(): Promise<Relay[]> {
+    return this.relayRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Subscribe to a relay by sending it Follow(Public) from the instance
+   * actor. The relay stays pending until it answers with Accept; a pending
+   * or rejected relay can be subscribed to again, which resends the Follow.
+   */
+  async subscribe(inboxUrl: string): Promise<Relay> {
+    if (!RelayService.isEnabled()) {
+      throw new BadRequestException(
+        'INSTANCE_ACTOR_KEY is required to subscribe to relays',
+      );
+    }
+
+    let url: URL;
+    try {
+      url = new URL(inboxUrl?.trim());
+    } catch {
+      throw new BadRequestException('Invalid relay inbox URL');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new BadRequestException('Invalid relay inbox URL');
+    }
+    if (await this.domainBlockService.isSuspended(url)) {
+      throw new BadRequestException(`${url.hostname} is suspended`);
+    }
+
+    const existing = await this.relayRepository.findOne({
+      where: { inboxUrl: url.href },
+    });
+    if (existing?.state === 'accepted') {
+      throw new ConflictException(`${url.href} is already subscribed`);
+    }
+
+    const ctx = await this.#createFederationContext();
+    const relay =
+      existing ??
+      this.relayRepository.create({
+        inboxUrl: url.href,
+        followIri: new URL(
+          `#relays/${randomUUID()}`,
+          ctx.getActorUri(this.#getInstanceActorIdentifier()),
+        ).href,
+      });
+    relay.state = 'pending';
+    await this.relayRepository.save(relay);
+
+    await ctx.sendActivity(
+      { identifier: this.#getInstanceActorIdentifier() },
+      { id: null, inboxId: new URL(relay.inboxUrl) },
+      this.#toFollow(ctx, relay),
+    );
+
+    return relay;
+  }
+
+  /**
+   * Stop following a relay with Undo(Follow) and forget about it. Notes
+   * already received through it are kept.
+   */
+  async unsubscribe(id: string): Promise<void> {
+    const relay = await this.relayRepository.findOne({ where: { id } });
+    if (!relay) {
+      throw new NotFoundException('Relay not found');
+    }
+
+    if (
+      RelayService.isEnabled() &&
+      !(await this.domainBlockService.isSuspended(relay.inboxUrl))
+    ) {
+      const ctx = await this.#createFederationContext();
+      await ctx.sendActivity(
+        { identifier: this.#getInstanceActorIdentifier() },
+        {
+          id: relay.actorIri ? new URL(relay.actorIri) : null,
+          inboxId: new URL(relay.inboxUrl),
+        },
+        new Undo({
+          id: new URL(`${relay.followIri}/undo`),
+          actor: ctx.getActorUri(this.#getInstanceActorIdentifier()),
+          object: this.#toFollow(ctx, relay),
+        }),
+      );
+    }
+
+    await this.relayRepository.remove(relay);
+  }
+
+  /**
+   * Record a relay's answer to our Follow. Returns false when the activity
+   * does not answer a relay subscription.
+   */
+  async handleResponse(activity: Accept | Reject): Promise<boolean> {
+    if (activity.objectId == null || activity.actorId == null) return false;
+
+    const relay = await this.relayRepository.findOne({
+      where: { followIri: activity.objectId.href },
+    });
+    if (!relay) return false;
+
+    // Only the relay itself may answer
+    if (activity.actorId.hostname !== new URL(relay.inboxUrl).hostname) {
+      return true;
+    }
+
+    relay.state = activity instanceof Accept ? 'accepted' : 'rejected';
+    relay.actorIri = activity.actorId.href;
+    await this.relayRepository.save(relay);
+
+    return true;
+  }
+
+  /**
+   * The accepted relay an activity was sent by, if any
+   */
+  async getAcceptedRelay(actorId: URL | null): Promise<Relay | null> {
+    if (actorId == null) return null;
+
+    const relays = await this.relayRepository.find({
+      where: { state: 'accepted' },
+    });
+    return (
+      relays.find(
+        (relay) =>
+          relay.actorIri === actorId.href ||
+          new URL(relay.inboxUrl).hostname === actorId.hostname,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Deliver a local actor's activity about a public note or presentation to
+   * every accepted relay, which passes it on to its other subscribers.
+   * Failures are logged rather than thrown, so callers need not wait for it.
+   */
+  async forwardActivity(actor: Actor, activity: Activity): Promise<void> {
+    try {
+      const relays = await this.relayRepository.find({
+        where: { state: 'accepted' },
+      });
+      const recipients =
+        await this.domainBlockService.excludeSuspendedRecipients(
+          relays.map((relay) => ({
+            id: relay.actorIri ? new URL(relay.actorIri) : null,
+            inboxId: new URL(relay.inboxUrl),
+          })),
+        );
+      if (recipients.length === 0) return;
+
+      const ctx = await this.#createFederationContext();
+      await ctx.sendActivity({ identifier: actor.id }, recipients, activity);
+    } catch (error) {
+      this.logger.error(`Failed to forward activity to relays: ${error}`);
+    }
+  }
+
+  #toFollow(ctx: Context<unknown>, relay: Relay): Follow {
+    return new Follow({
+      id: new URL(relay.followIri),
+      actor: ctx.getActorUri(this.#getInstanceActorIdentifier()),
+      object: PUBLIC_COLLECTION,
+    });
+  }
+
+  // The instance actor is identified by the hostname of the instance
+  #getInstanceActorIdentifier(): string {
+    return new URL(process.env.FEDERATION_ORIGIN || '').hostname;
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
@@ -4,7 +4,9 @@ import {
   IsEnum,
   IsArray,
   IsBoolean,
+  IsObject,
 } from 'class-validator';
+import type { PollInput } from '../services/poll.service';
 
 export class CreateNoteDto {
   @IsString()
@@ -30,6 +32,10 @@ export class CreateNoteDto {
   @IsString()
   inReplyToId?: string;
 
+  @IsOptional()
+  @IsString()
+  quotedNoteId?: string;
+
   @IsOptional()
   @IsArray()
   attachments?: Array<{
@@ -38,4 +44,8 @@ export class CreateNoteDto {
     mediaType: string;
     name?: string;
   }>;
+
+  @IsOptional()
+  @IsObject()
+  poll?: PollInput;
 }
@@ -11,6 +11,10 @@ export class UpdateNoteDto {
   @IsString()
   content?: string;
 
+  @IsOptional()
+  @IsEnum(['text/plain', 'text/markdown'])
+  contentType?: 'text/plain' | 'text/markdown';
+
   @IsOptional()
   @IsString()
   contentWarning?: string;
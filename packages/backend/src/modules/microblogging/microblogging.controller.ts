@@ -14,18 +14,40 @@ import {
   Response,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
+  Redirect,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable, from, interval, map, merge, switchMap } from 'rxjs';
 import { type Request as ERequest } from 'express';
 import { FollowService } from './services/follow.service';
 import { CreateNoteDto } from './dto/create-note.dto';
 import { UpdateNoteDto } from './dto/update-note.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { ActorService } from './services/actor.service';
 import { NoteService } from './services/note.service';
 import { MarkdownService } from './services/markdown.service';
 import { SearchService, SearchResult } from './services/search.service';
-import { Actor, Note, User } from 'src/entities';
+import {
+  Actor,
+  Note,
+  NOTIFICATION_TYPES,
+  Notification,
+  NotificationType,
+  User,
+} from 'src/entities';
 import { TimelineService } from './services/timeline.service';
+import { LikeService } from './services/like.service';
+import { ConversationService } from './services/conversation.service';
+import { BlockService } from './services/block.service';
+import { AccountMigrationService } from './services/account-migration.service';
+import { PinService } from './services/pin.service';
+import { ReactionService } from './services/reaction.service';
+import { PollService } from './services/poll.service';
+import { TagService } from './services/tag.service';
+import { NotificationService } from '../federation/services/notification.service';
 
 @Controller()
 export class MicrobloggingController {
@@ -36,8 +58,141 @@ export class MicrobloggingController {
     private readonly markdownService: MarkdownService,
     private readonly searchService: SearchService,
     private readonly timelineService: TimelineService,
+    private readonly likeService: LikeService,
+    private readonly conversationService: ConversationService,
+    private readonly blockService: BlockService,
+    private readonly accountMigrationService: AccountMigrationService,
+    private readonly pinService: PinService,
+    private readonly reactionService: ReactionService,
+    private readonly pollService: PollService,
+    private readonly tagService: TagService,
+    private readonly notificationService: NotificationService,
   ) {}
 
+  // Resolve the requesting actor and the target of a block/mute request
+  async #getBlockParticipants(req: ERequest, username: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const target = await this.actorService.getActorByUsername(username);
+    if (!target) {
+      throw new NotFoundException('User not found');
+    }
+
+    return { actor, target };
+  }
+
+  // Resolve the actor of an optionally authenticated request
+  async #getRequestingActor(req: ERequest): Promise<Actor | null> {
+    if (!req.user) return null;
+    return this.actorService.getActorByUserId(req.user.id);
+  }
+
+  // Embed a visible quoted note with the author format the frontend expects
+  #getQuotedNote(note: Note, quotedNotes: Map<string, Note>) {
+    const quotedNote = note.quotedNoteId
+      ? quotedNotes.get(note.quotedNoteId)
+      : undefined;
+    if (!quotedNote) return null;
+
+    return {
+      ...quotedNote,
+      author: {
+        ...quotedNote.author,
+        username: quotedNote.author?.preferredUsername,
+        displayName: quotedNote.author?.name,
+      },
+    };
+  }
+
+  // Add reactions, polls, quotes and the username format the frontend
+  // expects to public and federated timeline notes
+  async #transformTimelineNotes(notes: Note[], viewer: Actor | null) {
+    const reactions = await this.reactionService.getNoteReactions(
+      notes.map((note) => note.sharedNoteId ?? note.id),
+      viewer,
+    );
+    const polls = await this.pollService.getPolls(
+      notes.map((note) => note.sharedNoteId ?? note.id),
+      viewer,
+    );
+    const quotedNotes = await this.noteService.getQuotedNotes(
+      notes.map((note) => note.sharedNote ?? note),
+      viewer,
+    );
+
+    return notes.map((note) => {
+      if (note.sharedNoteId && note.sharedNote) {
+        return {
+          ...note,
+          isShared: true,
+          sharedBy: {
+            ...note.author,
+            username: note.author?.preferredUsername,
+            displayName: note.author?.name,
+          },
+          sharedNote: {
+            ...note.sharedNote,
+            reactions: reactions.get(note.sharedNote.id) ?? [],
+            poll: polls.get(note.sharedNote.id) ?? null,
+            quotedNote: this.#getQuotedNote(note.sharedNote, quotedNotes),
+            author: {
+              ...note.sharedNote.author,
+              username: note.sharedNote.author?.preferredUsername,
+              displayName: note.sharedNote.author?.name,
+            },
+          },
+          author: {
+            ...note.author,
+            username: note.author?.preferredUsername,
+            displayName: note.author?.name,
+          },
+        };
+      } else {
+        return {
+          ...note,
+          isShared: false,
+          reactions: reactions.get(note.id) ?? [],
+          poll: polls.get(note.id) ?? null,
+          quotedNote: this.#getQuotedNote(note, quotedNotes),
+          author: {
+            ...note.author,
+            username: note.author?.preferredUsername,
+            displayName: note.author?.name,
+          },
+        };
+      }
+    });
+  }
+
+  // Add the username format the frontend expects to a notification
+  #transformNotification(notification: Notification) {
+    return {
+      id: notification.id,
+      type: notification.type,
+      read: notification.readAt != null,
+      createdAt: notification.createdAt,
+      actor: {
+        ...notification.actor,
+        username: notification.actor?.preferredUsername,
+        displayName: notification.actor?.name,
+      },
+      note: notification.note
+        ? {
+            ...notification.note,
+            author: {
+              ...notification.note.author,
+              username: notification.note.author?.preferredUsername,
+              displayName: notification.note.author?.name,
+            },
+          }
+        : null,
+      presentation: notification.presentation,
+    };
+  }
+
   // Public endpoint for looking up actors by handle (for viewing remote profiles without auth)
   @Get('actors/lookup')
   async lookupActor(@Query('handle') handle: string) {
@@ -54,6 +209,7 @@ export class MicrobloggingController {
         url: user.url || '',
         icon: user.icon || null,
         manuallyApprovesFollowers: user.manuallyApprovesFollowers || false,
+        movedTo: user.movedTo || null,
       };
     }
 
@@ -129,6 +285,38 @@ export class MicrobloggingController {
     if (!actor) {
       throw NotFoundException;
     }
+    if (createNoteDto.inReplyToId) {
+      const parent = await this.noteService.getNoteById(
+        createNoteDto.inReplyToId,
+      );
+      if (!parent || !(await this.noteService.isVisibleTo(parent, actor))) {
+        throw new NotFoundException('Reply target not found');
+      }
+    }
+    if (createNoteDto.quotedNoteId) {
+      const quotedNote = await this.noteService.getNoteById(
+        createNoteDto.quotedNoteId,
+      );
+      if (
+        !quotedNote ||
+        quotedNote.sharedNoteId ||
+        !(await this.noteService.isVisibleTo(quotedNote, actor))
+      ) {
+        throw new NotFoundException('Quote target not found');
+      }
+      // Like boosts, only public and unlisted notes can be quoted
+      if (
+        quotedNote.visibility !== 'public' &&
+        quotedNote.visibility !== 'unlisted'
+      ) {
+        throw new BadRequestException(
+          'Only public or unlisted notes can be quoted',
+        );
+      }
+    }
+    if (createNoteDto.poll) {
+      PollService.validatePollInput(createNoteDto.poll);
+    }
     return this.timelineService.createNote(actor, {
       ...createNoteDto,
       contentType: createNoteDto.contentType,
@@ -146,15 +334,26 @@ export class MicrobloggingController {
   }
 
   @Get('notes/:id')
-  async getNoteById(@Param('id') id: string) {
+  @UseGuards(OptionalJwtAuthGuard)
+  async getNoteById(@Request() req: ERequest, @Param('id') id: string) {
+    const viewer = await this.#getRequestingActor(req);
     const note = await this.noteService.getNoteById(id);
-    if (!note) {
+    if (!note || !(await this.noteService.isVisibleTo(note, viewer))) {
       throw new NotFoundException('Note not found');
     }
+    const reactions = await this.reactionService.getNoteReactions(
+      [note.id],
+      viewer,
+    );
+    const quotedNotes = await this.noteService.getQuotedNotes([note], viewer);
+    const polls = await this.pollService.getPolls([note.id], viewer);
 
     // Transform to include username format the frontend expects
     return {
       ...note,
+      reactions: reactions.get(note.id) ?? [],
+      poll: polls.get(note.id) ?? null,
+      quotedNote: this.#getQuotedNote(note, quotedNotes),
       author: {
         ...note.author,
         id: note.author?.id,
@@ -164,167 +363,855 @@ export class MicrobloggingController {
     };
   }
 
+  @Get('notes/:id/context')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getNoteContext(@Request() req: ERequest, @Param('id') id: string) {
+    const viewer = await this.#getRequestingActor(req);
+    const note = await this.noteService.getNoteById(id);
+    if (!note || !(await this.noteService.isVisibleTo(note, viewer))) {
+      throw new NotFoundException('Note not found');
+    }
+
+    const { ancestors, descendants } = await this.noteService.getNoteContext(
+      note,
+      viewer,
+    );
+    const transform = (item: Note) => ({
+      ...item,
+      author: {
+        ...item.author,
+        username: item.author?.preferredUsername,
+        displayName: item.author?.name,
+      },
+    });
+
+    return {
+      ancestors: ancestors.map(transform),
+      descendants: descendants.map(transform),
+    };
+  }
+
   @Put('notes/:id')
   @UseGuards(JwtAuthGuard)
   async updateNote(
     @Request() req: ERequest,
     @Param('id') id: string,
     @Body() updateNoteDto: UpdateNoteDto,
-  ) {}
-
-  @Delete('notes/:id')
-  @UseGuards(JwtAuthGuard)
-  @HttpCode(HttpStatus.NO_CONTENT)
-  async deleteNote(@Request() req: ERequest, @Param('id') id: string) {}
-
-  @Get('users/:username/notes')
-  async getUserNotes(
-    @Param('username') username: string,
-    @Query('limit') limit?: number,
-    @Query('offset') offset?: number,
   ) {
-    const actor = await this.actorService.getActorByUsername(username);
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
     if (!actor) {
-      throw new NotFoundException('User not found');
+      throw new NotFoundException('Actor not found');
     }
-    const notes = await this.noteService.getNotesAuthoredBy({
-      actor,
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
+
+    if (note.authorId !== actor.id) {
+      throw new ForbiddenException('You can only edit your own notes');
+    }
+
+    const updated = await this.noteService.updateNote(actor, note, {
+      content: updateNoteDto.content,
+      contentType: updateNoteDto.contentType,
+      contentWarning: updateNoteDto.contentWarning,
+      sensitive: updateNoteDto.sensitive,
     });
 
-    // Transform notes to include username format the frontend expects
-    const transformedNotes = notes.map((note) => ({
-      ...note,
+    return {
+      ...updated,
       author: {
-        ...note.author,
-        username: note.author?.preferredUsername,
-        displayName: note.author?.name,
+        ...updated.author,
+        id: updated.author?.id,
+        username: updated.author?.preferredUsername,
+        displayName: updated.author?.name,
       },
-    }));
-
-    // Return in the format the frontend expects
-    return {
-      notes: transformedNotes || [],
-      total: transformedNotes?.length || 0,
     };
   }
 
-  @Get('timeline/home')
+  @Get('notes/:id/revisions')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getNoteRevisions(@Request() req: ERequest, @Param('id') id: string) {
+    const viewer = await this.#getRequestingActor(req);
+    const note = await this.noteService.getNoteById(id);
+    if (!note || !(await this.noteService.isVisibleTo(note, viewer))) {
+      throw new NotFoundException('Note not found');
+    }
+
+    const revisions = await this.noteService.getNoteRevisions(note.id);
+    return { revisions };
+  }
+
+  @Delete('notes/:id')
   @UseGuards(JwtAuthGuard)
-  async getHomeTimeline(
-    @Request() req: ERequest,
-    @Query('limit') limit?: number,
-    @Query('offset') offset?: number,
-  ) {
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteNote(@Request() req: ERequest, @Param('id') id: string) {
     const actor = await this.actorService.getActorByUserId(req.user!.id);
     if (!actor) {
       throw new NotFoundException('Actor not found');
     }
 
-    const timelinePosts = await this.timelineService.getHomeTimeline(actor);
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
 
-    // Transform notes to include username format the frontend expects
-    const transformedNotes = timelinePosts.map((timelinePost) => {
-      const note = timelinePost.note;
+    if (note.authorId !== actor.id) {
+      throw new ForbiddenException('You can only delete your own notes');
+    }
 
-      // Check if this is a shared post
-      if (note.sharedNoteId && note.sharedNote) {
-        // This is a reblog/share - include both the sharer and original author
-        return {
-          ...note,
-          isShared: true,
-          sharedBy: {
-            ...timelinePost.author,
-            username: timelinePost.author?.preferredUsername,
-            displayName: timelinePost.author?.name,
-          },
-          // The sharedNote contains the original content
-          sharedNote: {
-            ...note.sharedNote,
-            author: {
-              ...note.sharedNote.author,
-              username: note.sharedNote.author?.preferredUsername,
-              displayName: note.sharedNote.author?.name,
-            },
-          },
-          // For shared posts, the author is the one who shared it
-          author: {
-            ...timelinePost.author,
-            username: timelinePost.author?.preferredUsername,
-            displayName: timelinePost.author?.name,
-          },
-        };
-      } else {
-        // Regular post
-        return {
-          ...note,
-          isShared: false,
-          author: {
-            ...timelinePost.author,
-            username: timelinePost.author?.preferredUsername,
-            displayName: timelinePost.author?.name,
-          },
-        };
-      }
-    });
+    await this.noteService.deleteNote(actor, note);
+  }
+
+  @Post('notes/:id/like')
+  @UseGuards(JwtAuthGuard)
+  async likeNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note || !(await this.noteService.isVisibleTo(note, actor))) {
+      throw new NotFoundException('Note not found');
+    }
 
+    await this.likeService.likeNote(actor, note);
     return {
-      notes: transformedNotes || [],
-      total: transformedNotes?.length || 0,
+      liked: true,
+      likesCount: await this.likeService.countLikesOfNote(note.id),
     };
   }
 
-  @Get('timeline/public')
-  async getPublicTimeline(
-    @Query('limit') limit?: number,
-    @Query('offset') offset?: number,
-  ) {
-    const notes = await this.noteService.getPublicTimelineNotes({ limit });
+  @Delete('notes/:id/like')
+  @UseGuards(JwtAuthGuard)
+  async unlikeNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
 
-    // Transform notes to include username format the frontend expects
-    const transformedNotes = notes.map((note) => {
-      if (note.sharedNoteId && note.sharedNote) {
-        return {
-          ...note,
-          isShared: true,
-          sharedBy: {
-            ...note.author,
-            username: note.author?.preferredUsername,
-            displayName: note.author?.name,
-          },
-          sharedNote: {
-            ...note.sharedNote,
-            author: {
-              ...note.sharedNote.author,
-              username: note.sharedNote.author?.preferredUsername,
-              displayName: note.sharedNote.author?.name,
-            },
-          },
-          author: {
-            ...note.author,
-            username: note.author?.preferredUsername,
-            displayName: note.author?.name,
-          },
-        };
-      } else {
-        return {
-          ...note,
-          isShared: false,
-          author: {
-            ...note.author,
-            username: note.author?.preferredUsername,
-            displayName: note.author?.name,
-          },
-        };
-      }
-    });
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
 
+    await this.likeService.unlikeNote(actor, note);
     return {
-      notes: transformedNotes || [],
+      liked: false,
+      likesCount: await this.likeService.countLikesOfNote(note.id),
     };
   }
 
-  // Follow/Unfollow endpoints
-  @Post('users/:username/follow')
+  @Post('notes/:id/share')
+  @UseGuards(JwtAuthGuard)
+  async shareNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (
+      !note ||
+      note.sharedNoteId ||
+      !(await this.noteService.isVisibleTo(note, actor))
+    ) {
+      throw new NotFoundException('Note not found');
+    }
+    if (note.visibility !== 'public' && note.visibility !== 'unlisted') {
+      throw new BadRequestException(
+        'Only public or unlisted notes can be shared',
+      );
+    }
+    if (
+      note.author &&
+      (await this.blockService.isBlocking(note.author, actor))
+    ) {
+      throw new ForbiddenException('You cannot share this note');
+    }
+
+    await this.noteService.shareNote(actor, note);
+    const updated = await this.noteService.getNoteById(note.id);
+    return {
+      shared: true,
+      sharesCount: updated?.sharesCount ?? 0,
+    };
+  }
+
+  @Delete('notes/:id/share')
+  @UseGuards(JwtAuthGuard)
+  async unshareNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
+
+    await this.noteService.unshareNote(actor, note);
+    const updated = await this.noteService.getNoteById(note.id);
+    return {
+      shared: false,
+      sharesCount: updated?.sharesCount ?? 0,
+    };
+  }
+
+  @Post('notes/:id/reactions')
+  @UseGuards(JwtAuthGuard)
+  async reactToNote(
+    @Request() req: ERequest,
+    @Param('id') id: string,
+    @Body('content') content: string,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note || !(await this.noteService.isVisibleTo(note, actor))) {
+      throw new NotFoundException('Note not found');
+    }
+
+    await this.reactionService.react(actor, { note }, content);
+    const reactions = await this.reactionService.getNoteReactions(
+      [note.id],
+      actor,
+    );
+    return { reactions: reactions.get(note.id) ?? [] };
+  }
+
+  @Delete('notes/:id/reactions/:content')
+  @UseGuards(JwtAuthGuard)
+  async removeNoteReaction(
+    @Request() req: ERequest,
+    @Param('id') id: string,
+    @Param('content') content: string,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
+
+    await this.reactionService.unreact(actor, { note }, content);
+    const reactions = await this.reactionService.getNoteReactions(
+      [note.id],
+      actor,
+    );
+    return { reactions: reactions.get(note.id) ?? [] };
+  }
+
+  @Post('notes/:id/poll/votes')
+  @UseGuards(JwtAuthGuard)
+  async voteInPoll(
+    @Request() req: ERequest,
+    @Param('id') id: string,
+    @Body('choices') choices: number[],
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note || !(await this.noteService.isVisibleTo(note, actor))) {
+      throw new NotFoundException('Note not found');
+    }
+    if (
+      note.author &&
+      (await this.blockService.isBlocking(note.author, actor))
+    ) {
+      throw new ForbiddenException('You cannot vote in this poll');
+    }
+
+    const poll = await this.pollService.vote(
+      actor,
+      note,
+      Array.isArray(choices) ? choices.map(Number) : [],
+    );
+    return { poll };
+  }
+
+  @Post('notes/:id/pin')
+  @UseGuards(JwtAuthGuard)
+  async pinNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
+
+    await this.pinService.pinNote(actor, note);
+    return { pinned: true };
+  }
+
+  @Delete('notes/:id/pin')
+  @UseGuards(JwtAuthGuard)
+  async unpinNote(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const note = await this.noteService.getNoteById(id);
+    if (!note) {
+      throw new NotFoundException('Note not found');
+    }
+
+    await this.pinService.unpinNote(actor, note);
+    return { pinned: false };
+  }
+
+  @Get('users/:username/pins')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getUserPins(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const actor = await this.actorService.getActorByUsername(username);
+    if (!actor) {
+      throw new NotFoundException('User not found');
+    }
+
+    const viewer = await this.#getRequestingActor(req);
+    const { notes, presentations } = await this.pinService.getPins(actor);
+    const visibleNotes: Note[] = [];
+    for (const note of notes) {
+      if (await this.noteService.isVisibleTo(note, viewer)) {
+        visibleNotes.push(note);
+      }
+    }
+
+    return {
+      notes: visibleNotes.map((note) => ({
+        ...note,
+        pinned: true,
+        author: {
+          ...note.author,
+          username: note.author?.preferredUsername,
+          displayName: note.author?.name,
+        },
+      })),
+      presentations: presentations.map((presentation) => ({
+        id: presentation.id,
+        title: presentation.title,
+        description: presentation.description,
+        pageCount: presentation.pageCount,
+        thumbnailUrl: presentation.thumbnailUrl,
+        url: presentation.url,
+        pdfKey: presentation.pdfKey,
+        pdfUrl: presentation.pdfUrl,
+        iri: presentation.iri,
+        noteId: presentation.noteId,
+        createdAt: presentation.createdAt,
+        pinned: true,
+      })),
+    };
+  }
+
+  @Get('users/:username/notes')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getUserNotes(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    const actor = await this.actorService.getActorByUsername(username);
+    if (!actor) {
+      throw new NotFoundException('User not found');
+    }
+    const viewer = await this.#getRequestingActor(req);
+    const notes = await this.noteService.getNotesAuthoredBy({
+      actor,
+      visibleTo: viewer,
+    });
+    const pinnedNoteIds = await this.pinService.getPinnedNoteIds(actor);
+    const reactions = await this.reactionService.getNoteReactions(
+      notes.map((note) => note.id),
+      viewer,
+    );
+    const quotedNotes = await this.noteService.getQuotedNotes(notes, viewer);
+    const polls = await this.pollService.getPolls(
+      notes.map((note) => note.id),
+      viewer,
+    );
+
+    // Transform notes to include username format the frontend expects
+    const transformedNotes = notes.map((note) => ({
+      ...note,
+      pinned: pinnedNoteIds.includes(note.id),
+      reactions: reactions.get(note.id) ?? [],
+      poll: polls.get(note.id) ?? null,
+      quotedNote: this.#getQuotedNote(note, quotedNotes),
+      author: {
+        ...note.author,
+        username: note.author?.preferredUsername,
+        displayName: note.author?.name,
+      },
+    }));
+
+    // Return in the format the frontend expects
+    return {
+      notes: transformedNotes || [],
+      total: transformedNotes?.length || 0,
+    };
+  }
+
+  @Get('timeline/home')
+  @UseGuards(JwtAuthGuard)
+  async getHomeTimeline(
+    @Request() req: ERequest,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const timelinePosts = await this.timelineService.getHomeTimeline(actor);
+    const noteIds = timelinePosts.map(
+      (timelinePost) => timelinePost.note.sharedNoteId ?? timelinePost.note.id,
+    );
+    const likedNoteIds = new Set(
+      await this.likeService.getLikedNoteIds(actor, noteIds),
+    );
+    const sharedNoteIds = new Set(
+      await this.noteService.getSharedNoteIds(actor, noteIds),
+    );
+    const reactions = await this.reactionService.getNoteReactions(
+      noteIds,
+      actor,
+    );
+    const polls = await this.pollService.getPolls(noteIds, actor);
+    const quotedNotes = await this.noteService.getQuotedNotes(
+      timelinePosts.map(
+        (timelinePost) => timelinePost.note.sharedNote ?? timelinePost.note,
+      ),
+      actor,
+    );
+
+    // Transform notes to include username format the frontend expects
+    const transformedNotes = timelinePosts.map((timelinePost) => {
+      const note = timelinePost.note;
+
+      // Check if this is a shared post
+      if (note.sharedNoteId && note.sharedNote) {
+        // This is a reblog/share - include both the sharer and original author
+        return {
+          ...note,
+          isShared: true,
+          sharedBy: {
+            ...timelinePost.author,
+            username: timelinePost.author?.preferredUsername,
+            displayName: timelinePost.author?.name,
+          },
+          // The sharedNote contains the original content
+          sharedNote: {
+            ...note.sharedNote,
+            liked: likedNoteIds.has(note.sharedNote.id),
+            shared: sharedNoteIds.has(note.sharedNote.id),
+            reactions: reactions.get(note.sharedNote.id) ?? [],
+            poll: polls.get(note.sharedNote.id) ?? null,
+            quotedNote: this.#getQuotedNote(note.sharedNote, quotedNotes),
+            author: {
+              ...note.sharedNote.author,
+              username: note.sharedNote.author?.preferredUsername,
+              displayName: note.sharedNote.author?.name,
+            },
+          },
+          // For shared posts, the author is the one who shared it
+          author: {
+            ...timelinePost.author,
+            username: timelinePost.author?.preferredUsername,
+            displayName: timelinePost.author?.name,
+          },
+        };
+      } else {
+        // Regular post
+        return {
+          ...note,
+          isShared: false,
+          liked: likedNoteIds.has(note.id),
+          shared: sharedNoteIds.has(note.id),
+          reactions: reactions.get(note.id) ?? [],
+          poll: polls.get(note.id) ?? null,
+          quotedNote: this.#getQuotedNote(note, quotedNotes),
+          author: {
+            ...timelinePost.author,
+            username: timelinePost.author?.preferredUsername,
+            displayName: timelinePost.author?.name,
+          },
+        };
+      }
+    });
+
+    return {
+      notes: transformedNotes || [],
+      total: transformedNotes?.length || 0,
+    };
+  }
+
+  @Get('timeline/public')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getPublicTimeline(
+    @Request() req: ERequest,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    const viewer = await this.#getRequestingActor(req);
+    const notes = await this.noteService.getPublicTimelineNotes({
+      limit,
+      viewer,
+    });
+
+    return {
+      notes: await this.#transformTimelineNotes(notes, viewer),
+    };
+  }
+
+  // Public notes including those received through relays
+  @Get('timeline/federated')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getFederatedTimeline(
+    @Request() req: ERequest,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    const viewer = await this.#getRequestingActor(req);
+    const notes = await this.noteService.getPublicTimelineNotes({
+      limit,
+      viewer,
+      federated: true,
+    });
+
+    return {
+      notes: await this.#transformTimelineNotes(notes, viewer),
+    };
+  }
+
+  // Hashtags. ActivityPub requests for a hashtag URL are answered with its
+  // collection by the federation middleware; browsers land here instead
+  @Get('tags/:name')
+  @Redirect()
+  getTagPage(@Param('name') name: string) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3001';
+
+    return {
+      url: `${frontendUrl}/tags/${encodeURIComponent(TagService.normalizeTagName(name))}`,
+    };
+  }
+
+  @Get('tags/:name/notes')
+  @UseGuards(OptionalJwtAuthGuard)
+  async getTagNotes(
+    @Request() req: ERequest,
+    @Param('name') name: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    const viewer = await this.#getRequestingActor(req);
+    const tag = await this.tagService.getTag(name);
+    const displayName = name.startsWith('#') ? name.slice(1) : name;
+
+    // Hashtags nobody has used yet still get an (empty) page
+    if (!tag) {
+      return {
+        tag: {
+          name: TagService.normalizeTagName(name),
+          displayName,
+          usageCount: 0,
+          lastUsedAt: null,
+          following: false,
+        },
+        notes: [],
+        nextCursor: null,
+      };
+    }
+
+    const {
+      items: notes,
+      nextCursor,
+      last,
+    } = await this.noteService.getTagNotes(tag.id, {
+      viewer,
+      cursor: cursor || null,
+      limit: 20,
+    });
+    const reactions = await this.reactionService.getNoteReactions(
+      notes.map((note) => note.id),
+      viewer,
+    );
+    const polls = await this.pollService.getPolls(
+      notes.map((note) => note.id),
+      viewer,
+    );
+    const quotedNotes = await this.noteService.getQuotedNotes(notes, viewer);
+
+    // Transform notes to include username format the frontend expects
+    const transformedNotes = notes.map((note) => ({
+      ...note,
+      reactions: reactions.get(note.id) ?? [],
+      poll: polls.get(note.id) ?? null,
+      quotedNote: this.#getQuotedNote(note, quotedNotes),
+      author: {
+        ...note.author,
+        username: note.author?.preferredUsername,
+        displayName: note.author?.name,
+      },
+    }));
+
+    return {
+      tag: {
+        name: tag.name,
+        displayName: tag.displayName || tag.name,
+        usageCount: tag.usageCount,
+        lastUsedAt: tag.lastUsedAt,
+        following: viewer
+          ? await this.tagService.isFollowingTag(viewer, tag)
+          : false,
+      },
+      notes: transformedNotes,
+      nextCursor: last ? null : nextCursor,
+    };
+  }
+
+  @Post('tags/:name/follow')
+  @UseGuards(JwtAuthGuard)
+  async followTag(@Request() req: ERequest, @Param('name') name: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    await this.tagService.followTag(actor, name);
+    return { following: true };
+  }
+
+  @Delete('tags/:name/follow')
+  @UseGuards(JwtAuthGuard)
+  async unfollowTag(@Request() req: ERequest, @Param('name') name: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    await this.tagService.unfollowTag(actor, name);
+    return { following: false };
+  }
+
+  @Get('users/me/followed-tags')
+  @UseGuards(JwtAuthGuard)
+  async getFollowedTags(@Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const tags = await this.tagService.getFollowedTags(actor);
+    return {
+      tags: tags.map((tag) => ({
+        name: tag.name,
+        displayName: tag.displayName || tag.name,
+        usageCount: tag.usageCount,
+        lastUsedAt: tag.lastUsedAt,
+        following: true,
+      })),
+    };
+  }
+
+  // Notifications
+  @Get('notifications')
+  @UseGuards(JwtAuthGuard)
+  async getNotifications(
+    @Request() req: ERequest,
+    @Query('types') types?: string,
+    @Query('unread') unread?: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    // Comma separated, e.g. ?types=mention,reply
+    const typeFilter = types
+      ?.split(',')
+      .filter((type): type is NotificationType =>
+        (NOTIFICATION_TYPES as readonly string[]).includes(type),
+      );
+
+    const { items, nextCursor, last } =
+      await this.notificationService.getNotifications(actor, {
+        types: typeFilter,
+        unread: unread === 'true',
+        cursor: cursor || null,
+        limit: Math.min(Math.max(parseInt(limit || '20') || 20, 1), 40),
+      });
+
+    return {
+      notifications: items.map((notification) =>
+        this.#transformNotification(notification),
+      ),
+      nextCursor: last ? null : nextCursor,
+      unreadCount: await this.notificationService.countUnread(actor),
+    };
+  }
+
+  @Get('notifications/unread-count')
+  @UseGuards(JwtAuthGuard)
+  async getUnreadNotificationCount(@Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    return {
+      unreadCount: await this.notificationService.countUnread(actor),
+    };
+  }
+
+  // Marks the given notifications as read, or all of them without ids
+  @Post('notifications/read')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async markNotificationsAsRead(
+    @Request() req: ERequest,
+    @Body('ids') ids?: string[],
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+    if (ids !== undefined && !Array.isArray(ids)) {
+      throw new BadRequestException('ids must be an array');
+    }
+
+    await this.notificationService.markAsRead(actor, ids);
+  }
+
+  // Server-sent events with each new notification; pings keep proxies from
+  // closing idle connections
+  @Sse('notifications/stream')
+  @UseGuards(JwtAuthGuard)
+  streamNotifications(@Request() req: ERequest): Observable<MessageEvent> {
+    return from(this.actorService.getActorByUserId(req.user!.id)).pipe(
+      switchMap((actor) => {
+        if (!actor) {
+          throw new NotFoundException('Actor not found');
+        }
+
+        return merge(
+          this.notificationService.stream(actor).pipe(
+            map((notification) => ({
+              type: 'notification',
+              data: this.#transformNotification(notification),
+            })),
+          ),
+          interval(30000).pipe(map(() => ({ type: 'ping', data: '' }))),
+        );
+      }),
+    );
+  }
+
+  // Direct message conversations
+  @Get('conversations')
+  @UseGuards(JwtAuthGuard)
+  async getConversations(@Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const conversations =
+      await this.conversationService.getConversations(actor);
+
+    return {
+      conversations: conversations.map((conversation) => ({
+        ...conversation,
+        participants: conversation.participants.map((participant) => ({
+          ...participant,
+          username: participant.preferredUsername,
+          displayName: participant.name,
+        })),
+        lastNote: {
+          ...conversation.lastNote,
+          author: {
+            ...conversation.lastNote.author,
+            username: conversation.lastNote.author?.preferredUsername,
+            displayName: conversation.lastNote.author?.name,
+          },
+        },
+      })),
+      unreadCount: conversations.filter((conversation) => conversation.unread)
+        .length,
+    };
+  }
+
+  @Get('conversations/:id')
+  @UseGuards(JwtAuthGuard)
+  async getConversation(@Request() req: ERequest, @Param('id') id: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const notes = await this.conversationService.getConversationNotes(
+      actor,
+      id,
+    );
+    if (!notes) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    // Opening a conversation marks it as read
+    await this.conversationService.markAsRead(actor, id);
+
+    return {
+      id,
+      notes: notes.map((note) => ({
+        ...note,
+        author: {
+          ...note.author,
+          username: note.author?.preferredUsername,
+          displayName: note.author?.name,
+        },
+      })),
+    };
+  }
+
+  @Post('conversations/:id/read')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async markConversationAsRead(
+    @Request() req: ERequest,
+    @Param('id') id: string,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    await this.conversationService.markAsRead(actor, id);
+  }
+
+  // Follow/Unfollow endpoints
+  @Post('users/:username/follow')
   @UseGuards(JwtAuthGuard)
   async followUser(
     @Request() req: ERequest,
@@ -351,6 +1238,127 @@ export class MicrobloggingController {
     return this.followService.getFollowStatus(req.user!.id, username);
   }
 
+  // Account migration endpoints
+  @Get('users/me/aliases')
+  @UseGuards(JwtAuthGuard)
+  async getAliases(@Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    return {
+      aliases: actor.alsoKnownAs ?? [],
+      movedTo: actor.movedTo,
+      movedAt: actor.movedAt,
+    };
+  }
+
+  @Post('users/me/aliases')
+  @UseGuards(JwtAuthGuard)
+  async addAlias(@Request() req: ERequest, @Body() body: { handle: string }) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const aliases = await this.accountMigrationService.addAlias(
+      actor,
+      body.handle,
+    );
+    return { aliases };
+  }
+
+  @Delete('users/me/aliases')
+  @UseGuards(JwtAuthGuard)
+  async removeAlias(@Request() req: ERequest, @Query('iri') iri: string) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const aliases = await this.accountMigrationService.removeAlias(actor, iri);
+    return { aliases };
+  }
+
+  @Post('users/me/move')
+  @UseGuards(JwtAuthGuard)
+  async moveAccount(
+    @Request() req: ERequest,
+    @Body() body: { target: string },
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const moved = await this.accountMigrationService.moveTo(actor, body.target);
+    return { movedTo: moved.movedTo, movedAt: moved.movedAt };
+  }
+
+  // Block/Mute endpoints
+  @Post('users/:username/block')
+  @UseGuards(JwtAuthGuard)
+  async blockUser(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const { actor, target } = await this.#getBlockParticipants(req, username);
+    await this.blockService.blockActor(actor, target);
+
+    return { success: true, message: 'Successfully blocked user' };
+  }
+
+  @Delete('users/:username/block')
+  @UseGuards(JwtAuthGuard)
+  async unblockUser(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const { actor, target } = await this.#getBlockParticipants(req, username);
+    if (!(await this.blockService.unblockActor(actor, target))) {
+      return { success: false, message: 'Not blocking this user' };
+    }
+
+    return { success: true, message: 'Successfully unblocked user' };
+  }
+
+  @Post('users/:username/mute')
+  @UseGuards(JwtAuthGuard)
+  async muteUser(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const { actor, target } = await this.#getBlockParticipants(req, username);
+    await this.blockService.muteActor(actor, target);
+
+    return { success: true, message: 'Successfully muted user' };
+  }
+
+  @Delete('users/:username/mute')
+  @UseGuards(JwtAuthGuard)
+  async unmuteUser(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const { actor, target } = await this.#getBlockParticipants(req, username);
+    if (!(await this.blockService.unmuteActor(actor, target))) {
+      return { success: false, message: 'Not muting this user' };
+    }
+
+    return { success: true, message: 'Successfully unmuted user' };
+  }
+
+  @Get('users/:username/block-status')
+  @UseGuards(JwtAuthGuard)
+  async getBlockStatus(
+    @Request() req: ERequest,
+    @Param('username') username: string,
+  ) {
+    const { actor, target } = await this.#getBlockParticipants(req, username);
+    return this.blockService.getRelationship(actor, target);
+  }
+
   @Get('users/:username/followers')
   async getFollowers(
     @Param('username') username: string,
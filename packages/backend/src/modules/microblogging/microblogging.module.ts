@@ -2,13 +2,37 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MicrobloggingController } from './microblogging.controller';
 import { FollowService } from './services/follow.service';
-import { Note, User, Actor, Follow, Tag } from '../../entities';
+import {
+  Note,
+  User,
+  Actor,
+  Follow,
+  Tag,
+  Like,
+  ConversationRead,
+  Block,
+  Mute,
+  Pin,
+  Presentation,
+  Reaction,
+  Poll,
+  PollVote,
+  TagFollow,
+} from '../../entities';
 import { FederationModule } from '../federation/federation.module';
 import { ActorService } from './services/actor.service';
 import { NoteService } from './services/note.service';
 import { SearchService } from './services/search.service';
 import { TimelineService } from './services/timeline.service';
 import { MarkdownService } from './services/markdown.service';
+import { LikeService } from './services/like.service';
+import { ConversationService } from './services/conversation.service';
+import { BlockService } from './services/block.service';
+import { AccountMigrationService } from './services/account-migration.service';
+import { PinService } from './services/pin.service';
+import { ReactionService } from './services/reaction.service';
+import { PollService } from './services/poll.service';
+import { TagService } from './services/tag.service';
 import { TimelinePost } from 'src/entities/timeline-post.entity';
 import { Mention } from 'src/entities/mention.entity';
 
@@ -23,6 +47,16 @@ import { Mention } from 'src/entities/mention.entity';
       TimelinePost,
       Mention,
       Tag,
+      Like,
+      ConversationRead,
+      Block,
+      Mute,
+      Pin,
+      Presentation,
+      Reaction,
+      Poll,
+      PollVote,
+      TagFollow,
     ]),
   ],
   controllers: [MicrobloggingController],
@@ -33,6 +67,14 @@ import { Mention } from 'src/entities/mention.entity';
     SearchService,
     TimelineService,
     MarkdownService,
+    LikeService,
+    ConversationService,
+    BlockService,
+    AccountMigrationService,
+    PinService,
+    ReactionService,
+    PollService,
+    TagService,
   ],
   exports: [
     FollowService,
@@ -41,6 +83,14 @@ import { Mention } from 'src/entities/mention.entity';
     SearchService,
     TimelineService,
     MarkdownService,
+    LikeService,
+    ConversationService,
+    BlockService,
+    AccountMigrationService,
+    PinService,
+    ReactionService,
+    PollService,
+    TagService,
   ],
 })
 export class MicrobloggingModule {}
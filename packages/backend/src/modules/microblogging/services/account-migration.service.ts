@@ -0,0 +1,246 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Application,
+  Federation,
+  Follow as APFollow,
+  Move,
+  Person,
+  Service,
+} from '@fedify/fedify';
+import { Actor, Follow } from 'src/entities';
+import { ActorService } from './actor.service';
+import { BlockService } from './block.service';
+import { FollowService } from './follow.service';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { AuthorizedFetchService } from '../../federation/services/authorized-fetch.service';
+
+type APActor = Person | Service | Application;
+
+@Injectable()
+export class AccountMigrationService {
+  constructor(
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @InjectRepository(Follow)
+    private followRepository: Repository<Follow>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private actorService: ActorService,
+    private followService: FollowService,
+    private blockService: BlockService,
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
+  ) {}
+
+  /**
+   * Add an account (handle or URL) to a local actor's alsoKnownAs aliases
+   */
+  async addAlias(actor: Actor, handle: string): Promise<string[]> {
+    const alias = await this.#lookupActor(handle);
+    const ctx = await this.#createFederationContext();
+    if (alias.id!.href === ctx.getActorUri(actor.id).href) {
+      throw new BadRequestException('An account cannot be its own alias');
+    }
+
+    const aliases = actor.alsoKnownAs ?? [];
+    if (!aliases.includes(alias.id!.href)) {
+      actor.alsoKnownAs = [...aliases, alias.id!.href];
+      await this.actorRepository.update(actor.id, {
+        alsoKnownAs: actor.alsoKnownAs,
+      });
+    }
+
+    return actor.alsoKnownAs;
+  }
+
+  async removeAlias(actor: Actor, iri: string): Promise<string[]> {
+    actor.alsoKnownAs = (actor.alsoKnownAs ?? []).filter(
+      (alias) => alias !== iri,
+    );
+    await this.actorRepository.update(actor.id, {
+      alsoKnownAs: actor.alsoKnownAs,
+    });
+
+    return actor.alsoKnownAs;
+  }
+
+  /**
+   * Move a local actor to another account and deliver Move to its followers.
+   * The target must already list this actor in its alsoKnownAs aliases.
+   */
+  async moveTo(actor: Actor, handle: string): Promise<Actor> {
+    if (actor.movedTo) {
+      throw new BadRequestException('This account has already moved');
+    }
+
+    const target = await this.#lookupActor(handle);
+    const ctx = await this.#createFederationContext();
+    const actorUri = ctx.getActorUri(actor.id);
+    if (target.id!.href === actorUri.href) {
+      throw new BadRequestException('An account cannot move to itself');
+    }
+    if (!target.aliasIds.some((alias) => alias.href === actorUri.href)) {
+      throw new BadRequestException(
+        'The target account must list this account as an alias first',
+      );
+    }
+
+    const targetActor = await this.actorService.persistActor(target);
+    if (!targetActor) {
+      throw new BadRequestException('Invalid actor handle or URL');
+    }
+
+    actor.movedTo = target.id!.href;
+    actor.movedAt = new Date();
+    await this.actorRepository.update(actor.id, {
+      movedTo: actor.movedTo,
+      movedAt: actor.movedAt,
+    });
+
+    // Local followers are moved right away; remote ones follow the Move
+    await this.#moveLocalFollowers(actor, targetActor);
+
+    await ctx.sendActivity(
+      { identifier: actor.id },
+      'followers',
+      new Move({
+        id: new URL(`#moves/${actor.movedAt.getTime()}`, actorUri),
+        actor: actorUri,
+        object: actorUri,
+        target: target.id,
+        to: ctx.getFollowersUri(actor.id),
+      }),
+      { preferSharedInbox: true },
+    );
+
+    return actor;
+  }
+
+  /**
+   * Handle a Move received from a remote actor: once the new account lists
+   * the old one as an alias, local followers of the old account are
+   * re-pointed to the new one
+   */
+  async applyRemoteMove(oldActor: Actor, target: APActor): Promise<boolean> {
+    if (oldActor.isLocal || !target.id) return false;
+    if (await this.domainBlockService.isSuspended(target.id)) return false;
+
+    const oldIri = oldActor.iri ?? oldActor.actorId;
+    if (!target.aliasIds.some((alias) => alias.href === oldIri)) return false;
+
+    const newActor = await this.actorService.persistActor(target);
+    if (!newActor) return false;
+
+    await this.actorRepository.update(oldActor.id, {
+      movedTo: target.id.href,
+      movedAt: new Date(),
+    });
+    await this.#moveLocalFollowers(oldActor, newActor);
+
+    return true;
+  }
+
+  async #moveLocalFollowers(oldActor: Actor, newActor: Actor) {
+    const follows = await this.followRepository.find({
+      where: { followingId: oldActor.id },
+      relations: ['follower', 'follower.user'],
+    });
+    const localFollowers = follows
+      .map((follow) => follow.follower)
+      .filter((follower) => follower?.isLocal);
+    if (localFollowers.length === 0) return;
+
+    const [oldFollowing, newFollowing] = await Promise.all(
+      [oldActor, newActor].map(async (actor) =>
+        actor.isLocal
+          ? ((await this.actorRepository.findOne({
+              where: { id: actor.id },
+              relations: ['user'],
+            })) ?? actor)
+          : actor,
+      ),
+    );
+    const alreadyFollowingIds = new Set(
+      (
+        await this.followRepository.find({
+          where: {
+            followingId: newActor.id,
+            followerId: In(localFollowers.map((follower) => follower.id)),
+          },
+        })
+      ).map((follow) => follow.followerId),
+    );
+
+    const ctx = await this.#createFederationContext();
+    for (const follower of localFollowers) {
+      await this.followService.unfollowActor(follower, oldFollowing);
+
+      if (
+        follower.id === newActor.id ||
+        alreadyFollowingIds.has(follower.id) ||
+        (await this.blockService.isBlocking(follower, newActor)) ||
+        (await this.blockService.isBlocking(newActor, follower))
+      )
+        continue;
+
+      await this.followService.followActor(follower, newFollowing);
+      if (newFollowing.isLocal) {
+        if (!newFollowing.manuallyApprovesFollowers) {
+          await this.followService.acceptFollowRequest(follower, newFollowing);
+        }
+      } else if (newFollowing.inboxUrl) {
+        const targetUri = new URL(newFollowing.iri ?? newFollowing.actorId);
+        await ctx.sendActivity(
+          { identifier: follower.id },
+          { id: targetUri, inboxId: new URL(newFollowing.inboxUrl) },
+          new APFollow({
+            actor: ctx.getActorUri(follower.id),
+            object: targetUri,
+            to: targetUri,
+          }),
+        );
+      }
+    }
+  }
+
+  async #lookupActor(handle: string): Promise<APActor> {
+    if (!handle?.trim()) {
+      throw new BadRequestException('An account handle or URL is required');
+    }
+    if (await this.domainBlockService.isSuspended(handle)) {
+      throw new BadRequestException('This domain is blocked');
+    }
+
+    const object = await this.authorizedFetchService.lookupObject(
+      handle.trim(),
+    );
+    if (
+      !(
+        object instanceof Person ||
+        object instanceof Service ||
+        object instanceof Application
+      ) ||
+      !object.id
+    ) {
+      throw new BadRequestException('Invalid actor handle or URL');
+    }
+
+    return object;
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
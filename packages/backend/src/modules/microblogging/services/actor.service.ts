@@ -1,14 +1,25 @@
-import { Application, Person, Service } from '@fedify/fedify';
+import {
+  Application,
+  Link,
+  Person,
+  Service,
+  traverseCollection,
+} from '@fedify/fedify';
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Actor } from 'src/entities';
 import { DeepPartial, Repository } from 'typeorm';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { PIN_LIMIT, PinService } from './pin.service';
 
 @Injectable()
 export class ActorService {
   constructor(
     @InjectRepository(Actor)
     private actorRepository: Repository<Actor>,
+
+    private domainBlockService: DomainBlockService,
+    private pinService: PinService,
   ) {}
 
   async persistActor(
@@ -33,22 +44,28 @@ export class ActorService {
     if (actor) {
       // [TODO]
       // Improve actor persistent logic with not yet handled properties
-      // - remaining: published, following, followers, featured, featuredTags, published
+      // - remaining: published, following, followers, featuredTags, published
       console.log({ person });
       const getterOptions = { suppressError: true };
 
-      const icon = await person.getIcon(getterOptions);
-      const featured = person.getFeatured(getterOptions);
+      const icon = (await this.domainBlockService.rejectsMedia(actorId))
+        ? null
+        : await person.getIcon(getterOptions);
       const featuredTags = person.getFeaturedTags(getterOptions);
 
       await this.actorRepository.update(actor.id, {
         name: person.name?.toString(),
         summary: person.summary?.toString(),
+        inboxUrl: person.inboxId?.href,
+        outboxUrl: person.outboxId?.href,
+        sharedInboxUrl: person.endpoints?.sharedInbox?.href,
         manuallyApprovesFollowers: person.manuallyApprovesFollowers || false,
         icon: {
           url: icon?.url?.href?.toString(),
           mediaType: icon?.mediaType?.toString(),
         },
+        alsoKnownAs: person.aliasIds.map((alias) => alias.href),
+        movedTo: person.successorId?.href ?? null,
         lastFetchedAt: new Date(),
       });
 
@@ -78,13 +95,45 @@ export class ActorService {
       inboxUrl: person.inboxId?.href,
       outboxUrl: person.outboxId?.href,
       sharedInboxUrl: person.endpoints?.sharedInbox,
+      alsoKnownAs: person.aliasIds.map((alias) => alias.href),
+      movedTo: person.successorId?.href ?? null,
+      lastFetchedAt: new Date(),
     } as DeepPartial<Actor>);
 
     await this.actorRepository.save(actor);
+    await this.persistFeatured(actor, person);
 
     return actor;
   }
 
+  /**
+   * Record the notes and presentations a remote actor has pinned. Fetched
+   * when the actor is first seen, refreshed by ActorRefreshService or
+   * updated by its server, not on every activity.
+   */
+  async persistFeatured(actor: Actor, person: Person | Application | Service) {
+    if (!person.featuredId) return;
+
+    const getterOptions = { suppressError: true };
+    const featured = await person.getFeatured(getterOptions);
+    if (!featured) return;
+
+    const iris: string[] = [];
+    try {
+      for await (const item of traverseCollection(featured, getterOptions)) {
+        const id = item instanceof Link ? item.href : item.id;
+        if (id) iris.push(id.href);
+        // Notes and presentations are capped separately
+        if (iris.length >= PIN_LIMIT * 2) break;
+      }
+    } catch (error) {
+      console.error('Failed to fetch featured collection:', error);
+      return;
+    }
+
+    await this.pinService.replaceRemotePins(actor, iris);
+  }
+
   async getActorByUserId(userId: string) {
     const actor = await this.actorRepository.findOne({
       where: { userId },
@@ -0,0 +1,267 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import { Federation, Block as APBlock, Undo } from '@fedify/fedify';
+import { Actor, Block, Mute } from 'src/entities';
+import { FollowService } from './follow.service';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+
+@Injectable()
+export class BlockService {
+  constructor(
+    @InjectRepository(Block)
+    private blockRepository: Repository<Block>,
+
+    @InjectRepository(Mute)
+    private muteRepository: Repository<Mute>,
+
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private followService: FollowService,
+    private domainBlockService: DomainBlockService,
+  ) {}
+
+  /**
+   * Block an actor as a local actor, sever follows in both directions and
+   * deliver the Block to a remote target
+   */
+  async blockActor(actor: Actor, target: Actor): Promise<Block> {
+    if (actor.id === target.id) {
+      throw new BadRequestException('You cannot block yourself');
+    }
+
+    const existing = await this.blockRepository.findOne({
+      where: { blockerId: actor.id, blockedId: target.id },
+    });
+    if (existing) return existing;
+
+    const ctx = await this.#createFederationContext();
+    const block = this.blockRepository.create({
+      blockerId: actor.id,
+      blockedId: target.id,
+    });
+    await this.blockRepository.save(block);
+
+    const iri = new URL(`#blocks/${block.id}`, ctx.getActorUri(actor.id));
+    block.iri = iri.href;
+    await this.blockRepository.save(block);
+
+    await this.#severFollows(actor, target);
+
+    if (
+      !target.isLocal &&
+      target.inboxUrl &&
+      !(await this.domainBlockService.isSuspended(target.inboxUrl))
+    ) {
+      const targetUri = new URL(target.iri ?? target.actorId);
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        { id: targetUri, inboxId: new URL(target.inboxUrl) },
+        new APBlock({
+          id: iri,
+          actor: ctx.getActorUri(actor.id),
+          object: targetUri,
+          to: targetUri,
+        }),
+      );
+    }
+
+    return block;
+  }
+
+  /**
+   * Remove a local actor's block and deliver Undo(Block) to a remote target
+   */
+  async unblockActor(actor: Actor, target: Actor): Promise<boolean> {
+    const block = await this.blockRepository.findOne({
+      where: { blockerId: actor.id, blockedId: target.id },
+    });
+    if (!block) return false;
+
+    await this.blockRepository.remove(block);
+
+    if (
+      !target.isLocal &&
+      target.inboxUrl &&
+      block.iri &&
+      !(await this.domainBlockService.isSuspended(target.inboxUrl))
+    ) {
+      const ctx = await this.#createFederationContext();
+      const targetUri = new URL(target.iri ?? target.actorId);
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        { id: targetUri, inboxId: new URL(target.inboxUrl) },
+        new Undo({
+          id: new URL(`${block.iri}/undo`),
+          actor: ctx.getActorUri(actor.id),
+          object: new APBlock({
+            id: new URL(block.iri),
+            actor: ctx.getActorUri(actor.id),
+            object: targetUri,
+          }),
+          to: targetUri,
+        }),
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a Block activity received from a remote actor
+   */
+  async addRemoteBlock(
+    blocker: Actor,
+    blocked: Actor,
+    iri: string,
+  ): Promise<Block | null> {
+    const existing = await this.blockRepository.findOne({
+      where: [{ iri }, { blockerId: blocker.id, blockedId: blocked.id }],
+    });
+    if (existing) return null;
+
+    const block = this.blockRepository.create({
+      blockerId: blocker.id,
+      blockedId: blocked.id,
+      iri,
+    });
+    await this.blockRepository.save(block);
+    await this.#severFollows(blocker, blocked);
+
+    return block;
+  }
+
+  /**
+   * Remove a block after an Undo(Block) from the remote actor who made it
+   */
+  async removeRemoteBlock(blocker: Actor, iri: string): Promise<boolean> {
+    const block = await this.blockRepository.findOne({
+      where: { blockerId: blocker.id, iri },
+    });
+    if (!block) return false;
+
+    await this.blockRepository.remove(block);
+
+    return true;
+  }
+
+  /**
+   * Mute an actor. Mutes only filter the muter's timelines and are never
+   * delivered to anyone.
+   */
+  async muteActor(actor: Actor, target: Actor): Promise<Mute> {
+    if (actor.id === target.id) {
+      throw new BadRequestException('You cannot mute yourself');
+    }
+
+    const existing = await this.muteRepository.findOne({
+      where: { muterId: actor.id, mutedId: target.id },
+    });
+    if (existing) return existing;
+
+    const mute = this.muteRepository.create({
+      muterId: actor.id,
+      mutedId: target.id,
+    });
+    await this.muteRepository.save(mute);
+
+    return mute;
+  }
+
+  async unmuteActor(actor: Actor, target: Actor): Promise<boolean> {
+    const result = await this.muteRepository.delete({
+      muterId: actor.id,
+      mutedId: target.id,
+    });
+
+    return !!result.affected;
+  }
+
+  async isBlocking(blocker: Actor, blocked: Actor): Promise<boolean> {
+    return this.blockRepository.exists({
+      where: { blockerId: blocker.id, blockedId: blocked.id },
+    });
+  }
+
+  async getRelationship(actor: Actor, target: Actor) {
+    const [blocking, blockedBy, muting] = await Promise.all([
+      this.isBlocking(actor, target),
+      this.isBlocking(target, actor),
+      this.muteRepository.exists({
+        where: { muterId: actor.id, mutedId: target.id },
+      }),
+    ]);
+
+    return { blocking, blockedBy, muting };
+  }
+
+  /**
+   * IDs of actors whose notes are hidden from an actor: those it blocked or
+   * muted, and those who blocked it
+   */
+  async getHiddenActorIds(actor: Actor): Promise<string[]> {
+    const [blocks, mutes] = await Promise.all([
+      this.blockRepository.find({
+        where: [{ blockerId: actor.id }, { blockedId: actor.id }],
+      }),
+      this.muteRepository.find({ where: { muterId: actor.id } }),
+    ]);
+
+    return Array.from(
+      new Set([
+        ...blocks.map((block) =>
+          block.blockerId === actor.id ? block.blockedId : block.blockerId,
+        ),
+        ...mutes.map((mute) => mute.mutedId),
+      ]),
+    );
+  }
+
+  /**
+   * Drop actors who have blocked the sender before delivering an activity
+   */
+  async excludeBlockingActors(
+    sender: Actor,
+    actors: Actor[],
+  ): Promise<Actor[]> {
+    if (actors.length === 0) return actors;
+
+    const blocks = await this.blockRepository.find({
+      where: {
+        blockedId: sender.id,
+        blockerId: In(actors.map((actor) => actor.id)),
+      },
+    });
+    const blockerIds = new Set(blocks.map((block) => block.blockerId));
+
+    return actors.filter((actor) => !blockerIds.has(actor.id));
+  }
+
+  async #severFollows(actor: Actor, target: Actor) {
+    // Counters are kept on the users, so load them with the actors
+    const actors = await this.actorRepository.find({
+      where: { id: In([actor.id, target.id]) },
+      relations: ['user'],
+    });
+    const first = actors.find((item) => item.id === actor.id) ?? actor;
+    const second = actors.find((item) => item.id === target.id) ?? target;
+
+    await this.followService.unfollowActor(first, second);
+    await this.followService.unfollowActor(second, first);
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+import { Actor, ConversationRead, Note } from 'src/entities';
+
+export interface Conversation {
+  id: string;
+  participants: Actor[];
+  lastNote: Note;
+  notesCount: number;
+  unread: boolean;
+}
+
+// Upper bound of direct notes scanned when grouping conversations
+const MAX_DIRECT_NOTES = 500;
+
+@Injectable()
+export class ConversationService {
+  constructor(
+    @InjectRepository(Actor)
+    private actorRepository: Repository<Actor>,
+
+    @InjectRepository(Note)
+    private noteRepository: Repository<Note>,
+
+    @InjectRepository(ConversationRead)
+    private conversationReadRepository: Repository<ConversationRead>,
+  ) {}
+
+  /**
+   * List the actor's direct notes grouped by participants, newest first
+   */
+  async getConversations(actor: Actor): Promise<Conversation[]> {
+    const notes = await this.#getDirectNotes(actor);
+    const recipients = await this.#getRecipientActors(notes);
+    const reads = await this.conversationReadRepository.find({
+      where: { actorId: actor.id },
+    });
+    const lastReadAt = new Map(
+      reads.map((read) => [read.conversationId, read.lastReadAt]),
+    );
+
+    const conversations = new Map<string, Conversation>();
+    for (const note of notes) {
+      const participants = this.#getParticipants(actor, note, recipients);
+      const id = this.#getConversationId(actor, participants);
+      const conversation = conversations.get(id);
+      if (conversation) {
+        conversation.notesCount += 1;
+        continue;
+      }
+
+      // Notes are ordered newest first, so the first one is the latest
+      const readAt = lastReadAt.get(id);
+      conversations.set(id, {
+        id,
+        participants,
+        lastNote: note,
+        notesCount: 1,
+        unread:
+          note.authorId !== actor.id && (!readAt || readAt < note.publishedAt),
+      });
+    }
+
+    return Array.from(conversations.values());
+  }
+
+  /**
+   * Return the notes of a conversation in chronological order
+   */
+  async getConversationNotes(
+    actor: Actor,
+    conversationId: string,
+  ): Promise<Note[] | null> {
+    const directNotes = await this.#getDirectNotes(actor);
+    const recipients = await this.#getRecipientActors(directNotes);
+    const notes = directNotes.filter(
+      (note) =>
+        this.#getConversationId(
+          actor,
+          this.#getParticipants(actor, note, recipients),
+        ) === conversationId,
+    );
+    if (notes.length === 0) return null;
+
+    return notes.reverse();
+  }
+
+  async markAsRead(actor: Actor, conversationId: string): Promise<void> {
+    await this.conversationReadRepository.upsert(
+      {
+        actorId: actor.id,
+        conversationId,
+        lastReadAt: new Date(),
+      },
+      ['actorId', 'conversationId'],
+    );
+  }
+
+  // Direct notes the actor wrote, was mentioned in, or was addressed by
+  // without a mention
+  async #getDirectNotes(actor: Actor): Promise<Note[]> {
+    return this.noteRepository
+      .createQueryBuilder('note')
+      .leftJoinAndSelect('note.author', 'author')
+      .leftJoinAndSelect('note.mentions', 'mention')
+      .leftJoinAndSelect('mention.actor', 'mentionActor')
+      .where('note.visibility = :visibility', { visibility: 'direct' })
+      .andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('note.authorId = :actorId')
+            .orWhere(
+              'note.id IN (SELECT "noteId" FROM mentions WHERE "actorId" = :actorId)',
+            )
+            .orWhere('note.recipients @> CAST(:recipient AS jsonb)'),
+        ),
+      )
+      .setParameter('actorId', actor.id)
+      .setParameter('recipient', JSON.stringify([actor.iri ?? actor.actorId]))
+      .orderBy('note.publishedAt', 'DESC')
+      .take(MAX_DIRECT_NOTES)
+      .getMany();
+  }
+
+  // Known actors among the recipients of the notes, by IRI
+  async #getRecipientActors(notes: Note[]): Promise<Map<string, Actor>> {
+    const iris = Array.from(
+      new Set(notes.flatMap((note) => note.recipients ?? [])),
+    );
+    if (iris.length === 0) return new Map();
+
+    const actors = await this.actorRepository.find({
+      where: [{ iri: In(iris) }, { actorId: In(iris) }],
+    });
+
+    const recipients = new Map<string, Actor>();
+    for (const actor of actors) {
+      recipients.set(actor.actorId, actor);
+      if (actor.iri) recipients.set(actor.iri, actor);
+    }
+    return recipients;
+  }
+
+  // Everyone involved in a note except the requesting actor
+  #getParticipants(
+    actor: Actor,
+    note: Note,
+    recipients: Map<string, Actor>,
+  ): Actor[] {
+    const participants = new Map<string, Actor>();
+    if (note.author) {
+      participants.set(note.author.id, note.author);
+    }
+    for (const mention of note.mentions ?? []) {
+      if (mention.actor) {
+        participants.set(mention.actor.id, mention.actor);
+      }
+    }
+    for (const iri of note.recipients ?? []) {
+      const recipient = recipients.get(iri);
+      if (recipient) {
+        participants.set(recipient.id, recipient);
+      }
+    }
+    participants.delete(actor.id);
+
+    return Array.from(participants.values());
+  }
+
+  #getConversationId(actor: Actor, participants: Actor[]): string {
+    if (participants.length === 0) return actor.id;
+
+    return participants
+      .map((participant) => participant.id)
+      .sort()
+      .join('_');
+  }
+}
@@ -5,14 +5,16 @@ import {
   Inject,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { User, Follow, Actor } from '../../../entities';
+import { Brackets, Repository } from 'typeorm';
+import { User, Follow, Actor, Block } from '../../../entities';
 import { FEDIFY_FEDERATION } from '@fedify/nestjs';
 import { ContextService } from '../../federation/services/context.service';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { AuthorizedFetchService } from '../../federation/services/authorized-fetch.service';
+import { NotificationService } from '../../federation/services/notification.service';
 import {
   Federation,
   Follow as APFollow,
-  lookupObject,
   isActor,
   Undo,
   Context,
@@ -44,8 +46,15 @@ export class FollowService {
     @InjectRepository(Actor)
     private actorRepository: Repository<Actor>,
 
+    @InjectRepository(Block)
+    private blockRepository: Repository<Block>,
+
     private contextService: ContextService,
 
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
+    private notificationService: NotificationService,
+
     @Inject(FEDIFY_FEDERATION)
     private federation: Federation<unknown>,
   ) {}
@@ -77,7 +86,29 @@ export class FollowService {
     const targetAcct = targetUsername.slice(1).includes('@')
       ? targetUsername
       : `@${targetUsername}@${federationDomain}`;
-    const actor = await lookupObject(targetAcct.trim());
+    if (await this.domainBlockService.isSuspended(targetAcct)) {
+      return {
+        success: false,
+        message: 'This domain is blocked',
+      };
+    }
+    if (
+      targetActor &&
+      (await this.blockRepository.exists({
+        where: [
+          { blockerId: followerActor.id, blockedId: targetActor.id },
+          { blockerId: targetActor.id, blockedId: followerActor.id },
+        ],
+      }))
+    ) {
+      return {
+        success: false,
+        message: 'You cannot follow this user',
+      };
+    }
+    const actor = await this.authorizedFetchService.lookupObject(
+      targetAcct.trim(),
+    );
     if (!isActor(actor)) {
       return {
         success: false,
@@ -97,9 +128,6 @@ export class FollowService {
         },
         actor,
         apFollowObject,
-        {
-          immediate: true,
-        },
       );
 
       return { success: true, message: 'Request to follow!' };
@@ -119,7 +147,6 @@ export class FollowService {
       },
       actor,
       apFollowObject,
-      { immediate: true },
     );
 
     return { success: true, message: 'Successfully followed user' };
@@ -149,7 +176,15 @@ export class FollowService {
 
     const ctx = await this.#createFederationContext();
     if (!targetActor) {
-      const actor = await lookupObject(targetUsername.trim());
+      if (await this.domainBlockService.isSuspended(targetUsername)) {
+        return {
+          success: false,
+          message: 'This domain is blocked',
+        };
+      }
+      const actor = await this.authorizedFetchService.lookupObject(
+        targetUsername.trim(),
+      );
       if (!isActor(actor)) {
         return {
           success: false,
@@ -177,9 +212,6 @@ export class FollowService {
           object: followActivity,
           to: actor.id,
         }),
-        {
-          immediate: true,
-        },
       );
 
       return { success: true, message: 'Request to unfollow sent!' };
@@ -204,9 +236,6 @@ export class FollowService {
         object: followActivity,
         to: new URL(targetActor.actorId),
       }),
-      {
-        immediate: true,
-      },
     );
 
     const unfollowed = await this.unfollowActor(followerActor, targetActor);
@@ -237,6 +266,13 @@ export class FollowService {
     });
 
     await this.followRepository.save(follow);
+    await this.notificationService.notify({
+      type: followingActor.manuallyApprovesFollowers
+        ? 'follow_request'
+        : 'follow',
+      recipientId: followingActor.id,
+      actorId: followerActor.id,
+    });
 
     return follow;
   }
@@ -249,7 +285,7 @@ export class FollowService {
       },
     });
 
-    if (!follow) {
+    if (follow.length === 0) {
       return null;
     }
 
@@ -276,6 +312,62 @@ export class FollowService {
     return true;
   }
 
+  /**
+   * Sever every follow between local and remote actors on a domain,
+   * e.g. after the domain has been suspended
+   */
+  async removeFollowsWithDomain(domain: string): Promise<number> {
+    const follows = await this.followRepository
+      .createQueryBuilder('follow')
+      .leftJoinAndSelect('follow.follower', 'follower')
+      .leftJoinAndSelect('follower.user', 'followerUser')
+      .leftJoinAndSelect('follow.following', 'following')
+      .leftJoinAndSelect('following.user', 'followingUser')
+      .where(
+        new Brackets((qb) =>
+          qb
+            .where('follower.isLocal = false AND follower.domain LIKE :pattern')
+            .orWhere(
+              'following.isLocal = false AND following.domain LIKE :pattern',
+            ),
+        ),
+        { pattern: `%${domain}%` },
+      )
+      .getMany();
+
+    const isOnDomain = (actor: Actor) => {
+      const host = !actor.isLocal && DomainBlockService.getHost(actor.domain);
+      return !!host && DomainBlockService.coversHost(domain, host);
+    };
+
+    let removed = 0;
+    for (const follow of follows) {
+      if (!isOnDomain(follow.follower) && !isOnDomain(follow.following))
+        continue;
+      await this.unfollowActor(follow.follower, follow.following);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Sever every follow from or to a remote actor, e.g. after it has been
+   * deleted
+   */
+  async removeFollowsOfActor(actor: Actor): Promise<number> {
+    const follows = await this.followRepository.find({
+      where: [{ followerId: actor.id }, { followingId: actor.id }],
+      relations: ['follower', 'follower.user', 'following', 'following.user'],
+    });
+
+    for (const follow of follows) {
+      await this.unfollowActor(follow.follower, follow.following);
+    }
+
+    return follows.length;
+  }
+
   async sendAcceptFollowRequest(requestedActor: Actor, targetActor: Actor) {
     const follow = await this.followRepository.findOne({
       where: {
@@ -298,9 +390,7 @@ export class FollowService {
     });
 
     const follower = (await followActivity.getActor()) as Person;
-    await ctx.sendActivity({ identifier: targetActor.id }, follower, accept, {
-      immediate: true,
-    });
+    await ctx.sendActivity({ identifier: targetActor.id }, follower, accept);
 
     return true;
   }
@@ -327,9 +417,7 @@ export class FollowService {
     });
 
     const follower = (await followActivity.getActor()) as Person;
-    await ctx.sendActivity({ identifier: targetActor.id }, follower, reject, {
-      immediate: true,
-    });
+    await ctx.sendActivity({ identifier: targetActor.id }, follower, reject);
 
     return true;
   }
@@ -338,7 +426,9 @@ export class FollowService {
     ctx: Context<unknown>,
     follow: Follow,
   ): Promise<APFollow> {
-    const actor = await lookupObject(new URL(follow.following.url));
+    const actor = await this.authorizedFetchService.lookupObject(
+      new URL(follow.following.url),
+    );
     return new APFollow({
       actor: ctx.getActorUri(follow.follower.id),
       object: actor?.id,
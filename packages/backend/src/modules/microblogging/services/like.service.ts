@@ -0,0 +1,248 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import { Federation, Like as APLike, Undo } from '@fedify/fedify';
+import { Actor, Like, Note } from 'src/entities';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { NotificationService } from '../../federation/services/notification.service';
+import { BlockService } from './block.service';
+
+interface PaginationParameter {
+  cursor: string | null;
+  limit: number;
+}
+
+interface PaginationResult<T> {
+  items: T[];
+  nextCursor: string | null;
+  last: boolean;
+}
+
+@Injectable()
+export class LikeService {
+  constructor(
+    @InjectRepository(Like)
+    private likeRepository: Repository<Like>,
+
+    @InjectRepository(Note)
+    private noteRepository: Repository<Note>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private domainBlockService: DomainBlockService,
+    private blockService: BlockService,
+    private notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Like a note as a local actor and deliver the Like to the note author
+   */
+  async likeNote(actor: Actor, note: Note): Promise<Like> {
+    const existing = await this.likeRepository.findOne({
+      where: { actorId: actor.id, noteId: note.id },
+    });
+    if (existing) return existing;
+
+    const ctx = await this.#createFederationContext();
+    const like = this.likeRepository.create({
+      actorId: actor.id,
+      noteId: note.id,
+    });
+    await this.likeRepository.save(like);
+
+    const iri = new URL(`#likes/${like.id}`, ctx.getActorUri(actor.id));
+    like.iri = iri.href;
+    await this.likeRepository.save(like);
+    await this.noteRepository.increment({ id: note.id }, 'likesCount', 1);
+    await this.notificationService.notify({
+      type: 'like',
+      recipientId: note.authorId,
+      actorId: actor.id,
+      noteId: note.id,
+    });
+
+    const author = note.author;
+    if (
+      author &&
+      !author.isLocal &&
+      author.inboxUrl &&
+      note.iri &&
+      !(await this.domainBlockService.isSuspended(author.inboxUrl)) &&
+      !(await this.blockService.isBlocking(author, actor))
+    ) {
+      const authorUri = new URL(author.iri ?? author.actorId);
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        { id: authorUri, inboxId: new URL(author.inboxUrl) },
+        new APLike({
+          id: iri,
+          actor: ctx.getActorUri(actor.id),
+          object: new URL(note.iri),
+          to: authorUri,
+        }),
+      );
+    }
+
+    return like;
+  }
+
+  /**
+   * Remove a local actor's like and deliver Undo(Like) to the note author
+   */
+  async unlikeNote(actor: Actor, note: Note): Promise<boolean> {
+    const like = await this.likeRepository.findOne({
+      where: { actorId: actor.id, noteId: note.id },
+    });
+    if (!like) return false;
+
+    await this.likeRepository.remove(like);
+    await this.noteRepository.decrement({ id: note.id }, 'likesCount', 1);
+
+    const author = note.author;
+    if (
+      author &&
+      !author.isLocal &&
+      author.inboxUrl &&
+      note.iri &&
+      like.iri &&
+      !(await this.domainBlockService.isSuspended(author.inboxUrl)) &&
+      !(await this.blockService.isBlocking(author, actor))
+    ) {
+      const ctx = await this.#createFederationContext();
+      const authorUri = new URL(author.iri ?? author.actorId);
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        { id: authorUri, inboxId: new URL(author.inboxUrl) },
+        new Undo({
+          id: new URL(`${like.iri}/undo`),
+          actor: ctx.getActorUri(actor.id),
+          object: new APLike({
+            id: new URL(like.iri),
+            actor: ctx.getActorUri(actor.id),
+            object: new URL(note.iri),
+          }),
+          to: authorUri,
+        }),
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a Like activity received from a remote actor
+   */
+  async addRemoteLike(
+    actor: Actor,
+    note: Note,
+    iri: string,
+  ): Promise<Like | null> {
+    const existing = await this.likeRepository.findOne({
+      where: [{ iri }, { actorId: actor.id, noteId: note.id }],
+    });
+    if (existing) return null;
+
+    const like = this.likeRepository.create({
+      actorId: actor.id,
+      noteId: note.id,
+      iri,
+    });
+    await this.likeRepository.save(like);
+    await this.noteRepository.increment({ id: note.id }, 'likesCount', 1);
+
+    return like;
+  }
+
+  /**
+   * Remove a Like previously received from a remote actor (Undo(Like))
+   */
+  async removeRemoteLike(actor: Actor, iri: string): Promise<boolean> {
+    const like = await this.likeRepository.findOne({
+      where: { iri, actorId: actor.id },
+    });
+    if (!like) return false;
+
+    await this.likeRepository.remove(like);
+    await this.noteRepository.decrement({ id: like.noteId }, 'likesCount', 1);
+
+    return true;
+  }
+
+  /**
+   * Return the subset of the given note IDs that the actor has liked
+   */
+  async getLikedNoteIds(actor: Actor, noteIds: string[]): Promise<string[]> {
+    if (noteIds.length === 0) return [];
+
+    const likes = await this.likeRepository.find({
+      select: ['noteId'],
+      where: { actorId: actor.id, noteId: In(noteIds) },
+    });
+
+    return likes.map((like) => like.noteId);
+  }
+
+  async getLikesOfNote(
+    noteId: string,
+    pagination: PaginationParameter,
+  ): Promise<PaginationResult<Like>> {
+    const { cursor, limit } = pagination;
+    const offset = parseInt(cursor || '0');
+
+    const [likes, total] = await this.likeRepository.findAndCount({
+      where: { noteId },
+      relations: ['actor', 'note'],
+      take: limit,
+      skip: offset,
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      items: likes,
+      nextCursor: (limit + offset).toString(),
+      last: offset + limit >= total,
+    };
+  }
+
+  async getLikedByActor(
+    actorId: string,
+    pagination: PaginationParameter,
+  ): Promise<PaginationResult<Like>> {
+    const { cursor, limit } = pagination;
+    const offset = parseInt(cursor || '0');
+
+    const [likes, total] = await this.likeRepository.findAndCount({
+      where: { actorId },
+      relations: ['note'],
+      take: limit,
+      skip: offset,
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      items: likes,
+      nextCursor: (limit + offset).toString(),
+      last: offset + limit >= total,
+    };
+  }
+
+  async countLikesOfNote(noteId: string): Promise<number> {
+    return this.likeRepository.count({ where: { noteId } });
+  }
+
+  async countLikedByActor(actorId: string): Promise<number> {
+    return this.likeRepository.count({ where: { actorId } });
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
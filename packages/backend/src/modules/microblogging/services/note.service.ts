@@ -9,22 +9,52 @@ import {
   Announce as APAnnounce,
   Application,
   Service,
+  Delete,
+  Tombstone,
+  Update,
+  Undo,
+  Link,
+  Question,
 } from '@fedify/fedify';
 import { FEDIFY_FEDERATION } from '@fedify/nestjs';
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Actor, Follow, Note } from 'src/entities';
+import {
+  Actor,
+  Follow,
+  Like,
+  Note,
+  NoteRevision,
+  Pin,
+  Poll,
+  User,
+} from 'src/entities';
 import {
   convertTemporalToDate,
+  toAPAnnounce,
   toAPNote,
   toTemporalInstance,
 } from 'src/lib/activitypub';
-import { DeepPartial, In, IsNull, Not, Repository } from 'typeorm';
+import {
+  Brackets,
+  DeepPartial,
+  In,
+  IsNull,
+  Not,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
 import { ActorService } from './actor.service';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { AuthorizedFetchService } from '../../federation/services/authorized-fetch.service';
+import { NotificationService } from '../../federation/services/notification.service';
+import { BlockService } from './block.service';
 import { Temporal } from '@js-temporal/polyfill';
 import { Mention } from 'src/entities/mention.entity';
 import { Tag } from 'src/entities/tag.entity';
+import { TimelinePost } from 'src/entities/timeline-post.entity';
 import { MarkdownService } from './markdown.service';
+import { TagService } from './tag.service';
 
 interface PaginationParameter {
   cursor: string | null;
@@ -57,25 +87,130 @@ export class NoteService {
 
     private actorService: ActorService,
     private markdownService: MarkdownService,
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
+    private blockService: BlockService,
+    private notificationService: NotificationService,
 
     @Inject(FEDIFY_FEDERATION)
     private federation: Federation<unknown>,
   ) {}
 
-  async getPublicTimelineNotes({ ...pagination }): Promise<Note[]> {
+  /**
+   * Public notes, newest first. Notes received only through a relay are
+   * left to the federated timeline.
+   */
+  async getPublicTimelineNotes({
+    viewer,
+    federated = false,
+    ...pagination
+  }: {
+    viewer?: Actor | null;
+    federated?: boolean;
+  } & Partial<PaginationParameter>): Promise<Note[]> {
     const { limit, cursor } = pagination;
     const offset = parseInt(cursor || '0');
 
-    const notes = await this.noteRepository.find({
-      relations: ['author', 'sharedNote', 'sharedNote.author'],
-      order: {
-        createdAt: 'DESC',
-      },
-      take: limit,
-      skip: offset,
-    });
+    const query = this.noteRepository
+      .createQueryBuilder('note')
+      .leftJoinAndSelect('note.author', 'author')
+      .leftJoinAndSelect('note.sharedNote', 'sharedNote')
+      .leftJoinAndSelect('sharedNote.author', 'sharedNoteAuthor')
+      .where('note.visibility = :visibility', { visibility: 'public' })
+      .orderBy('note.createdAt', 'DESC')
+      .take(limit)
+      .skip(offset);
+    if (!federated) {
+      query.andWhere('note.relayId IS NULL');
+    }
+    await this.#excludeHiddenAuthors(query, viewer);
 
-    return notes;
+    return query.getMany();
+  }
+
+  /**
+   * Public notes carrying a hashtag, newest first
+   */
+  async getTagNotes(
+    tagId: string,
+    { viewer, ...pagination }: { viewer?: Actor | null } & PaginationParameter,
+  ): Promise<PaginationResult<Note>> {
+    const { cursor, limit } = pagination;
+
+    const query = this.noteRepository
+      .createQueryBuilder('note')
+      .innerJoin('note.tagEntities', 'tag', 'tag.id = :tagId', { tagId })
+      .leftJoinAndSelect('note.author', 'author')
+      .leftJoinAndSelect('note.sharedNote', 'sharedNote')
+      .leftJoinAndSelect('sharedNote.author', 'sharedNoteAuthor')
+      .leftJoinAndSelect('note.poll', 'poll')
+      .where('note.visibility = :visibility', { visibility: 'public' })
+      .orderBy('note.publishedAt', 'DESC')
+      .addOrderBy('note.id', 'DESC')
+      .take(limit + 1);
+    await this.#excludeHiddenAuthors(query, viewer);
+
+    if (cursor) {
+      const separator = cursor.lastIndexOf('_');
+      const publishedAt = new Date(cursor.slice(0, separator));
+      const id = cursor.slice(separator + 1);
+      if (separator > 0 && !isNaN(publishedAt.getTime())) {
+        query.andWhere('(note.publishedAt, note.id) < (:publishedAt, :id)', {
+          publishedAt,
+          id,
+        });
+      }
+    }
+
+    const notes = await query.getMany();
+    const items = notes.slice(0, limit);
+    const lastItem = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: lastItem
+        ? `${lastItem.publishedAt.toISOString()}_${lastItem.id}`
+        : null,
+      last: notes.length <= limit,
+    };
+  }
+
+  async countTagNotes(tagId: string): Promise<number> {
+    return this.noteRepository
+      .createQueryBuilder('note')
+      .innerJoin('note.tagEntities', 'tag', 'tag.id = :tagId', { tagId })
+      .where('note.visibility = :visibility', { visibility: 'public' })
+      .getCount();
+  }
+
+  // Keep authors on silenced (or suspended) domains off public listings, as
+  // well as actors the viewer blocked or muted (or who blocked the viewer)
+  async #excludeHiddenAuthors(
+    query: SelectQueryBuilder<Note>,
+    viewer?: Actor | null,
+  ): Promise<void> {
+    const silencedDomains = await this.domainBlockService.getSilencedDomains();
+    if (silencedDomains.length > 0) {
+      // actors.domain holds the origin, e.g. https://example.com
+      const authorHost = `regexp_replace(author.domain, '^https?://([^/:]+).*$', '\\1')`;
+      query.andWhere(
+        `NOT EXISTS (SELECT 1 FROM unnest(ARRAY[:...silencedDomains]::text[]) AS blocked(domain) WHERE author.isLocal = false AND (${authorHost} = blocked.domain OR ${authorHost} LIKE '%.' || blocked.domain))`,
+        { silencedDomains },
+      );
+    }
+
+    if (viewer) {
+      const hiddenActorIds = await this.blockService.getHiddenActorIds(viewer);
+      if (hiddenActorIds.length > 0) {
+        query
+          .andWhere('note.authorId NOT IN (:...hiddenActorIds)', {
+            hiddenActorIds,
+          })
+          .andWhere(
+            '(sharedNote.id IS NULL OR sharedNote.authorId NOT IN (:...hiddenActorIds))',
+          );
+      }
+    }
   }
 
   async getHomeTimelineNotes({
@@ -111,7 +246,14 @@ export class NoteService {
     return notes;
   }
 
-  async persistNote(apNote: APNote): Promise<Note | null> {
+  /**
+   * Persist a remote note. A quoted note that is not cached yet is fetched
+   * as well, unless `fetchQuote` is false.
+   */
+  async persistNote(
+    apNote: APNote | Question,
+    { fetchQuote = true }: { fetchQuote?: boolean } = {},
+  ): Promise<Note | null> {
     const apNoteId = apNote.id;
     if (!apNoteId) return null;
 
@@ -146,6 +288,17 @@ export class NoteService {
     const source = apSource?.content?.toString() ?? undefined;
     const mediaType = apSource?.mediaType || 'text/html';
 
+    // Link replies to their parent when we already know about it
+    const inReplyToUri = apNote.replyTargetId?.href;
+    const parent = inReplyToUri
+      ? await this.noteRepository.findOne({ where: { iri: inReplyToUri } })
+      : null;
+
+    const quoteUri = await this.#getQuoteUri(apNote);
+    const quotedNote = quoteUri
+      ? await this.#resolveQuotedNote(quoteUri, fetchQuote)
+      : null;
+
     note = this.noteRepository.create({
       content: sanitizedContent,
       source,
@@ -154,16 +307,100 @@ export class NoteService {
       actorId: actor?.id,
       authorId: actor?.id,
       iri,
-      visibility: this.classifyVisibility(apNote),
+      inReplyToUri,
+      inReplyToId: parent?.id,
+      quoteUri,
+      quotedNoteId: quotedNote?.id ?? null,
+      visibility: this.classifyVisibility(apNote, actor),
+      recipients: this.getRecipients(apNote),
       url: apNote?.url?.href,
       publishedAt: apNote.published,
     } as DeepPartial<Note>);
 
     await this.noteRepository.save(note);
 
+    if (parent) {
+      await this.noteRepository.increment({ id: parent.id }, 'repliesCount', 1);
+    }
+
     return note;
   }
 
+  // quoteUrl covers Misskey and Fedibird quotes, FEP-e232 links the rest
+  async #getQuoteUri(apNote: APNote | Question): Promise<string | undefined> {
+    if (apNote.quoteUrl) return apNote.quoteUrl.href;
+
+    try {
+      for await (const tag of apNote.getTags()) {
+        if (
+          tag instanceof Link &&
+          tag.href &&
+          (tag.mediaType?.startsWith('application/ld+json') ||
+            tag.mediaType === 'application/activity+json')
+        ) {
+          return tag.href.href;
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to read tags of ${apNote.id?.href}:`, error);
+    }
+
+    return undefined;
+  }
+
+  async #resolveQuotedNote(
+    quoteUri: string,
+    fetchQuote: boolean,
+  ): Promise<Note | null> {
+    const quotedNote = await this.noteRepository.findOne({
+      where: { iri: quoteUri },
+    });
+    if (
+      quotedNote ||
+      !fetchQuote ||
+      (await this.domainBlockService.isSuspended(quoteUri))
+    ) {
+      return quotedNote;
+    }
+
+    try {
+      const object = await this.authorizedFetchService.lookupObject(quoteUri);
+      if (object instanceof APNote) {
+        return await this.persistNote(object, { fetchQuote: false });
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch quoted note ${quoteUri}:`, error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Quoted notes of the given notes that the viewer may see, by ID
+   */
+  async getQuotedNotes(
+    notes: Note[],
+    viewer: Actor | null,
+  ): Promise<Map<string, Note>> {
+    const result = new Map<string, Note>();
+    const quotedNoteIds = notes
+      .map((note) => note.quotedNoteId)
+      .filter((id): id is string => !!id);
+    if (quotedNoteIds.length === 0) return result;
+
+    const quotedNotes = await this.noteRepository.find({
+      where: { id: In(quotedNoteIds) },
+      relations: ['author'],
+    });
+    for (const quotedNote of quotedNotes) {
+      if (await this.isVisibleTo(quotedNote, viewer)) {
+        result.set(quotedNote.id, quotedNote);
+      }
+    }
+
+    return result;
+  }
+
   async persistSharedNote(announce: APAnnounce) {
     if (announce.id == null || announce.actorId == null) {
       console.debug('Missing required fields (id, actor): {announce}', {
@@ -230,6 +467,7 @@ export class NoteService {
       ...values,
     } as DeepPartial<Note>);
     await this.noteRepository.save(sharedNote);
+    await this.noteRepository.increment({ id: note.id }, 'sharesCount', 1);
 
     share = await this.noteRepository.findOne({
       where: {
@@ -241,23 +479,180 @@ export class NoteService {
     return share;
   }
 
-  async shareNote(actor: Actor, note: Note) {
-    const sharedNote = this.noteRepository.create({
+  /**
+   * Share (boost) a note as a local actor, add the share to the actor's
+   * timeline and deliver Announce to its followers and the note author
+   */
+  async shareNote(actor: Actor, note: Note): Promise<Note> {
+    const existing = await this.noteRepository.findOne({
+      where: { authorId: actor.id, sharedNoteId: note.id },
+    });
+    if (existing) return existing;
+
+    // Shares follow the actor's default visibility, but are never direct
+    const defaultVisibility = actor.user?.defaultVisibility;
+    const share = this.noteRepository.create({
       sharedNoteId: note.id,
       authorId: actor.id,
-      visibility: 'unlisted',
+      visibility:
+        defaultVisibility === 'unlisted' || defaultVisibility === 'followers'
+          ? defaultVisibility
+          : 'public',
       publishedAt: new Date(),
     } as DeepPartial<Note>);
+    await this.noteRepository.save(share);
 
-    await this.noteRepository.save(sharedNote);
+    const ctx = await this.#createFederationContext();
+    share.iri = ctx.getObjectUri(APAnnounce, { id: share.id }).href;
+    await this.noteRepository.update(share.id, { iri: share.iri });
+
+    const manager = this.noteRepository.manager;
+    await manager.getRepository(TimelinePost).save(
+      manager.getRepository(TimelinePost).create({
+        authorId: actor.id,
+        noteId: share.id,
+      }),
+    );
+    await this.noteRepository.increment({ id: note.id }, 'sharesCount', 1);
+    if (actor.userId) {
+      await manager
+        .getRepository(User)
+        .increment({ id: actor.userId }, 'notesCount', 1);
+    }
+
+    await this.notificationService.notify({
+      type: 'share',
+      recipientId: note.authorId,
+      actorId: actor.id,
+      noteId: note.id,
+    });
+
+    share.author = actor;
+    share.sharedNote = note;
+    await this.#deliverShareActivity(actor, note, toAPAnnounce(ctx, share));
+
+    return share;
+  }
+
+  /**
+   * Remove a local actor's share of a note and deliver Undo(Announce)
+   */
+  async unshareNote(actor: Actor, note: Note): Promise<boolean> {
+    const share = await this.noteRepository.findOne({
+      where: { authorId: actor.id, sharedNoteId: note.id },
+    });
+    if (!share) return false;
 
-    return sharedNote;
+    await this.#removeShare(share);
+    if (actor.userId) {
+      await this.noteRepository.manager
+        .getRepository(User)
+        .decrement({ id: actor.userId }, 'notesCount', 1);
+    }
+
+    if (share.iri) {
+      const ctx = await this.#createFederationContext();
+      share.author = actor;
+      share.sharedNote = note;
+      await this.#deliverShareActivity(
+        actor,
+        note,
+        new Undo({
+          id: new URL(`${share.iri}/undo`),
+          actor: ctx.getActorUri(actor.id),
+          object: toAPAnnounce(ctx, share),
+          to: PUBLIC_COLLECTION,
+          cc: ctx.getFollowersUri(actor.id),
+        }),
+      );
+    }
+
+    return true;
   }
 
-  async getNoteById(noteId: string): Promise<Note | null> {
+  /**
+   * Remove a share after an Undo(Announce) from the remote actor who made it
+   */
+  async deleteRemoteShare(actor: Actor, iri: string): Promise<boolean> {
+    const share = await this.noteRepository.findOne({
+      where: { authorId: actor.id, iri, sharedNoteId: Not(IsNull()) },
+    });
+    if (!share) return false;
+
+    await this.#removeShare(share);
+
+    return true;
+  }
+
+  /**
+   * IDs of the given notes that an actor has shared
+   */
+  async getSharedNoteIds(actor: Actor, noteIds: string[]): Promise<string[]> {
+    if (noteIds.length === 0) return [];
+
+    const shares = await this.noteRepository.find({
+      select: ['sharedNoteId'],
+      where: { authorId: actor.id, sharedNoteId: In(noteIds) },
+    });
+
+    return shares.map((share) => share.sharedNoteId);
+  }
+
+  async #removeShare(share: Note) {
+    await this.noteRepository.manager
+      .getRepository(TimelinePost)
+      .delete({ noteId: share.id });
+    await this.noteRepository.delete(share.id);
+    await this.noteRepository.decrement(
+      { id: share.sharedNoteId },
+      'sharesCount',
+      1,
+    );
+  }
+
+  // Shares go to the sharer's followers and to the author of the shared note
+  async #deliverShareActivity(
+    actor: Actor,
+    note: Note,
+    activity: APAnnounce | Undo,
+  ) {
+    const ctx = await this.#createFederationContext();
+    await ctx.sendActivity({ identifier: actor.id }, 'followers', activity, {
+      preferSharedInbox: true,
+    });
+
+    const author = note.author;
+    if (
+      author &&
+      !author.isLocal &&
+      author.inboxUrl &&
+      !(await this.domainBlockService.isSuspended(author.inboxUrl)) &&
+      !(await this.blockService.isBlocking(author, actor))
+    ) {
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        {
+          id: new URL(author.iri ?? author.actorId),
+          inboxId: new URL(author.inboxUrl),
+        },
+        activity,
+      );
+    }
+  }
+
+  async getNoteById(
+    noteId: string,
+    {
+      withDeleted = false,
+      withMentions = false,
+    }: { withDeleted?: boolean; withMentions?: boolean } = {},
+  ): Promise<Note | null> {
     const note = await this.noteRepository.findOne({
       where: { id: noteId },
-      relations: ['author'],
+      relations: withMentions
+        ? ['author', 'mentions', 'mentions.actor']
+        : ['author'],
+      withDeleted,
     });
     return note;
   }
@@ -265,7 +660,7 @@ export class NoteService {
   async getSharedNoteById(noteId: string): Promise<Note | null> {
     const note = await this.noteRepository.findOne({
       where: { id: noteId, sharedNoteId: Not(IsNull()) },
-      relations: ['author', 'sharedNote', 'author.user'],
+      relations: ['author', 'sharedNote', 'sharedNote.author', 'author.user'],
     });
     return note;
   }
@@ -282,6 +677,7 @@ export class NoteService {
         if (mention) {
           mentions.push(mention);
         }
+        await this.notificationService.notifyMention(note, actor);
       }),
     );
 
@@ -293,11 +689,21 @@ export class NoteService {
     visibleTo,
   }: {
     actor: Actor;
-    visibleTo?: Actor;
+    visibleTo?: Actor | null;
   }): Promise<Note[]> {
+    // Direct notes are only listed in conversations
+    const visibilities: Note['visibility'][] = ['public', 'unlisted'];
+    if (
+      visibleTo &&
+      (visibleTo.id === actor.id || (await this.#isFollowing(visibleTo, actor)))
+    ) {
+      visibilities.push('followers');
+    }
+
     const notes = await this.noteRepository.find({
       where: {
         authorId: actor.id,
+        visibility: In(visibilities),
       },
       relations: ['author'],
       order: {
@@ -308,13 +714,654 @@ export class NoteService {
     return notes;
   }
 
-  classifyVisibility(apNote: APNote): string {
-    return 'public';
+  /**
+   * Public and unlisted notes and shares of an actor for its outbox, newest
+   * first. The cursor is the `<publishedAt>_<id>` key of the last item of the
+   * previous page.
+   */
+  async getOutboxNotes(
+    actorId: string,
+    pagination: PaginationParameter,
+  ): Promise<PaginationResult<Note>> {
+    const { cursor, limit } = pagination;
+
+    const query = this.#createOutboxQuery(actorId)
+      .leftJoinAndSelect('note.author', 'author')
+      .leftJoinAndSelect('author.user', 'user')
+      .leftJoinAndSelect('sharedNote.author', 'sharedNoteAuthor')
+      .leftJoinAndSelect('note.mentions', 'mentions')
+      .leftJoinAndSelect('mentions.actor', 'mentionedActor')
+      .leftJoinAndSelect('note.poll', 'poll')
+      .orderBy('note.publishedAt', 'DESC')
+      .addOrderBy('note.id', 'DESC')
+      .take(limit + 1);
+
+    if (cursor) {
+      const separator = cursor.lastIndexOf('_');
+      const publishedAt = new Date(cursor.slice(0, separator));
+      const id = cursor.slice(separator + 1);
+      if (separator > 0 && !isNaN(publishedAt.getTime())) {
+        query.andWhere('(note.publishedAt, note.id) < (:publishedAt, :id)', {
+          publishedAt,
+          id,
+        });
+      }
+    }
+
+    const notes = await query.getMany();
+    const items = notes.slice(0, limit);
+    const lastItem = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: lastItem
+        ? `${lastItem.publishedAt.toISOString()}_${lastItem.id}`
+        : null,
+      last: notes.length <= limit,
+    };
+  }
+
+  /**
+   * Number of items in an actor's outbox, counted the way getOutboxNotes
+   * pages over them
+   */
+  async countOutboxNotes(actorId: string): Promise<number> {
+    return this.#createOutboxQuery(actorId).getCount();
+  }
+
+  #createOutboxQuery(actorId: string) {
+    return (
+      this.noteRepository
+        .createQueryBuilder('note')
+        .leftJoinAndSelect('note.sharedNote', 'sharedNote')
+        .where('note.authorId = :actorId', { actorId })
+        .andWhere('note.visibility IN (:...visibilities)', {
+          visibilities: ['public', 'unlisted'],
+        })
+        // Shares of notes that have since been deleted are skipped
+        .andWhere(
+          new Brackets((qb) =>
+            qb
+              .where('note.sharedNoteId IS NULL')
+              .orWhere('sharedNote.iri IS NOT NULL'),
+          ),
+        )
+    );
+  }
+
+  /**
+   * Whether a note may be shown to the given actor (`null` for anonymous requests)
+   */
+  async isVisibleTo(note: Note, viewer: Actor | null): Promise<boolean> {
+    if (note.visibility === 'public' || note.visibility === 'unlisted') {
+      return true;
+    }
+    if (!viewer) return false;
+    if (note.authorId === viewer.id) return true;
+
+    const viewerIri = viewer.iri ?? viewer.actorId;
+    if (viewerIri && (note.recipients ?? []).includes(viewerIri)) return true;
+
+    const mentioned = await this.mentionRepository.count({
+      where: { note: { id: note.id }, actor: { id: viewer.id } },
+    });
+    if (mentioned > 0) return true;
+
+    if (note.visibility === 'followers' && note.author) {
+      return this.#isFollowing(viewer, note.author);
+    }
+
+    return false;
   }
 
-  async deleteNote(actor: Actor, noteAttributes: Partial<Note>) {}
+  async #isFollowing(follower: Actor, following: Actor): Promise<boolean> {
+    const count = await this.followRepository.count({
+      where: {
+        followerId: follower.id,
+        followingId: following.id,
+        status: 'accepted',
+      },
+    });
+    return count > 0;
+  }
 
-  async updateNote(actor: Actor, noteAttributes: Partial<Note>) {}
+  /**
+   * Collect the addressed actors and collections of a note, except the public one
+   */
+  getRecipients(apNote: APNote | Question): string[] {
+    return Array.from(
+      new Set(
+        [...apNote.toIds, ...apNote.ccIds]
+          .map((url) => url.href)
+          .filter((href) => href !== PUBLIC_COLLECTION.href),
+      ),
+    );
+  }
+
+  /**
+   * Derive the visibility of an incoming note from its addressing
+   */
+  classifyVisibility(
+    apNote: APNote | Question,
+    author?: Actor | null,
+  ): Note['visibility'] {
+    const to = new Set(apNote.toIds.map((url) => url.href));
+    const cc = new Set(apNote.ccIds.map((url) => url.href));
+
+    if (to.has(PUBLIC_COLLECTION.href)) return 'public';
+    if (cc.has(PUBLIC_COLLECTION.href)) return 'unlisted';
+    if (
+      author?.followersUrl != null &&
+      (to.has(author.followersUrl) || cc.has(author.followersUrl))
+    ) {
+      return 'followers';
+    }
+    return 'direct';
+  }
+
+  /**
+   * Delete a local note and federate a Delete activity.
+   * The row is soft-deleted so the object dispatcher can serve a Tombstone.
+   */
+  async deleteNote(actor: Actor, note: Note): Promise<void> {
+    const mentions = await this.mentionRepository.find({
+      where: { note: { id: note.id } },
+      relations: ['actor'],
+    });
+    const mentionedActors = mentions
+      .map((mention) => mention.actor)
+      .filter((mentioned) => mentioned && !mentioned.isLocal);
+
+    await this.#detachNote(note);
+    await this.noteRepository.update(note.id, {
+      content: '',
+      source: '',
+      attachments: [],
+      tags: [],
+    });
+    await this.noteRepository.softDelete(note.id);
+    if (actor.userId) {
+      await this.noteRepository.manager
+        .getRepository(User)
+        .decrement({ id: actor.userId }, 'notesCount', 1);
+    }
+
+    const ctx = await this.#createFederationContext();
+    const iri = note.iri
+      ? new URL(note.iri)
+      : ctx.getObjectUri(APNote, { noteId: note.id });
+    const mentionedIds = mentionedActors.map(
+      (mentioned) => new URL(mentioned.iri ?? mentioned.actorId),
+    );
+    const isDirect = note.visibility === 'direct';
+    const followersUri = ctx.getFollowersUri(actor.id);
+
+    // The Delete is addressed like the note itself, so that a non-public
+    // note is not announced publicly when it is deleted
+    const addressing = {
+      public: {
+        tos: [PUBLIC_COLLECTION],
+        ccs: [followersUri, ...mentionedIds],
+      },
+      unlisted: {
+        tos: [followersUri],
+        ccs: [PUBLIC_COLLECTION, ...mentionedIds],
+      },
+      followers: { tos: [followersUri], ccs: mentionedIds },
+      direct: { tos: mentionedIds, ccs: [] },
+      none: { tos: mentionedIds, ccs: [] },
+    }[note.visibility];
+
+    const deleteActivity = new Delete({
+      id: new URL('#delete', iri),
+      actor: ctx.getActorUri(actor.id),
+      object: new Tombstone({
+        id: iri,
+        deleted: Temporal.Now.instant(),
+      }),
+      ...addressing,
+    });
+
+    if (!isDirect) {
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        'followers',
+        deleteActivity,
+        { preferSharedInbox: true },
+      );
+    }
+
+    const recipients = await this.domainBlockService.excludeSuspendedRecipients(
+      mentionedActors
+        .filter((mentioned) => mentioned.inboxUrl)
+        .map((mentioned) => ({
+          id: new URL(mentioned.iri ?? mentioned.actorId),
+          inboxId: new URL(mentioned.inboxUrl),
+        })),
+    );
+    if (recipients.length > 0) {
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        recipients,
+        deleteActivity,
+      );
+    }
+  }
+
+  /**
+   * Remove a persisted remote note after its author sent a Delete activity
+   */
+  async deleteRemoteNote(note: Note): Promise<void> {
+    await this.#detachNote(note);
+    await this.noteRepository.delete(note.id);
+  }
+
+  /**
+   * Remove the notes and shares of a deleted remote actor along with the
+   * mentions of it in other notes
+   */
+  async purgeRemoteActor(actor: Actor): Promise<number> {
+    if (actor.isLocal) return 0;
+
+    const notes = await this.noteRepository.find({
+      where: { authorId: actor.id },
+    });
+    for (const note of notes) {
+      await this.deleteRemoteNote(note);
+    }
+
+    await this.mentionRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"actorId" = :actorId', { actorId: actor.id })
+      .execute();
+
+    return notes.length;
+  }
+
+  /**
+   * Remove everything that references a note: shares of it, timeline
+   * entries, mentions, likes, its poll and hashtag links
+   */
+  async #detachNote(note: Note): Promise<void> {
+    const manager = this.noteRepository.manager;
+
+    if (note.inReplyToId) {
+      await this.noteRepository.decrement(
+        { id: note.inReplyToId },
+        'repliesCount',
+        1,
+      );
+    }
+
+    const shares = await this.noteRepository.find({
+      select: ['id'],
+      where: { sharedNoteId: note.id },
+    });
+    const shareIds = shares.map((share) => share.id);
+
+    await manager
+      .getRepository(TimelinePost)
+      .delete({ noteId: In([note.id, ...shareIds]) });
+    if (shareIds.length > 0) {
+      await this.noteRepository.delete({ id: In(shareIds) });
+    }
+
+    await this.mentionRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"noteId" = :noteId', { noteId: note.id })
+      .execute();
+
+    await manager.getRepository(Like).delete({ noteId: note.id });
+    await manager.getRepository(Pin).delete({ noteId: note.id });
+    await manager.getRepository(Poll).delete({ noteId: note.id });
+
+    const withTags = await this.noteRepository.findOne({
+      where: { id: note.id },
+      relations: ['tagEntities'],
+    });
+    if (withTags && withTags.tagEntities.length > 0) {
+      await this.noteRepository
+        .createQueryBuilder()
+        .relation(Note, 'tagEntities')
+        .of(note.id)
+        .remove(withTags.tagEntities.map((tag) => tag.id));
+      await manager
+        .getRepository(Tag)
+        .decrement(
+          { id: In(withTags.tagEntities.map((tag) => tag.id)) },
+          'usageCount',
+          1,
+        );
+    }
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+
+  /**
+   * Edit a local note, keep the previous version as a revision and
+   * federate an Update activity. Edits that change nothing are ignored.
+   */
+  async updateNote(
+    actor: Actor,
+    note: Note,
+    noteAttributes: {
+      content?: string;
+      contentType?: 'text/plain' | 'text/markdown';
+      contentWarning?: string;
+      sensitive?: boolean;
+    },
+  ): Promise<Note> {
+    const rawContent = noteAttributes.content;
+    const contentType =
+      noteAttributes.contentType ??
+      (note.mediaType === 'text/markdown' ? 'text/markdown' : 'text/plain');
+    const content =
+      rawContent === undefined
+        ? note.content
+        : contentType === 'text/markdown'
+          ? this.markdownService.render(rawContent)
+          : this.markdownService.escapeHtml(rawContent);
+
+    if (
+      content === note.content &&
+      (noteAttributes.contentWarning ?? note.contentWarning ?? '') ===
+        (note.contentWarning ?? '') &&
+      (noteAttributes.sensitive ?? note.sensitive) === note.sensitive
+    ) {
+      return note;
+    }
+
+    await this.#saveRevision(note);
+
+    if (rawContent !== undefined) {
+      note.content = content;
+      note.source = contentType === 'text/markdown' ? rawContent : '';
+      note.mediaType = contentType;
+
+      const hashtags = NoteService.extractHashtagNames(rawContent);
+      note.tags = hashtags.map((tagName) => ({
+        type: 'Hashtag',
+        href: TagService.getTagHref(tagName),
+        name: `#${tagName}`,
+      }));
+      await this.upsertAndAttachTags(note, hashtags);
+
+      // As in TimelineService.createNote, the authors of the replied and
+      // quoted notes stay addressed even when the text no longer names them
+      const mentionedActors = (
+        await this.resolveMentionedActors(rawContent)
+      ).filter((mentioned) => mentioned.id !== actor.id);
+      for (const relatedNoteId of [note.inReplyToId, note.quotedNoteId]) {
+        if (!relatedNoteId) continue;
+        const relatedNote = await this.getNoteById(relatedNoteId);
+        if (
+          relatedNote?.author &&
+          relatedNote.author.id !== actor.id &&
+          !mentionedActors.some((item) => item.id === relatedNote.author.id)
+        ) {
+          mentionedActors.push(relatedNote.author);
+        }
+      }
+      await this.#replaceMentions(note, mentionedActors);
+    }
+    if (noteAttributes.contentWarning !== undefined) {
+      note.contentWarning = noteAttributes.contentWarning;
+    }
+    if (noteAttributes.sensitive !== undefined) {
+      note.sensitive = noteAttributes.sensitive;
+    }
+    note.editedAt = new Date();
+    await this.noteRepository.save(note);
+
+    const updated = await this.noteRepository.findOne({
+      where: { id: note.id },
+      relations: ['author', 'mentions', 'mentions.actor'],
+    });
+
+    const ctx = await this.#createFederationContext();
+    const apNote = toAPNote(ctx, updated!);
+    const update = new Update({
+      id: new URL(
+        `#update-${updated!.editedAt.getTime()}`,
+        apNote.id ?? ctx.origin,
+      ),
+      actor: ctx.getActorUri(actor.id),
+      object: apNote,
+      updated: apNote.updated,
+      tos: apNote.toIds,
+      ccs: apNote.ccIds,
+    });
+
+    if (updated!.visibility !== 'direct') {
+      await ctx.sendActivity({ identifier: actor.id }, 'followers', update, {
+        preferSharedInbox: true,
+      });
+    }
+
+    const recipients = await this.domainBlockService.excludeSuspendedRecipients(
+      (updated!.mentions ?? [])
+        .map((mention) => mention.actor)
+        .filter((mentioned) => mentioned && !mentioned.isLocal)
+        .filter((mentioned) => mentioned.inboxUrl)
+        .map((mentioned) => ({
+          id: new URL(mentioned.iri ?? mentioned.actorId),
+          inboxId: new URL(mentioned.inboxUrl),
+        })),
+    );
+    if (recipients.length > 0) {
+      await ctx.sendActivity({ identifier: actor.id }, recipients, update);
+    }
+
+    return updated!;
+  }
+
+  /**
+   * Apply an Update(Note) received from a remote author to the cached note
+   */
+  async applyRemoteUpdate(
+    note: Note,
+    apNote: APNote,
+    mentionedActors: Actor[],
+    hashtagNames: string[],
+  ): Promise<Note> {
+    const rawContent = apNote.content?.toString() || '';
+    const apSource = apNote.source;
+    const content = this.markdownService.sanitize(rawContent);
+
+    // An Update that changes nothing visible does not leave a revision
+    if (
+      content !== note.content ||
+      (apNote.summary?.toString() ?? '') !== (note.contentWarning ?? '') ||
+      (apNote.sensitive || false) !== note.sensitive
+    ) {
+      await this.#saveRevision(note);
+    }
+
+    note.content = content;
+    note.source = apSource?.content?.toString() ?? '';
+    note.mediaType = apSource?.mediaType || 'text/html';
+    note.contentWarning = apNote.summary?.toString() ?? '';
+    note.sensitive = apNote.sensitive || false;
+    note.editedAt = convertTemporalToDate(toTemporalInstance(apNote.updated));
+    await this.noteRepository.save(note);
+
+    await this.upsertAndAttachTags(
+      note,
+      hashtagNames.map((name) => (name.startsWith('#') ? name.slice(1) : name)),
+    );
+    await this.#replaceMentions(note, mentionedActors);
+
+    return note;
+  }
+
+  /**
+   * Return the ancestors and descendants of a note within its thread
+   */
+  async getNoteContext(
+    note: Note,
+    viewer: Actor | null = null,
+  ): Promise<{ ancestors: Note[]; descendants: Note[] }> {
+    const ancestors: Note[] = [];
+    let parentId = note.inReplyToId;
+    while (parentId && ancestors.length < 40) {
+      const parent = await this.noteRepository.findOne({
+        where: { id: parentId },
+        relations: ['author'],
+      });
+      if (!parent || !(await this.isVisibleTo(parent, viewer))) break;
+      ancestors.unshift(parent);
+      parentId = parent.inReplyToId;
+    }
+
+    const descendants: Note[] = [];
+    let parentIds = [note.id];
+    while (parentIds.length > 0 && descendants.length < 200) {
+      const replies = await this.noteRepository.find({
+        where: { inReplyToId: In(parentIds) },
+        relations: ['author'],
+        order: { createdAt: 'ASC' },
+      });
+      const visibleReplies: Note[] = [];
+      for (const reply of replies) {
+        if (await this.isVisibleTo(reply, viewer)) {
+          visibleReplies.push(reply);
+        }
+      }
+      descendants.push(...visibleReplies);
+      parentIds = visibleReplies.map((reply) => reply.id);
+    }
+
+    return { ancestors, descendants };
+  }
+
+  async getReplies(
+    noteId: string,
+    pagination: PaginationParameter,
+  ): Promise<PaginationResult<Note>> {
+    const { cursor, limit } = pagination;
+    const offset = parseInt(cursor || '0');
+
+    const [replies, total] = await this.noteRepository.findAndCount({
+      where: {
+        inReplyToId: noteId,
+        visibility: In(['public', 'unlisted']),
+      },
+      relations: ['author'],
+      order: { createdAt: 'ASC' },
+      take: limit,
+      skip: offset,
+    });
+
+    return {
+      items: replies,
+      nextCursor: (limit + offset).toString(),
+      last: offset + limit >= total,
+    };
+  }
+
+  async countReplies(noteId: string): Promise<number> {
+    return this.noteRepository.count({
+      where: {
+        inReplyToId: noteId,
+        visibility: In(['public', 'unlisted']),
+      },
+    });
+  }
+
+  async getNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+    return this.noteRepository.manager.getRepository(NoteRevision).find({
+      where: { noteId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Resolve @user and @user@domain handles in raw content to actors,
+   * fetching remote actors that are not cached yet
+   */
+  async resolveMentionedActors(rawContent: string): Promise<Actor[]> {
+    const handles = new Set(
+      Array.from(
+        rawContent.matchAll(/(?<![\w/@])@([\w.-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g),
+      ).map((match) => match[1]),
+    );
+
+    const actors: Actor[] = [];
+    for (const handle of handles) {
+      let actor = await this.actorService.getActorByUsername(handle);
+      if (
+        !actor &&
+        handle.includes('@') &&
+        !(await this.domainBlockService.isSuspended(handle))
+      ) {
+        try {
+          const apActor = await this.authorizedFetchService.lookupObject(
+            `@${handle}`,
+          );
+          if (
+            apActor instanceof Person ||
+            apActor instanceof Service ||
+            apActor instanceof Application
+          ) {
+            actor = await this.actorService.persistActor(apActor);
+          }
+        } catch (error) {
+          console.warn(`Failed to resolve mention @${handle}:`, error);
+        }
+      }
+      if (actor && !actors.some((item) => item.id === actor!.id)) {
+        actors.push(actor);
+      }
+    }
+
+    return actors;
+  }
+
+  async #saveRevision(note: Note): Promise<void> {
+    const revisionRepository =
+      this.noteRepository.manager.getRepository(NoteRevision);
+    const revision = revisionRepository.create({
+      noteId: note.id,
+      content: note.content,
+      source: note.source,
+      mediaType: note.mediaType,
+      contentWarning: note.contentWarning,
+    });
+    await revisionRepository.save(revision);
+  }
+
+  async #replaceMentions(note: Note, actors: Actor[]): Promise<void> {
+    await this.mentionRepository
+      .createQueryBuilder()
+      .delete()
+      .where('"noteId" = :noteId', { noteId: note.id })
+      .execute();
+    await this.addMentions(note, actors);
+  }
+
+  /**
+   * Extract hashtag names (without the leading #) from raw note content
+   */
+  static extractHashtagNames(rawContent: string): string[] {
+    const hashtagMatches = Array.from(
+      rawContent.matchAll(/#([\p{L}\d_]{1,50})/gu),
+    );
+    return Array.from(
+      new Set(
+        hashtagMatches.map((match) => match[1]).filter((val) => Boolean(val)),
+      ),
+    );
+  }
 
   /**
    * Extract hashtag names from ActivityPub tag objects (유연하게 개선)
@@ -334,17 +1381,31 @@ export class NoteService {
   }
 
   /**
-   * Upsert Tag entities and link them to the note
+   * Link the note to exactly the given hashtags, creating missing Tag
+   * entities and keeping their usage counters in step
    */
   async upsertAndAttachTags(note: Note, tagNames: string[]) {
-    if (!Array.isArray(tagNames) || tagNames.length === 0) return;
-    const normalizedNames = tagNames.map((n) =>
-      n.startsWith('#') ? n.slice(1) : n,
-    );
+    // Normalized name => name as first written
+    const displayNames = new Map<string, string>();
+    for (const tagName of Array.isArray(tagNames) ? tagNames : []) {
+      const displayName = tagName.startsWith('#') ? tagName.slice(1) : tagName;
+      const name = TagService.normalizeTagName(displayName);
+      if (name && !displayNames.has(name)) displayNames.set(name, displayName);
+    }
+    const normalizedNames = [...displayNames.keys()];
+
     const tagsRepo = this.noteRepository.manager.getRepository(Tag);
-    const existingTags = await tagsRepo.find({
-      where: { name: In(normalizedNames) },
+    const current = await this.noteRepository.findOne({
+      where: { id: note.id },
+      relations: ['tagEntities'],
     });
+    const currentTags = current?.tagEntities ?? [];
+    const currentTagIds = new Set(currentTags.map((tag) => tag.id));
+
+    const existingTags =
+      normalizedNames.length > 0
+        ? await tagsRepo.find({ where: { name: In(normalizedNames) } })
+        : [];
     const existingTagNames = new Set(existingTags.map((tag) => tag.name));
     const newTagNames = normalizedNames.filter(
       (name) => !existingTagNames.has(name),
@@ -352,11 +1413,33 @@ export class NoteService {
     let newTags: Tag[] = [];
     if (newTagNames.length > 0) {
       const newTagEntities = newTagNames.map((name) =>
-        tagsRepo.create({ name }),
+        tagsRepo.create({ name, displayName: displayNames.get(name) }),
       );
       newTags = await tagsRepo.save(newTagEntities);
     }
-    note.tagEntities = [...existingTags, ...newTags];
+    const tags = [...existingTags, ...newTags];
+    note.tagEntities = tags;
     await this.noteRepository.save(note);
+
+    const addedTagIds = tags
+      .filter((tag) => !currentTagIds.has(tag.id))
+      .map((tag) => tag.id);
+    const removedTagIds = currentTags
+      .filter((tag) => !displayNames.has(tag.name))
+      .map((tag) => tag.id);
+    if (addedTagIds.length > 0) {
+      await tagsRepo
+        .createQueryBuilder()
+        .update()
+        .set({
+          usageCount: () => '"usageCount" + 1',
+          lastUsedAt: new Date(),
+        })
+        .where({ id: In(addedTagIds) })
+        .execute();
+    }
+    if (removedTagIds.length > 0) {
+      await tagsRepo.decrement({ id: In(removedTagIds) }, 'usageCount', 1);
+    }
   }
 }
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Add,
+  Document,
+  Federation,
+  Note as APNote,
+  PUBLIC_COLLECTION,
+  Remove,
+} from '@fedify/fedify';
+import { Actor, Note, Pin, Presentation } from 'src/entities';
+
+// Maximum number of notes, and separately presentations, an actor can pin
+export const PIN_LIMIT = 5;
+
+@Injectable()
+export class PinService {
+  constructor(
+    @InjectRepository(Pin)
+    private pinRepository: Repository<Pin>,
+
+    @InjectRepository(Note)
+    private noteRepository: Repository<Note>,
+
+    @InjectRepository(Presentation)
+    private presentationRepository: Repository<Presentation>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+  ) {}
+
+  /**
+   * Pin one of a local actor's own notes to its profile and deliver
+   * Add to its followers
+   */
+  async pinNote(actor: Actor, note: Note): Promise<Pin> {
+    if (note.authorId !== actor.id || note.sharedNoteId) {
+      throw new ForbiddenException('You can only pin your own notes');
+    }
+    if (note.visibility !== 'public' && note.visibility !== 'unlisted') {
+      throw new BadRequestException(
+        'Only public or unlisted notes can be pinned',
+      );
+    }
+
+    const existing = await this.pinRepository.findOne({
+      where: { actorId: actor.id, noteId: note.id },
+    });
+    if (existing) return existing;
+
+    const count = await this.pinRepository.count({
+      where: { actorId: actor.id, noteId: Not(IsNull()) },
+    });
+    if (count >= PIN_LIMIT) {
+      throw new BadRequestException(`You can pin up to ${PIN_LIMIT} notes`);
+    }
+
+    const pin = this.pinRepository.create({
+      actorId: actor.id,
+      noteId: note.id,
+    });
+    await this.pinRepository.save(pin);
+
+    const ctx = await this.#createFederationContext();
+    await this.#sendFeaturedUpdate(
+      actor,
+      pin,
+      note.iri
+        ? new URL(note.iri)
+        : ctx.getObjectUri(APNote, { noteId: note.id }),
+      'add',
+    );
+
+    return pin;
+  }
+
+  async unpinNote(actor: Actor, note: Note): Promise<boolean> {
+    const pin = await this.pinRepository.findOne({
+      where: { actorId: actor.id, noteId: note.id },
+    });
+    if (!pin) return false;
+
+    await this.pinRepository.remove(pin);
+
+    const ctx = await this.#createFederationContext();
+    await this.#sendFeaturedUpdate(
+      actor,
+      pin,
+      note.iri
+        ? new URL(note.iri)
+        : ctx.getObjectUri(APNote, { noteId: note.id }),
+      'remove',
+    );
+
+    return true;
+  }
+
+  /**
+   * Pin one of a local actor's own presentations to its profile and deliver
+   * Add to its followers
+   */
+  async pinPresentation(
+    actor: Actor,
+    presentation: Presentation,
+  ): Promise<Pin> {
+    if (!actor.userId || presentation.userId !== actor.userId) {
+      throw new ForbiddenException('You can only pin your own presentations');
+    }
+
+    const existing = await this.pinRepository.findOne({
+      where: { actorId: actor.id, presentationId: presentation.id },
+    });
+    if (existing) return existing;
+
+    const count = await this.pinRepository.count({
+      where: { actorId: actor.id, presentationId: Not(IsNull()) },
+    });
+    if (count >= PIN_LIMIT) {
+      throw new BadRequestException(
+        `You can pin up to ${PIN_LIMIT} presentations`,
+      );
+    }
+
+    const pin = this.pinRepository.create({
+      actorId: actor.id,
+      presentationId: presentation.id,
+    });
+    await this.pinRepository.save(pin);
+
+    const ctx = await this.#createFederationContext();
+    await this.#sendFeaturedUpdate(
+      actor,
+      pin,
+      ctx.getObjectUri(Document, { presentationId: presentation.id }),
+      'add',
+    );
+
+    return pin;
+  }
+
+  async unpinPresentation(
+    actor: Actor,
+    presentation: Presentation,
+  ): Promise<boolean> {
+    const pin = await this.pinRepository.findOne({
+      where: { actorId: actor.id, presentationId: presentation.id },
+    });
+    if (!pin) return false;
+
+    await this.pinRepository.remove(pin);
+
+    const ctx = await this.#createFederationContext();
+    await this.#sendFeaturedUpdate(
+      actor,
+      pin,
+      ctx.getObjectUri(Document, { presentationId: presentation.id }),
+      'remove',
+    );
+
+    return true;
+  }
+
+  /**
+   * Notes and presentations featured on an actor's profile, most recently
+   * pinned first
+   */
+  async getPins(
+    actor: Actor,
+  ): Promise<{ notes: Note[]; presentations: Presentation[] }> {
+    if (!actor.isLocal) {
+      await this.#linkRemotePins(actor);
+    }
+
+    const pins = await this.pinRepository.find({
+      where: { actorId: actor.id },
+      relations: ['note', 'note.author', 'presentation'],
+      order: { createdAt: 'DESC' },
+    });
+
+    return {
+      notes: pins.map((pin) => pin.note).filter((note): note is Note => !!note),
+      presentations: pins
+        .map((pin) => pin.presentation)
+        .filter((presentation): presentation is Presentation => !!presentation),
+    };
+  }
+
+  async getPinnedNoteIds(actor: Actor): Promise<string[]> {
+    const pins = await this.pinRepository.find({
+      where: { actorId: actor.id, noteId: Not(IsNull()) },
+    });
+
+    return pins.map((pin) => pin.noteId!);
+  }
+
+  /**
+   * Replace a remote actor's pins with the objects of its featured collection
+   */
+  async replaceRemotePins(actor: Actor, iris: string[]): Promise<void> {
+    if (actor.isLocal) return;
+
+    await this.pinRepository.delete({ actorId: actor.id });
+    if (iris.length === 0) return;
+
+    const [notes, presentations] = await Promise.all([
+      this.noteRepository.find({ where: { iri: In(iris) } }),
+      this.presentationRepository.find({ where: { iri: In(iris) } }),
+    ]);
+
+    // Keep the collection order by giving earlier items a later pin date
+    const now = Date.now();
+    await this.pinRepository.save(
+      iris.map((iri, index) =>
+        this.pinRepository.create({
+          actorId: actor.id,
+          iri,
+          noteId: notes.find((note) => note.iri === iri)?.id ?? null,
+          presentationId:
+            presentations.find((presentation) => presentation.iri === iri)
+              ?.id ?? null,
+          createdAt: new Date(now - index),
+        }),
+      ),
+    );
+  }
+
+  // Featured objects of remote actors may be fetched after the collection
+  async #linkRemotePins(actor: Actor) {
+    const pins = await this.pinRepository.find({
+      where: {
+        actorId: actor.id,
+        noteId: IsNull(),
+        presentationId: IsNull(),
+        iri: Not(IsNull()),
+      },
+    });
+    if (pins.length === 0) return;
+
+    const iris = pins.map((pin) => pin.iri!);
+    const [notes, presentations] = await Promise.all([
+      this.noteRepository.find({ where: { iri: In(iris) } }),
+      this.presentationRepository.find({ where: { iri: In(iris) } }),
+    ]);
+
+    for (const pin of pins) {
+      const noteId = notes.find((note) => note.iri === pin.iri)?.id;
+      const presentationId = presentations.find(
+        (presentation) => presentation.iri === pin.iri,
+      )?.id;
+      if (!noteId && !presentationId) continue;
+
+      await this.pinRepository.update(pin.id, {
+        noteId: noteId ?? null,
+        presentationId: presentationId ?? null,
+      });
+    }
+  }
+
+  async #sendFeaturedUpdate(
+    actor: Actor,
+    pin: Pin,
+    object: URL,
+    type: 'add' | 'remove',
+  ) {
+    const ctx = await this.#createFederationContext();
+    const actorUri = ctx.getActorUri(actor.id);
+    const id = new URL(`#pins/${pin.id}`, actorUri);
+    const values = {
+      actor: actorUri,
+      object,
+      target: ctx.getFeaturedUri(actor.id),
+      to: PUBLIC_COLLECTION,
+      cc: ctx.getFollowersUri(actor.id),
+    };
+
+    await ctx.sendActivity(
+      { identifier: actor.id },
+      'followers',
+      type === 'add'
+        ? new Add({ id, ...values })
+        : new Remove({ id: new URL(`${id.href}/remove`), ...values }),
+      { preferSharedInbox: true },
+    );
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
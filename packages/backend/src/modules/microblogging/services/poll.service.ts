@@ -0,0 +1,494 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Create,
+  Federation,
+  Note as APNote,
+  Object as APObject,
+  Question,
+  Update,
+} from '@fedify/fedify';
+import { Actor, Note, Poll, PollVote } from 'src/entities';
+import { toAPQuestion } from 'src/lib/activitypub';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { BlockService } from './block.service';
+
+export const POLL_MAX_OPTIONS = 4;
+export const POLL_MAX_OPTION_LENGTH = 50;
+
+// Allowed poll durations in seconds: five minutes to thirty days
+export const POLL_MIN_EXPIRES_IN = 5 * 60;
+export const POLL_MAX_EXPIRES_IN = 30 * 24 * 60 * 60;
+const POLL_DEFAULT_EXPIRES_IN = 24 * 60 * 60;
+
+export interface PollInput {
+  options: string[];
+  multiple?: boolean;
+  // Seconds until the poll closes
+  expiresIn?: number;
+}
+
+export interface PollSummary {
+  id: string;
+  options: Array<{ name: string; votesCount: number }>;
+  multiple: boolean;
+  expiresAt: Date | null;
+  expired: boolean;
+  votersCount: number;
+  voted: boolean;
+  ownVotes: number[];
+}
+
+@Injectable()
+export class PollService {
+  constructor(
+    @InjectRepository(Poll)
+    private pollRepository: Repository<Poll>,
+
+    @InjectRepository(PollVote)
+    private pollVoteRepository: Repository<PollVote>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private domainBlockService: DomainBlockService,
+    private blockService: BlockService,
+  ) {}
+
+  /**
+   * Check the options and duration of a poll before its note is created
+   */
+  static validatePollInput(input: PollInput): void {
+    const options = (input.options ?? []).map((option) =>
+      String(option).trim(),
+    );
+    if (options.length < 2 || options.length > POLL_MAX_OPTIONS) {
+      throw new BadRequestException(
+        `A poll needs between 2 and ${POLL_MAX_OPTIONS} options`,
+      );
+    }
+    if (options.some((option) => !option)) {
+      throw new BadRequestException('Poll options cannot be empty');
+    }
+    if (options.some((option) => option.length > POLL_MAX_OPTION_LENGTH)) {
+      throw new BadRequestException(
+        `Poll options can be up to ${POLL_MAX_OPTION_LENGTH} characters`,
+      );
+    }
+    if (new Set(options).size !== options.length) {
+      throw new BadRequestException('Poll options must be unique');
+    }
+
+    const expiresIn = input.expiresIn ?? POLL_DEFAULT_EXPIRES_IN;
+    if (
+      !Number.isInteger(expiresIn) ||
+      expiresIn < POLL_MIN_EXPIRES_IN ||
+      expiresIn > POLL_MAX_EXPIRES_IN
+    ) {
+      throw new BadRequestException(
+        'A poll must run between five minutes and thirty days',
+      );
+    }
+  }
+
+  async createPoll(note: Note, input: PollInput): Promise<Poll> {
+    PollService.validatePollInput(input);
+
+    const poll = this.pollRepository.create({
+      noteId: note.id,
+      options: input.options.map((option) => ({
+        name: String(option).trim(),
+        votesCount: 0,
+      })),
+      multiple: input.multiple ?? false,
+      expiresAt: new Date(
+        Date.now() + (input.expiresIn ?? POLL_DEFAULT_EXPIRES_IN) * 1000,
+      ),
+    });
+    await this.pollRepository.save(poll);
+
+    return poll;
+  }
+
+  /**
+   * Polls of the given notes, each with the viewer's own votes
+   */
+  async getPolls(
+    noteIds: string[],
+    viewer: Actor | null,
+  ): Promise<Map<string, PollSummary>> {
+    const result = new Map<string, PollSummary>();
+    if (noteIds.length === 0) return result;
+
+    const polls = await this.pollRepository.find({
+      where: { noteId: In(noteIds) },
+    });
+    const ownVotes =
+      viewer && polls.length > 0
+        ? await this.pollVoteRepository.find({
+            where: {
+              pollId: In(polls.map((poll) => poll.id)),
+              actorId: viewer.id,
+            },
+          })
+        : [];
+
+    for (const poll of polls) {
+      result.set(
+        poll.noteId,
+        this.#summarize(
+          poll,
+          ownVotes.filter((vote) => vote.pollId === poll.id),
+        ),
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Vote in a poll as a local actor. Votes in remote polls are delivered to
+   * the poll author as Create(Note) activities with the option as `name`.
+   */
+  async vote(
+    actor: Actor,
+    note: Note,
+    choices: number[],
+  ): Promise<PollSummary> {
+    const poll = await this.pollRepository.findOne({
+      where: { noteId: note.id },
+    });
+    if (!poll) {
+      throw new NotFoundException('Poll not found');
+    }
+    if (this.#isClosed(poll)) {
+      throw new BadRequestException('The poll has ended');
+    }
+    if (note.authorId === actor.id) {
+      throw new ForbiddenException('You cannot vote in your own poll');
+    }
+
+    const uniqueChoices = Array.from(new Set(choices ?? []));
+    if (
+      uniqueChoices.length === 0 ||
+      (!poll.multiple && uniqueChoices.length > 1) ||
+      uniqueChoices.some(
+        (choice) =>
+          !Number.isInteger(choice) ||
+          choice < 0 ||
+          choice >= poll.options.length,
+      )
+    ) {
+      throw new BadRequestException('Invalid poll choices');
+    }
+
+    const hasVoted = await this.pollVoteRepository.exists({
+      where: { pollId: poll.id, actorId: actor.id },
+    });
+    if (hasVoted) {
+      throw new BadRequestException('You have already voted in this poll');
+    }
+
+    const ctx = await this.#createFederationContext();
+    const votes = this.pollVoteRepository.create(
+      uniqueChoices.map((choice) => ({
+        pollId: poll.id,
+        actorId: actor.id,
+        choice,
+      })),
+    );
+    await this.pollVoteRepository.save(votes);
+    for (const vote of votes) {
+      vote.iri = new URL(`#votes/${vote.id}`, ctx.getActorUri(actor.id)).href;
+    }
+    await this.pollVoteRepository.save(votes);
+
+    if (note.author?.isLocal) {
+      await this.#recount(poll);
+    } else {
+      // Remote tallies are authoritative; count the vote until they update
+      for (const choice of uniqueChoices) {
+        poll.options[choice].votesCount++;
+      }
+      poll.votersCount++;
+      await this.pollRepository.save(poll);
+      await this.#deliverVotes(actor, note, poll, votes);
+    }
+
+    return this.#summarize(poll, votes);
+  }
+
+  /**
+   * Record a vote in a local poll received from a remote actor
+   */
+  async addRemoteVote(
+    actor: Actor,
+    note: Note,
+    iri: string,
+    name: string,
+  ): Promise<PollVote | null> {
+    const poll = await this.pollRepository.findOne({
+      where: { noteId: note.id },
+    });
+    if (!poll || this.#isClosed(poll) || note.authorId === actor.id) {
+      return null;
+    }
+
+    const choice = poll.options.findIndex(
+      (option) => option.name === name.trim(),
+    );
+    if (choice < 0) return null;
+
+    const existing = await this.pollVoteRepository.findOne({ where: { iri } });
+    if (existing) return null;
+
+    const actorVotes = await this.pollVoteRepository.find({
+      where: { pollId: poll.id, actorId: actor.id },
+    });
+    if (
+      (!poll.multiple && actorVotes.length > 0) ||
+      actorVotes.some((vote) => vote.choice === choice)
+    ) {
+      return null;
+    }
+
+    const vote = this.pollVoteRepository.create({
+      pollId: poll.id,
+      actorId: actor.id,
+      choice,
+      iri,
+    });
+    await this.pollVoteRepository.save(vote);
+    await this.#recount(poll);
+
+    return vote;
+  }
+
+  /**
+   * Create or update the poll of a remote note from its Question object
+   */
+  async syncRemotePoll(note: Note, question: Question): Promise<Poll | null> {
+    // Options are usually embedded without IDs, so a poll is told to allow
+    // multiple choices by having any inclusive options at all
+    let multiple = false;
+    const options: Poll['options'] = [];
+    try {
+      const readOptions = async (apOptions: AsyncIterable<APObject>) => {
+        for await (const option of apOptions) {
+          const name = option.name?.toString().trim();
+          if (!name) continue;
+          const replies = await option.getReplies();
+          options.push({ name, votesCount: replies?.totalItems ?? 0 });
+        }
+      };
+      await readOptions(question.getInclusiveOptions());
+      multiple = options.length > 0;
+      if (!multiple) {
+        await readOptions(question.getExclusiveOptions());
+      }
+    } catch (error) {
+      console.warn(`Failed to read options of ${question.id?.href}:`, error);
+      return null;
+    }
+    if (options.length === 0) return null;
+
+    // `closed` is either the closing time or a flag
+    const closed = question.closed;
+    const closedAt =
+      typeof closed === 'boolean'
+        ? closed
+          ? new Date()
+          : null
+        : closed
+          ? new Date(closed.epochMilliseconds)
+          : null;
+
+    const poll =
+      (await this.pollRepository.findOne({ where: { noteId: note.id } })) ??
+      this.pollRepository.create({ noteId: note.id });
+    poll.options = options;
+    poll.multiple = multiple;
+    poll.expiresAt = question.endTime
+      ? new Date(question.endTime.epochMilliseconds)
+      : null;
+    poll.closedAt = poll.closedAt ?? closedAt;
+    poll.votersCount =
+      question.voters ??
+      Math.max(...options.map((option) => option.votesCount));
+    await this.pollRepository.save(poll);
+
+    return poll;
+  }
+
+  /**
+   * Local polls that have expired but whose final tallies were not sent yet
+   */
+  async getExpiredLocalPolls(limit: number): Promise<Poll[]> {
+    return this.pollRepository.find({
+      where: {
+        closedAt: IsNull(),
+        expiresAt: LessThanOrEqual(new Date()),
+        note: { author: { isLocal: true } },
+      },
+      relations: ['note', 'note.author'],
+      order: { expiresAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Close a local poll and deliver Update(Question) with the final tallies
+   * to the author's followers and to remote voters
+   */
+  async closePoll(poll: Poll): Promise<boolean> {
+    const closedAt = new Date();
+    const { affected } = await this.pollRepository.update(
+      { id: poll.id, closedAt: IsNull() },
+      { closedAt },
+    );
+    if (!affected) return false;
+    poll.closedAt = closedAt;
+
+    const note = await this.pollRepository.manager.getRepository(Note).findOne({
+      where: { id: poll.noteId },
+      relations: ['author', 'mentions', 'mentions.actor'],
+    });
+    if (!note || !note.author?.isLocal) return true;
+
+    const ctx = await this.#createFederationContext();
+    const question = toAPQuestion(ctx, note, poll);
+    const update = new Update({
+      id: new URL(`#update-${closedAt.getTime()}`, question.id ?? ctx.origin),
+      actor: ctx.getActorUri(note.authorId),
+      object: question,
+      updated: question.updated,
+      tos: question.toIds,
+      ccs: question.ccIds,
+    });
+
+    if (note.visibility !== 'direct') {
+      await ctx.sendActivity(
+        { identifier: note.authorId },
+        'followers',
+        update,
+        { preferSharedInbox: true },
+      );
+    }
+
+    const votes = await this.pollVoteRepository.find({
+      where: { pollId: poll.id, actor: { isLocal: false } },
+      relations: ['actor'],
+    });
+    const voters = votes
+      .map((vote) => vote.actor)
+      .filter(
+        (voter, index, all) =>
+          voter.inboxUrl &&
+          all.findIndex((item) => item.id === voter.id) === index,
+      );
+    const recipients = await this.domainBlockService.excludeSuspendedRecipients(
+      voters.map((voter) => ({
+        id: new URL(voter.iri ?? voter.actorId),
+        inboxId: new URL(voter.inboxUrl),
+      })),
+    );
+    if (recipients.length > 0) {
+      await ctx.sendActivity({ identifier: note.authorId }, recipients, update);
+    }
+
+    return true;
+  }
+
+  #isClosed(poll: Poll): boolean {
+    return (
+      poll.closedAt != null ||
+      (poll.expiresAt != null && poll.expiresAt.getTime() <= Date.now())
+    );
+  }
+
+  #summarize(poll: Poll, ownVotes: PollVote[]): PollSummary {
+    return {
+      id: poll.id,
+      options: poll.options,
+      multiple: poll.multiple,
+      expiresAt: poll.expiresAt,
+      expired: this.#isClosed(poll),
+      votersCount: poll.votersCount,
+      voted: ownVotes.length > 0,
+      ownVotes: ownVotes.map((vote) => vote.choice),
+    };
+  }
+
+  // Tallies of local polls are counted from the stored votes
+  async #recount(poll: Poll) {
+    const votes = await this.pollVoteRepository.find({
+      select: ['actorId', 'choice'],
+      where: { pollId: poll.id },
+    });
+
+    poll.options = poll.options.map((option, index) => ({
+      ...option,
+      votesCount: votes.filter((vote) => vote.choice === index).length,
+    }));
+    poll.votersCount = new Set(votes.map((vote) => vote.actorId)).size;
+    await this.pollRepository.update(poll.id, {
+      options: poll.options,
+      votersCount: poll.votersCount,
+    });
+  }
+
+  async #deliverVotes(actor: Actor, note: Note, poll: Poll, votes: PollVote[]) {
+    const author = note.author;
+    if (
+      !author ||
+      !author.inboxUrl ||
+      !note.iri ||
+      (await this.domainBlockService.isSuspended(author.inboxUrl)) ||
+      (await this.blockService.isBlocking(author, actor))
+    ) {
+      return;
+    }
+
+    const ctx = await this.#createFederationContext();
+    const actorUri = ctx.getActorUri(actor.id);
+    const authorUri = new URL(author.iri ?? author.actorId);
+    for (const vote of votes) {
+      if (!vote.iri) continue;
+
+      await ctx.sendActivity(
+        { identifier: actor.id },
+        { id: authorUri, inboxId: new URL(author.inboxUrl) },
+        new Create({
+          id: new URL(`${vote.iri}/activity`),
+          actor: actorUri,
+          object: new APNote({
+            id: new URL(vote.iri),
+            attribution: actorUri,
+            name: poll.options[vote.choice].name,
+            replyTarget: new URL(note.iri),
+            to: authorUri,
+          }),
+          to: authorUri,
+        }),
+      );
+    }
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
@@ -0,0 +1,301 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Not, Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import { Emoji, EmojiReact, Federation, Image, Undo } from '@fedify/fedify';
+import { Actor, Note, Presentation, Reaction } from 'src/entities';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { BlockService } from './block.service';
+
+export interface ReactionSummary {
+  content: string;
+  emojiUrl: string | null;
+  count: number;
+  reacted: boolean;
+}
+
+// What a reaction is attached to; exactly one of the two is set
+type ReactionTarget = { note: Note } | { presentation: Presentation };
+
+const CUSTOM_EMOJI_PATTERN = /^:[\w+-]+:$/;
+const UNICODE_EMOJI_PATTERN =
+  /^\p{Extended_Pictographic}|^\p{Regional_Indicator}/u;
+
+@Injectable()
+export class ReactionService {
+  constructor(
+    @InjectRepository(Reaction)
+    private reactionRepository: Repository<Reaction>,
+
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
+
+    private domainBlockService: DomainBlockService,
+    private blockService: BlockService,
+  ) {}
+
+  /**
+   * Whether the content is a single Unicode emoji or a custom emoji shortcode
+   */
+  static isValidReaction(content: string): boolean {
+    if (CUSTOM_EMOJI_PATTERN.test(content)) return true;
+    if (!UNICODE_EMOJI_PATTERN.test(content)) return false;
+
+    const segments = [...new Intl.Segmenter().segment(content)];
+    return segments.length === 1;
+  }
+
+  /**
+   * React to a note or presentation as a local actor and deliver
+   * EmojiReact to its remote author
+   */
+  async react(
+    actor: Actor,
+    target: ReactionTarget,
+    content: string,
+  ): Promise<Reaction> {
+    content = content?.trim();
+    if (!content || !ReactionService.isValidReaction(content)) {
+      throw new BadRequestException('Reactions must be a single emoji');
+    }
+
+    const where = { actorId: actor.id, ...this.#getTargetWhere(target) };
+    const existing = await this.reactionRepository.findOne({
+      where: { ...where, content },
+    });
+    if (existing) return existing;
+
+    // Custom emoji can only be reused from reactions already on the target
+    let emojiUrl: string | null = null;
+    if (CUSTOM_EMOJI_PATTERN.test(content)) {
+      const known = await this.reactionRepository.findOne({
+        where: {
+          ...this.#getTargetWhere(target),
+          content,
+          emojiUrl: Not(IsNull()),
+        },
+      });
+      if (!known) {
+        throw new BadRequestException('Unknown custom emoji');
+      }
+      emojiUrl = known.emojiUrl;
+    }
+
+    const ctx = await this.#createFederationContext();
+    const reaction = this.reactionRepository.create({
+      ...where,
+      content,
+      emojiUrl,
+    });
+    await this.reactionRepository.save(reaction);
+
+    reaction.iri = new URL(
+      `#reactions/${reaction.id}`,
+      ctx.getActorUri(actor.id),
+    ).href;
+    await this.reactionRepository.save(reaction);
+
+    await this.#deliver(actor, target, reaction, 'react');
+
+    return reaction;
+  }
+
+  /**
+   * Remove a local actor's reaction and deliver Undo(EmojiReact)
+   */
+  async unreact(
+    actor: Actor,
+    target: ReactionTarget,
+    content: string,
+  ): Promise<boolean> {
+    const reaction = await this.reactionRepository.findOne({
+      where: {
+        actorId: actor.id,
+        ...this.#getTargetWhere(target),
+        content: content?.trim(),
+      },
+    });
+    if (!reaction) return false;
+
+    await this.reactionRepository.remove(reaction);
+    await this.#deliver(actor, target, reaction, 'undo');
+
+    return true;
+  }
+
+  /**
+   * Record an EmojiReact, or a Like with content, received from a remote
+   * actor
+   */
+  async addRemoteReaction(
+    actor: Actor,
+    target: ReactionTarget,
+    iri: string,
+    content: string,
+    emojiUrl: string | null,
+  ): Promise<Reaction | null> {
+    content = content.trim();
+    if (!ReactionService.isValidReaction(content)) return null;
+
+    const existing = await this.reactionRepository.findOne({
+      where: [
+        { iri },
+        { actorId: actor.id, ...this.#getTargetWhere(target), content },
+      ],
+    });
+    if (existing) return null;
+
+    const reaction = this.reactionRepository.create({
+      actorId: actor.id,
+      ...this.#getTargetWhere(target),
+      content,
+      emojiUrl: CUSTOM_EMOJI_PATTERN.test(content) ? emojiUrl : null,
+      iri,
+    });
+    await this.reactionRepository.save(reaction);
+
+    return reaction;
+  }
+
+  /**
+   * Remove a reaction previously received from a remote actor
+   */
+  async removeRemoteReaction(actor: Actor, iri: string): Promise<boolean> {
+    const reaction = await this.reactionRepository.findOne({
+      where: { iri, actorId: actor.id },
+    });
+    if (!reaction) return false;
+
+    await this.reactionRepository.remove(reaction);
+
+    return true;
+  }
+
+  /**
+   * Reaction counts per note, each flagged if the viewer is among them
+   */
+  async getNoteReactions(
+    noteIds: string[],
+    viewer: Actor | null,
+  ): Promise<Map<string, ReactionSummary[]>> {
+    const result = new Map<string, ReactionSummary[]>();
+    if (noteIds.length === 0) return result;
+
+    const reactions = await this.reactionRepository.find({
+      where: { noteId: In(noteIds) },
+      order: { createdAt: 'ASC' },
+    });
+    for (const noteId of noteIds) {
+      result.set(
+        noteId,
+        this.#summarize(
+          reactions.filter((reaction) => reaction.noteId === noteId),
+          viewer,
+        ),
+      );
+    }
+
+    return result;
+  }
+
+  async getPresentationReactions(
+    presentationId: string,
+    viewer: Actor | null,
+  ): Promise<ReactionSummary[]> {
+    const reactions = await this.reactionRepository.find({
+      where: { presentationId },
+      order: { createdAt: 'ASC' },
+    });
+
+    return this.#summarize(reactions, viewer);
+  }
+
+  // Group reactions by emoji, in the order each emoji was first used
+  #summarize(reactions: Reaction[], viewer: Actor | null): ReactionSummary[] {
+    const summaries = new Map<string, ReactionSummary>();
+    for (const reaction of reactions) {
+      const summary = summaries.get(reaction.content) ?? {
+        content: reaction.content,
+        emojiUrl: reaction.emojiUrl,
+        count: 0,
+        reacted: false,
+      };
+      summary.count++;
+      if (viewer && reaction.actorId === viewer.id) summary.reacted = true;
+      summaries.set(reaction.content, summary);
+    }
+
+    return [...summaries.values()];
+  }
+
+  #getTargetWhere(target: ReactionTarget) {
+    return 'note' in target
+      ? { noteId: target.note.id }
+      : { presentationId: target.presentation.id };
+  }
+
+  async #deliver(
+    actor: Actor,
+    target: ReactionTarget,
+    reaction: Reaction,
+    type: 'react' | 'undo',
+  ) {
+    // Only remote authors are notified; local ones see the reaction directly
+    const { author, iri } =
+      'note' in target
+        ? { author: target.note.author, iri: target.note.iri }
+        : { author: target.presentation.actor, iri: target.presentation.iri };
+    if (
+      !author ||
+      author.isLocal ||
+      !author.inboxUrl ||
+      !iri ||
+      !reaction.iri ||
+      (await this.domainBlockService.isSuspended(author.inboxUrl)) ||
+      (await this.blockService.isBlocking(author, actor))
+    ) {
+      return;
+    }
+
+    const ctx = await this.#createFederationContext();
+    const authorUri = new URL(author.iri ?? author.actorId);
+    const emojiReact = new EmojiReact({
+      id: new URL(reaction.iri),
+      actor: ctx.getActorUri(actor.id),
+      object: new URL(iri),
+      content: reaction.content,
+      tags: reaction.emojiUrl
+        ? [
+            new Emoji({
+              name: reaction.content,
+              icon: new Image({ url: new URL(reaction.emojiUrl) }),
+            }),
+          ]
+        : [],
+      to: authorUri,
+    });
+
+    await ctx.sendActivity(
+      { identifier: actor.id },
+      { id: authorUri, inboxId: new URL(author.inboxUrl) },
+      type === 'react'
+        ? emojiReact
+        : new Undo({
+            id: new URL(`${reaction.iri}/undo`),
+            actor: ctx.getActorUri(actor.id),
+            object: emojiReact,
+            to: authorUri,
+          }),
+    );
+  }
+
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+}
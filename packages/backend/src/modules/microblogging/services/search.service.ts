@@ -1,5 +1,4 @@
 import {
-  lookupObject,
   Actor as APActor,
   Note as APNote,
   Person,
@@ -14,6 +13,8 @@ import { Repository, Like } from 'typeorm';
 import { ActorService } from './actor.service';
 import { FEDIFY_FEDERATION } from '@fedify/nestjs';
 import { NoteService } from './note.service';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { AuthorizedFetchService } from '../../federation/services/authorized-fetch.service';
 
 export type SearchResult =
   | { type: 'actor'; data: Actor }
@@ -44,6 +45,9 @@ export class SearchService {
     private actorService: ActorService,
 
     private noteService: NoteService,
+
+    private domainBlockService: DomainBlockService,
+    private authorizedFetchService: AuthorizedFetchService,
   ) {}
 
   async searchNote(q: string): Promise<Note | null> {
@@ -53,8 +57,8 @@ export class SearchService {
 
     if (note) return note;
 
-    if (q.includes('http')) {
-      const apNote = await lookupObject(new URL(q));
+    if (q.includes('http') && !(await this.domainBlockService.isSuspended(q))) {
+      const apNote = await this.authorizedFetchService.lookupObject(new URL(q));
       if (apNote instanceof APNote) {
         const result = await this.noteService.persistNote(apNote);
         if (result) return result;
@@ -78,13 +82,16 @@ export class SearchService {
       return null; // Don't try to lookup local actors remotely
     }
 
+    // Nothing is looked up on suspended domains
+    if (await this.domainBlockService.isSuspended(q)) return null;
+
     // For other formats (URLs or @user@domain), search normally
     const actor = await this.actorRepository.findOne({
       where: [{ acct: q }, { preferredUsername: q }, { url: q }, { iri: q }],
     });
     if (actor) return actor;
 
-    const lookupResult = await lookupObject(
+    const lookupResult = await this.authorizedFetchService.lookupObject(
       q.includes('http') ? new URL(q) : q,
     );
     const actorObject = lookupResult;
@@ -120,6 +127,9 @@ export class SearchService {
       .innerJoin('note.tagEntities', 'tag', 'tag.id = :tagId', {
         tagId: matchedTag.id,
       })
+      .where('note.visibility IN (:...visibilities)', {
+        visibilities: ['public', 'unlisted'],
+      })
       .orderBy('note.createdAt', 'DESC')
       .take(limit)
       .skip(offset)
@@ -0,0 +1,110 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Actor, Tag, TagFollow } from 'src/entities';
+
+// Same characters NoteService.extractHashtagNames recognizes in content
+const TAG_NAME_PATTERN = /^[\p{L}\d_]{1,50}$/u;
+
+@Injectable()
+export class TagService {
+  constructor(
+    @InjectRepository(Tag)
+    private tagRepository: Repository<Tag>,
+
+    @InjectRepository(TagFollow)
+    private tagFollowRepository: Repository<TagFollow>,
+  ) {}
+
+  /**
+   * Hashtags are matched case-insensitively and stored without the leading #
+   */
+  static normalizeTagName(name: string): string {
+    return (name.startsWith('#') ? name.slice(1) : name).toLowerCase();
+  }
+
+  /**
+   * URL of a hashtag, served as a web page or as an ActivityPub collection
+   * of its public notes
+   */
+  static getTagHref(name: string): string {
+    return `${process.env.FEDERATION_ORIGIN}/tags/${encodeURIComponent(
+      TagService.normalizeTagName(name),
+    )}`;
+  }
+
+  async getTag(name: string): Promise<Tag | null> {
+    return this.tagRepository.findOne({
+      where: { name: TagService.normalizeTagName(name) },
+    });
+  }
+
+  /**
+   * Follow a hashtag so that its public notes show up in the home timeline.
+   * Hashtags nobody has used yet can be followed too.
+   */
+  async followTag(actor: Actor, name: string): Promise<Tag> {
+    const displayName = name.startsWith('#') ? name.slice(1) : name;
+    if (!TAG_NAME_PATTERN.test(displayName)) {
+      throw new BadRequestException('Invalid hashtag');
+    }
+
+    let tag = await this.getTag(displayName);
+    if (!tag) {
+      tag = await this.tagRepository.save(
+        this.tagRepository.create({
+          name: TagService.normalizeTagName(displayName),
+          displayName,
+        }),
+      );
+    }
+
+    const existing = await this.tagFollowRepository.findOne({
+      where: { actorId: actor.id, tagId: tag.id },
+    });
+    if (!existing) {
+      await this.tagFollowRepository.save(
+        this.tagFollowRepository.create({ actorId: actor.id, tagId: tag.id }),
+      );
+    }
+
+    return tag;
+  }
+
+  async unfollowTag(actor: Actor, name: string): Promise<boolean> {
+    const tag = await this.getTag(name);
+    if (!tag) return false;
+
+    const result = await this.tagFollowRepository.delete({
+      actorId: actor.id,
+      tagId: tag.id,
+    });
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  async isFollowingTag(actor: Actor, tag: Tag): Promise<boolean> {
+    return this.tagFollowRepository.exists({
+      where: { actorId: actor.id, tagId: tag.id },
+    });
+  }
+
+  async getFollowedTags(actor: Actor): Promise<Tag[]> {
+    const follows = await this.tagFollowRepository.find({
+      where: { actorId: actor.id },
+      relations: ['tag'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return follows.map((follow) => follow.tag);
+  }
+
+  async getFollowedTagIds(actor: Actor): Promise<string[]> {
+    const follows = await this.tagFollowRepository.find({
+      select: ['tagId'],
+      where: { actorId: actor.id },
+    });
+
+    return follows.map((follow) => follow.tagId);
+  }
+}
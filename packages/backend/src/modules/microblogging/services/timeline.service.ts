@@ -4,18 +4,25 @@ import {
   Note as APNote,
   Announce as APAnnounce,
   Create,
+  Question,
 } from '@fedify/fedify';
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Actor, Follow, Note } from 'src/entities';
+import { Actor, Follow, Note, User } from 'src/entities';
 import { Tag } from 'src/entities/tag.entity';
-import { In, Repository } from 'typeorm';
+import { In, Not, Repository } from 'typeorm';
 import { NoteService } from './note.service';
 import { ActorService } from './actor.service';
 import { MarkdownService } from './markdown.service';
 import { TimelinePost } from 'src/entities/timeline-post.entity';
 import { FollowService } from './follow.service';
-import { toAPNote } from 'src/lib/activitypub';
+import { toAPNote, toAPQuestion } from 'src/lib/activitypub';
+import { DomainBlockService } from '../../federation/services/domain-block.service';
+import { RelayService } from '../../federation/services/relay.service';
+import { NotificationService } from '../../federation/services/notification.service';
+import { BlockService } from './block.service';
+import { PollInput, PollService } from './poll.service';
+import { TagService } from './tag.service';
 
 @Injectable()
 export class TimelineService {
@@ -39,14 +46,25 @@ export class TimelineService {
     private actorService: ActorService,
     private followService: FollowService,
     private markdownService: MarkdownService,
+    private domainBlockService: DomainBlockService,
+    private blockService: BlockService,
+    private pollService: PollService,
+    private tagService: TagService,
+    private relayService: RelayService,
+    private notificationService: NotificationService,
   ) {}
   async createNote(
     actor: Actor,
-    noteAttributes: Partial<Note> & {
+    noteAttributes: Omit<Partial<Note>, 'poll'> & {
       contentType?: 'text/plain' | 'text/markdown';
+      poll?: PollInput;
     },
   ): Promise<Note | null> {
-    const { contentType = 'text/plain', ...restAttributes } = noteAttributes;
+    const {
+      contentType = 'text/plain',
+      poll,
+      ...restAttributes
+    } = noteAttributes;
     const rawContent = restAttributes.content || '';
 
     // Process content based on contentType
@@ -63,12 +81,7 @@ export class TimelineService {
     }
 
     // 1. Extract hashtags from raw content (not rendered HTML)
-    const hashtagMatches = Array.from(
-      rawContent.matchAll(/#([\p{L}\d_]{1,50})/gu),
-    );
-    const hashtags = hashtagMatches
-      .map((match) => match[1])
-      .filter((val) => Boolean(val));
+    const hashtags = NoteService.extractHashtagNames(rawContent);
 
     // 2. Build tags array (merge with any provided tags, dedupe by name)
     const existingTags = (restAttributes.tags || []).map((tag) => tag.name);
@@ -80,7 +93,7 @@ export class TimelineService {
       allTagNames.length > 0
         ? allTagNames.map((tagName) => ({
             type: 'Hashtag',
-            href: `${process.env.FEDERATION_ORIGIN}/tags/${tagName}`,
+            href: TagService.getTagHref(tagName),
             name: tagName,
           }))
         : [];
@@ -97,6 +110,15 @@ export class TimelineService {
 
     // Save note first
     await this.noteRepository.save(note);
+    if (actor.userId) {
+      await this.noteRepository.manager
+        .getRepository(User)
+        .increment({ id: actor.userId }, 'notesCount', 1);
+    }
+
+    if (poll) {
+      note.poll = await this.pollService.createPoll(note, poll);
+    }
 
     // Attach Tag relations via Tag entity (NoteService로 위임)
     const tagNames = (note.tags || [])
@@ -108,31 +130,104 @@ export class TimelineService {
       await this.noteService.upsertAndAttachTags(note, tagNames);
     }
 
+    // Mentioned actors are addressed (and, for direct notes, the only recipients)
+    const mentionedActors = (
+      await this.noteService.resolveMentionedActors(rawContent)
+    ).filter((mentioned) => mentioned.id !== actor.id);
+
+    // Link a reply to its parent and address the parent author
+    if (note.inReplyToId) {
+      const parent = await this.noteService.getNoteById(note.inReplyToId);
+      if (parent) {
+        note.inReplyToUri = parent.iri;
+        await this.noteRepository.update(note.id, {
+          inReplyToUri: parent.iri,
+        });
+        await this.noteRepository.increment(
+          { id: parent.id },
+          'repliesCount',
+          1,
+        );
+        if (
+          parent.author &&
+          parent.author.id !== actor.id &&
+          !mentionedActors.some((item) => item.id === parent.author.id)
+        ) {
+          mentionedActors.push(parent.author);
+        }
+      }
+    }
+    // Link a quote to the quoted note and address its author
+    if (note.quotedNoteId) {
+      const quotedNote = await this.noteService.getNoteById(note.quotedNoteId);
+      if (quotedNote) {
+        note.quoteUri = quotedNote.iri;
+        await this.noteRepository.update(note.id, {
+          quoteUri: quotedNote.iri,
+        });
+        if (
+          quotedNote.author &&
+          quotedNote.author.id !== actor.id &&
+          !mentionedActors.some((item) => item.id === quotedNote.author.id)
+        ) {
+          mentionedActors.push(quotedNote.author);
+        }
+      }
+    }
+    note.mentions = await this.noteService.addMentions(note, mentionedActors);
+    await this.notificationService.notifyReply(note);
+
     const ctx = await this.#createFederationContext();
     const iri = ctx.getObjectUri(APNote, { noteId: note.id });
 
+    const apNote = toAPNote(ctx, note);
+    note.recipients = this.noteService.getRecipients(apNote);
+
     await this.noteRepository.update(note.id, {
       iri: iri.href,
       url: iri.href,
+      recipients: note.recipients,
     });
 
-    const apNote = toAPNote(ctx, note);
+    const create = new Create({
+      id: new URL('#create', apNote.id ?? ctx.origin),
+      object: note.poll ? toAPQuestion(ctx, note, note.poll) : apNote,
+      actors: apNote?.attributionIds,
+      tos: apNote?.toIds,
+      ccs: apNote?.ccIds,
+    });
 
-    ctx.sendActivity(
-      {
-        identifier: actor.id,
-      },
-      // this.#getRecipients(ctx, note),
-      'followers',
-      new Create({
-        id: new URL('#create', apNote.id ?? ctx.origin),
-        object: apNote,
-        actors: apNote?.attributionIds,
-        tos: apNote?.toIds,
-        ccs: apNote?.ccIds,
-      }),
-      { immediate: true },
+    if (note.visibility !== 'direct') {
+      ctx.sendActivity(
+        {
+          identifier: actor.id,
+        },
+        'followers',
+        create,
+      );
+    }
+
+    // Actors who blocked the author are still mentioned but never delivered to
+    const deliverableActors = await this.blockService.excludeBlockingActors(
+      actor,
+      mentionedActors,
+    );
+    const recipients = await this.domainBlockService.excludeSuspendedRecipients(
+      deliverableActors
+        .filter((mentioned) => !mentioned.isLocal && mentioned.inboxUrl)
+        .map((mentioned) => ({
+          id: new URL(mentioned.iri ?? mentioned.actorId),
+          inboxId: new URL(mentioned.inboxUrl),
+        })),
     );
+    if (recipients.length > 0) {
+      ctx.sendActivity({ identifier: actor.id }, recipients, create);
+    }
+
+    // Public notes are also passed on to the relays we subscribe to
+    if (note.visibility === 'public') {
+      void this.relayService.forwardActivity(actor, create);
+    }
 
     this.addItemToTimeline(apNote);
 
@@ -158,6 +253,14 @@ export class TimelineService {
       },
     });
 
+    // Blocked and muted actors are left out, including their shared notes
+    const hiddenActorIds = new Set(
+      await this.blockService.getHiddenActorIds(actor),
+    );
+
+    // Public notes carrying a followed hashtag are merged in
+    const followedTagIds = await this.tagService.getFollowedTagIds(actor);
+
     const timelinePosts = await this.timelinePostRepository.find({
       relations: [
         'author',
@@ -165,12 +268,28 @@ export class TimelineService {
         'note.sharedNote',
         'note.sharedNote.author',
       ],
-      where: {
-        authorId: In([
-          actor.id,
-          ...follows.map((follow) => follow.followingId),
-        ]),
-      },
+      where: [
+        {
+          authorId: In(
+            [actor.id, ...follows.map((follow) => follow.followingId)].filter(
+              (id) => !hiddenActorIds.has(id),
+            ),
+          ),
+        },
+        ...(followedTagIds.length > 0
+          ? [
+              {
+                ...(hiddenActorIds.size > 0
+                  ? { authorId: Not(In([...hiddenActorIds])) }
+                  : {}),
+                note: {
+                  visibility: 'public' as const,
+                  tagEntities: { id: In(followedTagIds) },
+                },
+              },
+            ]
+          : []),
+      ],
       order: {
         createdAt: 'DESC',
       },
@@ -178,13 +297,19 @@ export class TimelineService {
       skip: parseInt(cursor),
     });
 
-    return timelinePosts.map((post) => ({
-      id: post.id,
-      author: post.author,
-      note: post.note,
-      createdAt: post.createdAt,
-      updatedAt: post.updatedAt,
-    }));
+    return timelinePosts
+      .filter(
+        (post) =>
+          !post.note?.sharedNote ||
+          !hiddenActorIds.has(post.note.sharedNote.authorId),
+      )
+      .map((post) => ({
+        id: post.id,
+        author: post.author,
+        note: post.note,
+        createdAt: post.createdAt,
+        updatedAt: post.updatedAt,
+      }));
   }
 
   async addSharedItemToTimeline(actor: Actor, share: Note) {
@@ -196,9 +321,12 @@ export class TimelineService {
     await this.timelinePostRepository.save(timelinePost);
   }
 
-  async addItemToTimeline(apNote: APNote): Promise<Note | null> {
+  async addItemToTimeline(apNote: APNote | Question): Promise<Note | null> {
     const note = await this.noteService.persistNote(apNote);
 
+    // Direct notes only show up in conversations, never on timelines
+    if (note?.visibility === 'direct') return note;
+
     const timelinePost = this.timelinePostRepository.create({
       noteId: note!.id,
       authorId: note!.authorId,
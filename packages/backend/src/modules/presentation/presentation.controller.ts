@@ -10,15 +10,25 @@ import {
   Body,
   Request,
   BadRequestException,
+  NotFoundException,
 } from '@nestjs/common';
 import { type Request as ERequest } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
 import { PresentationService } from './presentation.service';
+import { ActorService } from '../microblogging/services/actor.service';
+import { PinService } from '../microblogging/services/pin.service';
+import { ReactionService } from '../microblogging/services/reaction.service';
 
 @Controller('presentations')
 export class PresentationController {
-  constructor(private readonly presentationService: PresentationService) {}
+  constructor(
+    private readonly presentationService: PresentationService,
+    private readonly actorService: ActorService,
+    private readonly pinService: PinService,
+    private readonly reactionService: ReactionService,
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard)
@@ -39,17 +49,22 @@ export class PresentationController {
   async createPresentation(
     @UploadedFile() file: Express.Multer.File,
     @Body('title') title: string,
+    @Body('description') description: string | undefined,
     @Request() req: ERequest,
   ) {
     const presentation = await this.presentationService.create(
       file,
       title,
       req.user!.id,
+      description,
     );
 
     return {
       id: presentation.id,
       title: presentation.title,
+      description: presentation.description,
+      pageCount: presentation.pageCount,
+      thumbnailUrl: presentation.thumbnailUrl,
       url: presentation.url,
       pdfKey: presentation.pdfKey,
       noteId: presentation.noteId,
@@ -58,16 +73,37 @@ export class PresentationController {
   }
 
   @Get(':id')
-  async getPresentation(@Param('id') id: string) {
+  @UseGuards(OptionalJwtAuthGuard)
+  async getPresentation(@Param('id') id: string, @Request() req: ERequest) {
     const presentation = await this.presentationService.findById(id);
+    const viewer = req.user
+      ? await this.actorService.getActorByUserId(req.user.id)
+      : null;
 
     return {
       id: presentation.id,
       title: presentation.title,
+      description: presentation.description,
+      pageCount: presentation.pageCount,
+      thumbnailUrl: presentation.thumbnailUrl,
       url: presentation.url,
       pdfKey: presentation.pdfKey,
+      pdfUrl: presentation.pdfUrl,
+      iri: presentation.iri,
       noteId: presentation.noteId,
       userId: presentation.userId,
+      actorId: presentation.actorId,
+      author: presentation.actor
+        ? {
+            ...presentation.actor,
+            username: presentation.actor.preferredUsername,
+            displayName: presentation.actor.name,
+          }
+        : null,
+      reactions: await this.reactionService.getPresentationReactions(
+        presentation.id,
+        viewer,
+      ),
       createdAt: presentation.createdAt,
     };
   }
@@ -78,6 +114,9 @@ export class PresentationController {
     return presentations.map((p) => ({
       id: p.id,
       title: p.title,
+      description: p.description,
+      pageCount: p.pageCount,
+      thumbnailUrl: p.thumbnailUrl,
       url: p.url,
       pdfKey: p.pdfKey,
       noteId: p.noteId,
@@ -85,6 +124,76 @@ export class PresentationController {
     }));
   }
 
+  @Post(':id/pin')
+  @UseGuards(JwtAuthGuard)
+  async pinPresentation(@Param('id') id: string, @Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const presentation = await this.presentationService.findById(id);
+    await this.pinService.pinPresentation(actor, presentation);
+    return { pinned: true };
+  }
+
+  @Delete(':id/pin')
+  @UseGuards(JwtAuthGuard)
+  async unpinPresentation(@Param('id') id: string, @Request() req: ERequest) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const presentation = await this.presentationService.findById(id);
+    await this.pinService.unpinPresentation(actor, presentation);
+    return { pinned: false };
+  }
+
+  @Post(':id/reactions')
+  @UseGuards(JwtAuthGuard)
+  async reactToPresentation(
+    @Param('id') id: string,
+    @Body('content') content: string,
+    @Request() req: ERequest,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const presentation = await this.presentationService.findById(id);
+    await this.reactionService.react(actor, { presentation }, content);
+    return {
+      reactions: await this.reactionService.getPresentationReactions(
+        presentation.id,
+        actor,
+      ),
+    };
+  }
+
+  @Delete(':id/reactions/:content')
+  @UseGuards(JwtAuthGuard)
+  async removePresentationReaction(
+    @Param('id') id: string,
+    @Param('content') content: string,
+    @Request() req: ERequest,
+  ) {
+    const actor = await this.actorService.getActorByUserId(req.user!.id);
+    if (!actor) {
+      throw new NotFoundException('Actor not found');
+    }
+
+    const presentation = await this.presentationService.findById(id);
+    await this.reactionService.unreact(actor, { presentation }, content);
+    return {
+      reactions: await this.reactionService.getPresentationReactions(
+        presentation.id,
+        actor,
+      ),
+    };
+  }
+
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
   async deletePresentation(@Param('id') id: string, @Request() req: ERequest) {
@@ -6,12 +6,14 @@ import { Presentation } from '../../entities/presentation.entity';
 import { Actor } from '../../entities/actor.entity';
 import { UploadModule } from '../upload/upload.module';
 import { MicrobloggingModule } from '../microblogging/microblogging.module';
+import { FederationModule } from '../federation/federation.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Presentation, Actor]),
     UploadModule,
     MicrobloggingModule,
+    FederationModule,
   ],
   controllers: [PresentationController],
   providers: [PresentationService],
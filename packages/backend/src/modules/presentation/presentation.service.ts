@@ -1,19 +1,35 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { FEDIFY_FEDERATION } from '@fedify/nestjs';
+import {
+  Document as APDocument,
+  Federation,
+  Link,
+  Page,
+  PropertyValue,
+} from '@fedify/fedify';
 import { Presentation } from '../../entities/presentation.entity';
 import { Actor } from '../../entities/actor.entity';
+import { Note } from '../../entities/note.entity';
 import { UploadService } from '../upload/upload.service';
 import { TimelineService } from '../microblogging/services/timeline.service';
+import { ActorService } from '../microblogging/services/actor.service';
+import { DomainBlockService } from '../federation/services/domain-block.service';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 // Import node-poppler using namespace import to avoid ESM/CJS interop issues
 import * as PopplerModule from 'node-poppler';
+import {
+  PRESENTATION_PAGE_COUNT_PROPERTY,
+  getPresentationPdfUrl,
+} from '../../lib/activitypub';
 
 @Injectable()
 export class PresentationService {
@@ -24,12 +40,25 @@ export class PresentationService {
     private actorRepository: Repository<Actor>,
     private uploadService: UploadService,
     private timelineService: TimelineService,
+    private actorService: ActorService,
+    private domainBlockService: DomainBlockService,
+    @Inject(FEDIFY_FEDERATION)
+    private federation: Federation<unknown>,
   ) {}
 
+  /**
+   * Store an uploaded presentation and publish it as a note. Restored
+   * presentations pass `federate: false` and their original `createdAt`.
+   */
   async create(
     file: Express.Multer.File,
     title: string,
     userId: string,
+    description?: string,
+    {
+      federate = true,
+      createdAt,
+    }: { federate?: boolean; createdAt?: Date } = {},
   ): Promise<Presentation> {
     if (!file) {
       throw new BadRequestException('No file provided');
@@ -42,9 +71,11 @@ export class PresentationService {
     // Create presentation record first to get the ID
     const presentation = this.presentationRepository.create({
       title,
+      description: description?.trim() || null,
       pdfKey: '', // Will be set after upload
       url: '', // Will be set after we have the ID
       userId,
+      createdAt,
     });
 
     await this.presentationRepository.save(presentation);
@@ -57,6 +88,7 @@ export class PresentationService {
 
     // Try to generate a PNG thumbnail (first page) and upload it as well
     let thumbnailUrl: string | null = null;
+    let pageCount: number | null = null;
     // Ensure tmpDir is visible to the finally block for cleanup
     let tmpDir: string | undefined;
     try {
@@ -70,8 +102,17 @@ export class PresentationService {
       // Write the uploaded PDF buffer to a temp file
       await fs.writeFile(pdfTmpPath, file.buffer);
 
-      // Use poppler to render the first page to PNG
       const poppler = new PopplerModule.Poppler();
+
+      // Read the page count from the PDF metadata
+      const info = await poppler.pdfInfo(pdfTmpPath);
+      const pagesMatch =
+        typeof info === 'string' ? info.match(/Pages:\s+(\d+)/) : null;
+      if (pagesMatch) {
+        pageCount = parseInt(pagesMatch[1]);
+      }
+
+      // Use poppler to render the first page to PNG
       await poppler.pdfToCairo(pdfTmpPath, outputPrefixPath, {
         firstPageToConvert: 1,
         lastPageToConvert: 1,
@@ -87,7 +128,11 @@ export class PresentationService {
         presentation.id,
         pngBuffer,
       );
-      thumbnailUrl = thumbResult.url;
+      // Serve the thumbnail through the upload proxy so the URL never expires
+      thumbnailUrl = new URL(
+        `/upload/view/${thumbResult.key}`,
+        process.env.FEDERATION_ORIGIN,
+      ).href;
     } catch (err) {
       // Non-fatal: log and continue without thumbnail
       // eslint-disable-next-line no-console
@@ -110,6 +155,8 @@ export class PresentationService {
 
     presentation.pdfKey = key;
     presentation.url = presentationUrl;
+    presentation.pageCount = pageCount;
+    presentation.thumbnailUrl = thumbnailUrl;
     await this.presentationRepository.save(presentation);
 
     // Get actor for the user
@@ -118,7 +165,15 @@ export class PresentationService {
     });
 
     if (actor) {
-      // Create Note with presentation
+      presentation.actorId = actor.id;
+      await this.presentationRepository.save(presentation);
+    }
+
+    if (actor && federate) {
+      // The presentation is federated as a note that every server can render.
+      // The PDF attachment carries the presentation's ID, so that Cosmoslide
+      // instances fetch the presentation and link it to the note.
+      const ctx = await this.#createFederationContext();
       const noteContent = `${title}<br><a href="${presentationUrl}">Detail View</a>`;
       const note = await this.timelineService.createNote(actor, {
         content: noteContent,
@@ -134,6 +189,15 @@ export class PresentationService {
                 },
               ]
             : []),
+          {
+            type: 'Document',
+            id: ctx.getObjectUri(APDocument, {
+              presentationId: presentation.id,
+            }).href,
+            url: getPresentationPdfUrl(ctx, presentation).href,
+            mediaType: 'application/pdf',
+            name: title,
+          },
         ],
       });
 
@@ -147,10 +211,116 @@ export class PresentationService {
     return presentation;
   }
 
+  async #createFederationContext() {
+    const federationOrigin = process.env.FEDERATION_ORIGIN;
+    const ctx = this.federation.createContext(
+      new URL(federationOrigin || ''),
+      undefined,
+    );
+
+    return ctx;
+  }
+
+  /**
+   * Store a Document/Page published by a remote actor as a presentation.
+   * Objects without a PDF attachment are not presentations and are ignored.
+   * The note the presentation was published with, if any, is linked so that
+   * its replies show up as comments.
+   */
+  async persistRemotePresentation(
+    object: APDocument | Page,
+    actor: Actor,
+    note?: Note,
+  ): Promise<Presentation | null> {
+    if (!object.id) return null;
+
+    const existing = await this.presentationRepository.findOne({
+      where: { iri: object.id.href },
+    });
+    if (existing) {
+      if (note && existing.actorId === actor.id && !existing.noteId) {
+        existing.noteId = note.id;
+        await this.presentationRepository.save(existing);
+      }
+      return existing;
+    }
+
+    let pdfUrl: URL | null = null;
+    let pageCount: number | null = null;
+    for await (const attachment of object.getAttachments()) {
+      if (attachment instanceof Link) {
+        if (attachment.mediaType === 'application/pdf' && attachment.href) {
+          pdfUrl ??= attachment.href;
+        }
+      } else if (attachment instanceof PropertyValue) {
+        if (attachment.name?.toString() === PRESENTATION_PAGE_COUNT_PROPERTY) {
+          const value = parseInt(attachment.value?.toString() ?? '');
+          pageCount = isNaN(value) ? null : value;
+        }
+      } else if (
+        attachment instanceof APDocument &&
+        attachment.mediaType === 'application/pdf'
+      ) {
+        const url = attachment.url;
+        pdfUrl ??= url instanceof Link ? url.href : url;
+      }
+    }
+
+    // Fall back to a PDF link among the object's URLs
+    let htmlUrl: URL | null = null;
+    for (const url of object.urls) {
+      if (url instanceof Link) {
+        if (url.mediaType === 'application/pdf') {
+          pdfUrl ??= url.href;
+        } else {
+          htmlUrl ??= url.href;
+        }
+      } else {
+        htmlUrl ??= url;
+      }
+    }
+    if (!pdfUrl) return null;
+
+    const thumbnail = (await this.domainBlockService.rejectsMedia(object.id))
+      ? null
+      : ((await object.getIcon()) ?? (await object.getImage()));
+    const thumbnailUrl =
+      thumbnail?.url instanceof Link ? thumbnail.url.href : thumbnail?.url;
+
+    const presentation = this.presentationRepository.create({
+      title: object.name?.toString() || 'Untitled presentation',
+      description: object.summary?.toString() || null,
+      pageCount,
+      pdfKey: '',
+      pdfUrl: pdfUrl.href,
+      url: (htmlUrl ?? object.id).href,
+      thumbnailUrl: thumbnailUrl?.href ?? null,
+      userId: null,
+      actorId: actor.id,
+      noteId: note?.id ?? null,
+      iri: object.id.href,
+    });
+
+    return this.presentationRepository.save(presentation);
+  }
+
+  /**
+   * Remove a remote presentation after its author deleted it
+   */
+  async deleteRemotePresentation(iri: string, actor: Actor): Promise<boolean> {
+    const presentation = await this.presentationRepository.findOne({
+      where: { iri, actorId: actor.id },
+    });
+    if (!presentation) return false;
+
+    await this.presentationRepository.remove(presentation);
+    return true;
+  }
+
   async findById(id: string): Promise<Presentation> {
     const presentation = await this.presentationRepository.findOne({
       where: { id },
-      relations: ['user'],
+      relations: ['user', 'actor'],
     });
 
     if (!presentation) {
@@ -160,6 +330,21 @@ export class PresentationService {
     return presentation;
   }
 
+  /**
+   * List the presentations of a local (`username`) or remote (`username@domain`) actor
+   */
+  async findByUsername(username: string): Promise<Presentation[]> {
+    const actor = await this.actorService.getActorByUsername(username);
+    if (!actor) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.presentationRepository.find({
+      where: { actorId: actor.id },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
   async findByUserId(userId: string): Promise<Presentation[]> {
     return this.presentationRepository.find({
       where: { userId },
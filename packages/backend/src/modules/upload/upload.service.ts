@@ -1,6 +1,15 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
 import storage from '../../lib/uploader';
 
+// Storage keys of account archives (users/<userId>/exports/<file>)
+const ACCOUNT_ARCHIVE_KEY_PATTERN = /^\/*users\/[^/]+\/exports\//;
+
+// Download URLs of account archives expire after 15 minutes
+const ACCOUNT_ARCHIVE_URL_EXPIRES_IN = 15 * 60;
+
 @Injectable()
 export class UploadService {
   async uploadFile(
@@ -135,6 +144,61 @@ export class UploadService {
     }
   }
 
+  /**
+   * Upload an account archive from a file on disk without loading it into
+   * memory
+   */
+  async uploadAccountArchive(
+    userId: string,
+    archivePath: string,
+  ): Promise<{ key: string }> {
+    // Archives hold private notes and social graph, so their keys must not
+    // be guessable from the user ID and a timestamp
+    const key = `users/${userId}/exports/archive-${Date.now()}-${randomBytes(16).toString('hex')}.zip`;
+
+    try {
+      const { size } = await fs.stat(archivePath);
+      await storage.putStream(key, createReadStream(archivePath), size);
+      return { key };
+    } catch (error) {
+      throw new BadRequestException(
+        `Account archive upload failed: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Get a short-lived download URL for an account archive. The public URL
+   * of the bucket is never used for archives.
+   */
+  async getAccountArchiveUrl(key: string): Promise<string> {
+    try {
+      return await storage.getSignedUrl(key, ACCOUNT_ARCHIVE_URL_EXPIRES_IN);
+    } catch (error) {
+      throw new BadRequestException(`Failed to get file URL: ${error.message}`);
+    }
+  }
+
+  isAccountArchiveKey(key: string): boolean {
+    return ACCOUNT_ARCHIVE_KEY_PATTERN.test(key);
+  }
+
+  async getStoredFile(key: string): Promise<Buffer> {
+    try {
+      return await storage.get(key);
+    } catch (error) {
+      throw new BadRequestException(`Failed to get file: ${error.message}`);
+    }
+  }
+
+  async getStoredFileStream(key: string): Promise<Readable> {
+    try {
+      return await storage.getStream(key);
+    } catch (error) {
+      throw new BadRequestException(`Failed to get file: ${error.message}`);
+    }
+  }
+
   async deleteFile(key: string): Promise<void> {
     try {
       await storage.delete(key);
@@ -145,6 +209,10 @@ export class UploadService {
 
   async getFileUrl(key: string): Promise<string> {
     try {
+      if (this.isAccountArchiveKey(key)) {
+        throw new BadRequestException('File not found');
+      }
+
       const exists = await storage.exists(key);
       if (!exists) {
         throw new BadRequestException('File not found');
@@ -169,6 +237,11 @@ export class UploadService {
     try {
       console.log('Getting file:', key);
 
+      // Account archives are only handed out to their owner
+      if (this.isAccountArchiveKey(key)) {
+        throw new BadRequestException('File not found in S3');
+      }
+
       const exists = await storage.exists(key);
       console.log('File exists:', exists);
 
@@ -89,14 +89,19 @@ export class UserController {
 
   @Get(':username/presentations')
   async getUserPresentations(@Param('username') username: string) {
-    const user = await this.userService.findByUsername(username);
-    const presentations = await this.presentationService.findByUserId(user.id);
+    const presentations =
+      await this.presentationService.findByUsername(username);
 
     return presentations.map((p) => ({
       id: p.id,
       title: p.title,
+      description: p.description,
+      pageCount: p.pageCount,
+      thumbnailUrl: p.thumbnailUrl,
       url: p.url,
       pdfKey: p.pdfKey,
+      pdfUrl: p.pdfUrl,
+      iri: p.iri,
       noteId: p.noteId,
       createdAt: p.createdAt,
     }));
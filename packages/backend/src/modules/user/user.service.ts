@@ -264,6 +264,7 @@ export class UserService {
     outboxUrl: string;
     followersUrl: string;
     followingUrl: string;
+    movedTo: string | null;
     actor?: {
       icon?: {
         type: string;
@@ -297,6 +298,7 @@ export class UserService {
       outboxUrl: user.outboxUrl,
       followersUrl: user.followersUrl,
       followingUrl: user.followingUrl,
+      movedTo: user.actor?.movedTo ?? null,
       actor: user.actor
         ? {
             icon: user.actor.icon,
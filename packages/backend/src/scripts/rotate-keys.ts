@@ -0,0 +1,48 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { AdminService } from '../modules/admin/admin.service';
+
+async function rotateKeys() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 1) {
+    console.error('Usage: npm run rotate-keys <username> [gracePeriodHours]');
+    console.error('Example: npm run rotate-keys alice 48');
+    process.exit(1);
+  }
+
+  const [username, gracePeriod] = args;
+  const gracePeriodHours =
+    gracePeriod !== undefined ? parseInt(gracePeriod, 10) : undefined;
+
+  if (gracePeriodHours !== undefined && isNaN(gracePeriodHours)) {
+    console.error('Grace period must be a number of hours');
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const adminService = app.get(AdminService);
+
+  try {
+    const { keys, previousKeysExpireAt } =
+      await adminService.rotateUserKeysByUsername(username, gracePeriodHours);
+
+    console.log('\n=== Signing Keys Rotated ===');
+    console.log(`Username: ${username}`);
+    for (const key of keys) {
+      console.log(`${key.algorithm}: ${key.fingerprint}`);
+    }
+    console.log(
+      `Previous keys expire at: ${previousKeysExpireAt.toISOString()}`,
+    );
+    console.log('============================\n');
+  } catch (error) {
+    console.error('Error rotating keys:', error.message);
+    process.exit(1);
+  } finally {
+    await app.close();
+  }
+}
+
+// Run the script
+rotateKeys();
@@ -31,6 +31,12 @@ declare module 'node-poppler' {
       | 'best';
   }
 
+  export interface PdfInfoOptions {
+    firstPageToConvert?: number;
+    lastPageToConvert?: number;
+    printAsJson?: boolean;
+  }
+
   export class Poppler {
     constructor(options?: PopplerOptions);
     pdfToCairo(
@@ -38,5 +44,9 @@ declare module 'node-poppler' {
       outputFilePrefix: string,
       options?: PdfToCairoOptions,
     ): Promise<string>;
+    pdfInfo(
+      inputFile: string,
+      options?: PdfInfoOptions,
+    ): Promise<object | string>;
   }
 }
@@ -0,0 +1,220 @@
+import type { KvKey } from '@fedify/fedify';
+import { Temporal } from '@js-temporal/polyfill';
+import { DataSource } from 'typeorm';
+import { FederationKvEntry } from './../src/entities/federation-kv-entry.entity';
+import { TypeOrmKvStore } from './../src/lib/fedify/typeorm-kv-store';
+
+// Runs against the database of docker-compose.test.yml unless DATABASE_*
+// points elsewhere
+function createDataSource(): DataSource {
+  return new DataSource({
+    type: 'postgres',
+    host: process.env.DATABASE_HOST || 'localhost',
+    port: +(process.env.DATABASE_PORT || 5434),
+    username: process.env.DATABASE_USERNAME || 'testuser',
+    password: process.env.DATABASE_PASSWORD || 'testpass',
+    database: process.env.DATABASE_NAME || 'fedify_test',
+    entities: [FederationKvEntry],
+    synchronize: true,
+  });
+}
+
+// Orders keys element by element, a prefix before the keys below it
+function compareKeys(a: KvKey, b: KvKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+const sleep = (milliseconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+describe('TypeOrmKvStore', () => {
+  let dataSource: DataSource;
+  let store: TypeOrmKvStore;
+
+  beforeAll(async () => {
+    dataSource = await createDataSource().initialize();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(FederationKvEntry).clear();
+    store = new TypeOrmKvStore();
+    store.attach(dataSource);
+  });
+
+  const listKeys = async (prefix?: KvKey) => {
+    const keys: KvKey[] = [];
+    for await (const entry of store.list(prefix)) {
+      keys.push(entry.key);
+    }
+    // The order depends on the database collation, so compare sorted keys
+    return keys.sort(compareKeys);
+  };
+
+  it('waits for attach() before touching the database', async () => {
+    const detached = new TypeOrmKvStore();
+    const pending = detached.set(['key'], 'value');
+    detached.attach(dataSource);
+    await pending;
+
+    expect(await store.get(['key'])).toBe('value');
+  });
+
+  it('gets, overwrites and deletes values', async () => {
+    expect(await store.get(['key'])).toBeUndefined();
+
+    await store.set(['key'], { a: 1 });
+    expect(await store.get(['key'])).toEqual({ a: 1 });
+
+    await store.set(['key'], [1, 2]);
+    expect(await store.get(['key'])).toEqual([1, 2]);
+
+    await store.delete(['key']);
+    expect(await store.get(['key'])).toBeUndefined();
+  });
+
+  describe('cas', () => {
+    it('sets the value when the current value matches', async () => {
+      await store.set(['key'], { count: 1 });
+
+      expect(await store.cas(['key'], { count: 1 }, { count: 2 })).toBe(true);
+      expect(await store.get(['key'])).toEqual({ count: 2 });
+    });
+
+    it('keeps the value when the current value differs', async () => {
+      await store.set(['key'], { count: 1 });
+
+      expect(await store.cas(['key'], { count: 0 }, { count: 2 })).toBe(false);
+      expect(await store.get(['key'])).toEqual({ count: 1 });
+    });
+
+    it('treats a missing key as undefined', async () => {
+      expect(await store.cas(['key'], null, 'value')).toBe(false);
+      expect(await store.cas(['key'], undefined, 'value')).toBe(true);
+      expect(await store.get(['key'])).toBe('value');
+    });
+
+    it('lets only one of several concurrent swaps win', async () => {
+      await store.set(['key'], 0);
+
+      const results = await Promise.all(
+        [1, 2, 3, 4].map((value) => store.cas(['key'], 0, value)),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await store.get(['key'])).toBe(results.indexOf(true) + 1);
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      const keys: KvKey[] = [
+        ['a'],
+        ['a', 'b'],
+        ['a', 'b', 'c'],
+        ['a', 'bc'],
+        ['ab'],
+        ['a%', 'x'],
+        ['a_', 'x'],
+        ['a\\', 'x'],
+        ['b'],
+      ];
+      for (const key of keys) {
+        await store.set(key, key.join('/'));
+      }
+    });
+
+    it('lists every entry without a prefix', async () => {
+      expect(await listKeys()).toHaveLength(9);
+    });
+
+    it('lists the prefix itself and the keys below it', async () => {
+      expect(await listKeys(['a', 'b'])).toEqual([
+        ['a', 'b'],
+        ['a', 'b', 'c'],
+      ]);
+      expect(await listKeys(['a'])).toEqual([
+        ['a'],
+        ['a', 'b'],
+        ['a', 'b', 'c'],
+        ['a', 'bc'],
+      ]);
+    });
+
+    it('matches LIKE metacharacters in the prefix literally', async () => {
+      expect(await listKeys(['a%'])).toEqual([['a%', 'x']]);
+      expect(await listKeys(['a_'])).toEqual([['a_', 'x']]);
+      expect(await listKeys(['a\\'])).toEqual([['a\\', 'x']]);
+    });
+
+    it('returns the stored values', async () => {
+      const entries: unknown[] = [];
+      for await (const entry of store.list(['a', 'b'])) {
+        entries.push(entry);
+      }
+
+      expect(entries).toHaveLength(2);
+      expect(entries).toEqual(
+        expect.arrayContaining([
+          { key: ['a', 'b'], value: 'a/b' },
+          { key: ['a', 'b', 'c'], value: 'a/b/c' },
+        ]),
+      );
+    });
+  });
+
+  describe('ttl', () => {
+    it('expires entries', async () => {
+      await store.set(['short'], 'value', {
+        ttl: Temporal.Duration.from({ milliseconds: 100 }),
+      });
+      await store.set(['long'], 'value', {
+        ttl: Temporal.Duration.from({ hours: 1 }),
+      });
+
+      expect(await store.get(['short'])).toBe('value');
+      await sleep(200);
+
+      expect(await store.get(['short'])).toBeUndefined();
+      expect(await store.get(['long'])).toBe('value');
+      expect(await listKeys()).toEqual([['long']]);
+    });
+
+    it('removes expired entries once they are read', async () => {
+      await store.set(['key'], 'value', {
+        ttl: Temporal.Duration.from({ milliseconds: 100 }),
+      });
+      await sleep(200);
+
+      await store.get(['key']);
+      expect(await dataSource.getRepository(FederationKvEntry).count()).toBe(0);
+    });
+
+    it('treats an expired entry as missing in cas', async () => {
+      await store.set(['key'], 'old', {
+        ttl: Temporal.Duration.from({ milliseconds: 100 }),
+      });
+      await sleep(200);
+
+      expect(await store.cas(['key'], 'old', 'new')).toBe(false);
+      expect(await store.cas(['key'], undefined, 'new')).toBe(true);
+      expect(await store.get(['key'])).toBe('new');
+    });
+
+    it('clears the expiry when a value is set without ttl', async () => {
+      await store.set(['key'], 'value', {
+        ttl: Temporal.Duration.from({ milliseconds: 100 }),
+      });
+      await store.set(['key'], 'value');
+      await sleep(200);
+
+      expect(await store.get(['key'])).toBe('value');
+    });
+  });
+});
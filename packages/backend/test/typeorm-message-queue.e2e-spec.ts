@@ -0,0 +1,248 @@
+import { Temporal } from '@js-temporal/polyfill';
+import { DataSource } from 'typeorm';
+import { FederationDeadLetter } from './../src/entities/federation-dead-letter.entity';
+import { FederationQueueMessage } from './../src/entities/federation-queue-message.entity';
+import {
+  TypeOrmMessageQueue,
+  TypeOrmMessageQueueOptions,
+} from './../src/lib/fedify/typeorm-message-queue';
+
+// Runs against the database of docker-compose.test.yml unless DATABASE_*
+// points elsewhere
+function createDataSource(): DataSource {
+  return new DataSource({
+    type: 'postgres',
+    host: process.env.DATABASE_HOST || 'localhost',
+    port: +(process.env.DATABASE_PORT || 5434),
+    username: process.env.DATABASE_USERNAME || 'testuser',
+    password: process.env.DATABASE_PASSWORD || 'testpass',
+    database: process.env.DATABASE_NAME || 'fedify_test',
+    entities: [FederationQueueMessage, FederationDeadLetter],
+    synchronize: true,
+  });
+}
+
+const sleep = (milliseconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+async function waitFor(
+  condition: () => Promise<boolean> | boolean,
+  timeout: number = 5000,
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await sleep(20);
+  }
+}
+
+describe('TypeOrmMessageQueue', () => {
+  let dataSource: DataSource;
+  let controller: AbortController;
+  let listeners: Promise<void>[];
+
+  const queueRepository = () =>
+    dataSource.getRepository(FederationQueueMessage);
+  const deadLetterRepository = () =>
+    dataSource.getRepository(FederationDeadLetter);
+
+  const createQueue = (
+    options: TypeOrmMessageQueueOptions = {},
+    source: DataSource = dataSource,
+  ) => {
+    const queue = new TypeOrmMessageQueue({
+      pollInterval: { milliseconds: 20 },
+      ...options,
+    });
+    queue.attach(source);
+    return queue;
+  };
+
+  const listen = (
+    queue: TypeOrmMessageQueue,
+    handler: (message: any) => Promise<void> | void,
+  ) => {
+    listeners.push(queue.listen(handler, { signal: controller.signal }));
+  };
+
+  beforeAll(async () => {
+    dataSource = await createDataSource().initialize();
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await queueRepository().clear();
+    await deadLetterRepository().clear();
+    controller = new AbortController();
+    listeners = [];
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await Promise.all(listeners);
+  });
+
+  it('delivers messages and removes them once handled', async () => {
+    const queue = createQueue();
+    const received: unknown[] = [];
+
+    await queue.enqueue({ type: 'outbox', inbox: 'https://a.test/inbox' });
+    const [row] = await queueRepository().find();
+    expect(row.type).toBe('outbox');
+    expect(row.destination).toBe('a.test');
+
+    listen(queue, (message) => {
+      received.push(message);
+    });
+    await waitFor(() => received.length === 1);
+    await waitFor(async () => (await queueRepository().count()) === 0);
+
+    expect(received).toEqual([
+      { type: 'outbox', inbox: 'https://a.test/inbox' },
+    ]);
+  });
+
+  it('holds back delayed messages', async () => {
+    const queue = createQueue();
+    const received: unknown[] = [];
+
+    await queue.enqueue(
+      { type: 'inbox' },
+      {
+        delay: Temporal.Duration.from({ seconds: 60 }),
+      },
+    );
+    listen(queue, (message) => {
+      received.push(message);
+    });
+    await sleep(200);
+
+    expect(received).toHaveLength(0);
+    expect(await queueRepository().count()).toBe(1);
+  });
+
+  it('hands each message to exactly one of two competing workers', async () => {
+    const otherDataSource = await createDataSource().initialize();
+    try {
+      const handled = new Map<number, string[]>();
+      const handler = (worker: string) => async (message: any) => {
+        handled.set(message.index, [
+          ...(handled.get(message.index) ?? []),
+          worker,
+        ]);
+        // Keep the message claimed while the other worker polls
+        await sleep(10);
+      };
+
+      const first = createQueue();
+      const second = createQueue({}, otherDataSource);
+      await first.enqueueMany(
+        Array.from({ length: 20 }, (_, index) => ({ type: 'inbox', index })),
+      );
+
+      listen(first, handler('first'));
+      listen(second, handler('second'));
+      await waitFor(async () => (await queueRepository().count()) === 0);
+
+      expect(handled.size).toBe(20);
+      for (const workers of handled.values()) {
+        expect(workers).toHaveLength(1);
+      }
+
+      controller.abort();
+      await Promise.all(listeners);
+    } finally {
+      await otherDataSource.destroy();
+    }
+  });
+
+  it('retries failed messages with exponential backoff', async () => {
+    const queue = createQueue({
+      initialRetryDelay: { seconds: 30 },
+      maxRetryDelay: { seconds: 100 },
+    });
+    let calls = 0;
+
+    await queue.enqueue({ type: 'inbox' });
+    listen(queue, () => {
+      calls++;
+      throw new Error(`failure ${calls}`);
+    });
+
+    // Seconds until the next attempt, after the given number of failures
+    const nextDelay = async (failures: number) => {
+      await waitFor(async () => {
+        const row = await queueRepository().findOneByOrFail({});
+        return row.attempts === failures && row.lockedUntil === null;
+      });
+      const row = await queueRepository().findOneByOrFail({});
+      expect(row.lastError).toContain(`failure ${failures}`);
+      return (row.availableAt.getTime() - Date.now()) / 1000;
+    };
+    const makeDue = () =>
+      queueRepository()
+        .createQueryBuilder()
+        .update()
+        .set({ availableAt: new Date() })
+        .execute();
+
+    const delays: number[] = [];
+    for (let failures = 1; failures <= 4; failures++) {
+      delays.push(await nextDelay(failures));
+      await makeDue();
+    }
+
+    expect(delays[0]).toBeCloseTo(30, 0);
+    expect(delays[1]).toBeCloseTo(60, 0);
+    expect(delays[2]).toBeCloseTo(100, 0);
+    expect(delays[3]).toBeCloseTo(100, 0);
+  });
+
+  it('moves a message to the dead letters after the last attempt', async () => {
+    const queue = createQueue({
+      initialRetryDelay: { milliseconds: 10 },
+      maxAttempts: 3,
+    });
+    let calls = 0;
+
+    await queue.enqueue({ type: 'outbox', inbox: 'https://a.test/inbox' });
+    listen(queue, () => {
+      calls++;
+      throw new Error('unreachable');
+    });
+    await waitFor(async () => (await deadLetterRepository().count()) === 1);
+
+    expect(calls).toBe(3);
+    expect(await queueRepository().count()).toBe(0);
+
+    const [deadLetter] = await deadLetterRepository().find();
+    expect(deadLetter.message).toEqual({
+      type: 'outbox',
+      inbox: 'https://a.test/inbox',
+    });
+    expect(deadLetter.destination).toBe('a.test');
+    expect(deadLetter.attempts).toBe(3);
+    expect(deadLetter.lastError).toContain('unreachable');
+  });
+
+  it('releases messages whose worker stopped before finishing', async () => {
+    const queue = createQueue();
+    await queue.enqueue({ type: 'inbox' });
+
+    // A claim that timed out, as left behind by a crashed worker
+    await queueRepository()
+      .createQueryBuilder()
+      .update()
+      .set({ attempts: 1, lockedUntil: new Date(Date.now() - 1000) })
+      .execute();
+
+    const received: unknown[] = [];
+    listen(queue, (message) => {
+      received.push(message);
+    });
+    await waitFor(() => received.length === 1);
+  });
+});
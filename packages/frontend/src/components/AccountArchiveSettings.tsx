@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { accountArchiveApi, type AccountExport } from '@/lib/api';
+
+// How often an export in progress is checked on
+const EXPORT_POLL_INTERVAL = 3000;
+
+const isExportInProgress = (accountExport: AccountExport | null) =>
+  accountExport?.status === 'pending' || accountExport?.status === 'running';
+
+export default function AccountArchiveSettings() {
+  const [accountExport, setAccountExport] = useState<AccountExport | null>(
+    null,
+  );
+  const [requesting, setRequesting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error';
+    text: string;
+  } | null>(null);
+
+  const exporting = requesting || isExportInProgress(accountExport);
+
+  useEffect(() => {
+    accountArchiveApi
+      .getExport()
+      .then(setAccountExport)
+      .catch(() => {
+        // Without a previous export there is nothing to show
+      });
+  }, []);
+
+  // Archives are built in the background, so check on them until they are
+  // done
+  useEffect(() => {
+    if (!isExportInProgress(accountExport)) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const latest = await accountArchiveApi.getExport();
+        setAccountExport(latest);
+        if (latest?.status === 'failed') {
+          setMessage({
+            type: 'error',
+            text: latest.error || 'Failed to export account',
+          });
+        }
+      } catch (error) {
+        setAccountExport(null);
+        setMessage({
+          type: 'error',
+          text:
+            error instanceof Error ? error.message : 'Failed to export account',
+        });
+      }
+    }, EXPORT_POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [accountExport]);
+
+  const handleExport = async () => {
+    setRequesting(true);
+    setMessage(null);
+    try {
+      setAccountExport(await accountArchiveApi.requestExport());
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error ? error.message : 'Failed to export account',
+      });
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  // Download links expire quickly, so a fresh one is fetched on each click
+  const handleDownload = async () => {
+    setMessage(null);
+    try {
+      const latest = await accountArchiveApi.getExport();
+      setAccountExport(latest);
+      if (latest?.url) {
+        window.location.href = latest.url;
+      }
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error ? error.message : 'Failed to download archive',
+      });
+    }
+  };
+
+  const handleImportFollowing = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const { followed, failed } =
+        await accountArchiveApi.importFollowing(file);
+      setMessage({
+        type: failed.length > 0 ? 'error' : 'success',
+        text:
+          failed.length > 0
+            ? `Followed ${followed} accounts. Failed: ${failed.map((item) => item.address).join(', ')}`
+            : `Followed ${followed} accounts.`,
+      });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error ? error.message : 'Failed to import follows',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportArchive = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const { restored } = await accountArchiveApi.importArchive(file);
+      setMessage({
+        type: 'success',
+        text: `Restored ${restored} presentations.`,
+      });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text:
+          error instanceof Error ? error.message : 'Failed to import archive',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Export & Import
+        </h2>
+      </div>
+      <div className="p-6 space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-lg text-sm ${
+              message.type === 'success'
+                ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Download Archive
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Notes, presentations, follows and blocks as a ZIP file
+            </p>
+            {accountExport?.status === 'completed' && accountExport.url && (
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Download the archive of{' '}
+                {new Date(accountExport.createdAt).toLocaleString()}
+              </button>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {exporting ? 'Preparing...' : 'Export'}
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Import Follows
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Follow the accounts listed in a following CSV
+            </p>
+          </div>
+          <label
+            className={`px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors ${importing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            Choose CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleImportFollowing}
+              disabled={importing}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">
+              Restore Presentations
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Upload an account archive to restore its presentations
+            </p>
+          </div>
+          <label
+            className={`px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors ${importing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            Choose ZIP
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImportArchive}
+              disabled={importing}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { userApi } from '@/lib/api';
+
+export default function AccountMigrationSettings() {
+  const [aliases, setAliases] = useState<string[]>([]);
+  const [movedTo, setMovedTo] = useState<string | null>(null);
+  const [aliasHandle, setAliasHandle] = useState('');
+  const [moveTarget, setMoveTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    userApi
+      .getAliases()
+      .then((data) => {
+        setAliases(data.aliases);
+        setMovedTo(data.movedTo);
+      })
+      .catch((err) => console.error('Failed to load aliases:', err));
+  }, []);
+
+  const handleAddAlias = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!aliasHandle.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await userApi.addAlias(aliasHandle.trim());
+      setAliases(data.aliases);
+      setAliasHandle('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add alias');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveAlias = async (iri: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await userApi.removeAlias(iri);
+      setAliases(data.aliases);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove alias');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMove = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!moveTarget.trim()) return;
+    if (
+      !confirm(
+        `Move this account to ${moveTarget.trim()}? Your followers will be asked to follow the new account. This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await userApi.moveAccount(moveTarget.trim());
+      setMovedTo(data.movedTo);
+      setMoveTarget('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to move account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          Account Migration
+        </h2>
+      </div>
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white">
+            Account Aliases
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            To move another account here, add it as an alias first
+          </p>
+          {aliases.length > 0 && (
+            <ul className="mb-3 space-y-2">
+              {aliases.map((alias) => (
+                <li
+                  key={alias}
+                  className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-900 rounded-lg text-sm"
+                >
+                  <span className="font-mono text-gray-700 dark:text-gray-300 break-all">
+                    {alias}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAlias(alias)}
+                    disabled={saving}
+                    className="ml-3 text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleAddAlias} className="flex gap-2">
+            <input
+              type="text"
+              value={aliasHandle}
+              onChange={(e) => setAliasHandle(e.target.value)}
+              placeholder="@username@example.com"
+              disabled={saving}
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Add Alias
+            </button>
+          </form>
+        </div>
+
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white">
+            Move to Another Account
+          </h3>
+          {movedTo ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              This account has moved to{' '}
+              <a
+                href={movedTo}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 dark:text-blue-400 hover:underline break-all"
+              >
+                {movedTo}
+              </a>
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                The new account must list this account as an alias
+              </p>
+              <form onSubmit={handleMove} className="flex gap-2">
+                <input
+                  type="text"
+                  value={moveTarget}
+                  onChange={(e) => setMoveTarget(e.target.value)}
+                  placeholder="@username@example.com"
+                  disabled={saving}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-red-600 text-white rounded-full hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Move
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Link, useNavigate, useLocation } from '@tanstack/react-router';
 import { useAuth } from '@/contexts/AuthContext';
+import NotificationCenter from '@/components/NotificationCenter';
 
 export default function NavigationHeader() {
   const navigate = useNavigate();
@@ -22,7 +23,19 @@ export default function NavigationHeader() {
       icon: '🌍',
       requiresAuth: false,
     },
+    {
+      href: '/timeline/federated',
+      label: 'Federated',
+      icon: '🛰️',
+      requiresAuth: false,
+    },
     { href: '/search', label: 'Search', icon: '🔍', requiresAuth: true },
+    {
+      href: '/conversations',
+      label: 'Messages',
+      icon: '✉️',
+      requiresAuth: true,
+    },
     {
       href: '/presentations',
       label: 'Presentations',
@@ -73,6 +86,7 @@ export default function NavigationHeader() {
           <div className="flex items-center space-x-3">
             {currentUser ? (
               <div className="flex items-center space-x-3">
+                <NotificationCenter />
                 <Link
                   to="/$username"
                   params={{ username: `@${currentUser.username}` }}
@@ -1,6 +1,10 @@
-import { Link } from '@tanstack/react-router';
+import { Link, useNavigate } from '@tanstack/react-router';
 import { useState } from 'react';
 import { notesApi } from '@/lib/api';
+import NoteComposer from '@/components/NoteComposer';
+import ReactionBar from '@/components/ReactionBar';
+import PollView from '@/components/PollView';
+import type { NoteTag, Poll, Reaction } from '@/lib/types';
 
 // Extended Actor type that includes optional fields that may come from API
 interface NoteAuthor {
@@ -25,6 +29,18 @@ interface NoteData {
   visibility: string;
   createdAt: string;
   author?: NoteAuthor;
+  likesCount?: number;
+  liked?: boolean;
+  sharesCount?: number;
+  shared?: boolean;
+  editedAt?: string | null;
+  inReplyToId?: string | null;
+  repliesCount?: number;
+  pinned?: boolean;
+  reactions?: Reaction[];
+  quotedNote?: NoteData | null;
+  poll?: Poll | null;
+  tags?: NoteTag[];
 }
 
 interface NoteCardNote extends NoteData {
@@ -43,18 +59,34 @@ interface NoteCardProps {
   note: NoteCardNote;
   currentUserId?: string;
   onDelete?: (noteId: string) => void;
+  onPinChange?: (noteId: string, pinned: boolean) => void;
 }
 
 export default function NoteCard({
   note,
   currentUserId,
   onDelete,
+  onPinChange,
 }: NoteCardProps) {
+  const navigate = useNavigate();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [pinned, setPinned] = useState(!!note.pinned);
+  const [isPinning, setIsPinning] = useState(false);
 
   // For shared posts, we need to handle the original content
   const displayNote = note.isShared && note.sharedNote ? note.sharedNote : note;
   const [showContent, setShowContent] = useState(!displayNote.contentWarning);
+  const [liked, setLiked] = useState(!!displayNote.liked);
+  const [likesCount, setLikesCount] = useState(displayNote.likesCount || 0);
+  const [isLiking, setIsLiking] = useState(false);
+  const [shared, setShared] = useState(!!displayNote.shared);
+  const [sharesCount, setSharesCount] = useState(displayNote.sharesCount || 0);
+  const [isSharing, setIsSharing] = useState(false);
+  const [showReplyComposer, setShowReplyComposer] = useState(false);
+  const [showQuoteComposer, setShowQuoteComposer] = useState(false);
+  const [repliesCount, setRepliesCount] = useState(
+    displayNote.repliesCount || 0,
+  );
 
   // Get the author info (for shared posts, this is the original author)
   const authorUsername =
@@ -85,6 +117,39 @@ export default function NoteCard({
 
   const authorHandle = authorAcct;
 
+  const hashtags = (displayNote.tags || [])
+    .filter((tag) => tag.type === 'Hashtag' && tag.name)
+    .map((tag) => tag.name.replace(/^#/, ''));
+
+  // Hashtag links in remote content open the local hashtag page instead of
+  // the remote instance
+  const handleContentClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest('a');
+    if (
+      !link ||
+      !(link.relList.contains('tag') || link.classList.contains('hashtag'))
+    ) {
+      return;
+    }
+    const tagName = link.textContent?.trim().replace(/^#/, '');
+    if (!tagName) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    navigate({ to: '/tags/$name', params: { name: tagName } });
+  };
+
+  const quotedNote = displayNote.quotedNote;
+  const quotedAuthorName =
+    quotedNote?.author?.displayName ||
+    quotedNote?.author?.name ||
+    quotedNote?.author?.username ||
+    quotedNote?.author?.preferredUsername ||
+    'unknown';
+  const quotedAuthorHandle =
+    quotedNote?.author?.acct ||
+    `@${quotedNote?.author?.username || quotedNote?.author?.preferredUsername || 'unknown'}`;
+
   const isOwner =
     currentUserId &&
     (note.author?.userId === currentUserId ||
@@ -105,6 +170,70 @@ export default function NoteCard({
     }
   };
 
+  // Only public and unlisted notes can be featured on a profile
+  const canPin =
+    isOwner &&
+    !note.isShared &&
+    (note.visibility === 'public' || note.visibility === 'unlisted');
+
+  const handlePin = async () => {
+    if (isPinning) return;
+
+    setIsPinning(true);
+    try {
+      const result = pinned
+        ? await notesApi.unpin(note.id)
+        : await notesApi.pin(note.id);
+      setPinned(result.pinned);
+      onPinChange?.(note.id, result.pinned);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to pin note');
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  const handleLike = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isLiking) return;
+
+    setIsLiking(true);
+    try {
+      const result = liked
+        ? await notesApi.unlike(displayNote.id)
+        : await notesApi.like(displayNote.id);
+      setLiked(result.liked);
+      setLikesCount(result.likesCount);
+    } catch (error) {
+      console.error('Failed to update like:', error);
+    } finally {
+      setIsLiking(false);
+    }
+  };
+
+  // Only public and unlisted notes can be boosted
+  const canShare =
+    displayNote.visibility === 'public' ||
+    displayNote.visibility === 'unlisted';
+
+  const handleShare = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isSharing || !canShare) return;
+
+    setIsSharing(true);
+    try {
+      const result = shared
+        ? await notesApi.unshare(displayNote.id)
+        : await notesApi.share(displayNote.id);
+      setShared(result.shared);
+      setSharesCount(result.sharesCount);
+    } catch (error) {
+      console.error('Failed to update boost:', error);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -128,6 +257,14 @@ export default function NoteCard({
 
   return (
     <article className="bg-white dark:bg-gray-800 rounded-lg p-4 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors cursor-pointer">
+      {/* Pinned post indicator */}
+      {pinned && (
+        <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400 mb-2 ml-12">
+          <span>📌</span>
+          <span>Pinned</span>
+        </div>
+      )}
+
       {/* Shared post indicator */}
       {note.isShared && note.sharedBy && (
         <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400 mb-2 ml-12">
@@ -191,20 +328,54 @@ export default function NoteCard({
               >
                 {formatDate(displayNote.createdAt)}
               </time>
+              {displayNote.editedAt && (
+                <span
+                  className="text-gray-400 dark:text-gray-500 text-xs"
+                  title={`Edited ${new Date(displayNote.editedAt).toLocaleString()}`}
+                >
+                  (edited)
+                </span>
+              )}
             </div>
 
             {isOwner && (
-              <button
-                onClick={handleDelete}
-                disabled={isDeleting}
-                className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
-                title="Delete note"
-              >
-                {isDeleting ? '...' : '🗑️'}
-              </button>
+              <div className="flex items-center space-x-2">
+                {canPin && (
+                  <button
+                    onClick={handlePin}
+                    disabled={isPinning}
+                    className={`transition-colors ${
+                      pinned
+                        ? 'opacity-100'
+                        : 'opacity-50 hover:opacity-100 grayscale hover:grayscale-0'
+                    }`}
+                    title={pinned ? 'Unpin from profile' : 'Pin to profile'}
+                  >
+                    {isPinning ? '...' : '📌'}
+                  </button>
+                )}
+                <button
+                  onClick={handleDelete}
+                  disabled={isDeleting}
+                  className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
+                  title="Delete note"
+                >
+                  {isDeleting ? '...' : '🗑️'}
+                </button>
+              </div>
             )}
           </div>
 
+          {displayNote.inReplyToId && (
+            <Link
+              to="/notes/$id"
+              params={{ id: displayNote.inReplyToId }}
+              className="block mt-1 text-xs text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              ↩️ Replying to a note
+            </Link>
+          )}
+
           {/* Content Warning */}
           {displayNote.contentWarning && (
             <div className="mt-2 p-2 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg">
@@ -232,32 +403,130 @@ export default function NoteCard({
               <div
                 className="note-content text-gray-900 dark:text-white whitespace-pre-wrap break-words"
                 dangerouslySetInnerHTML={{ __html: displayNote.content }}
+                onClick={handleContentClick}
               />
             </Link>
           )}
 
+          {showContent && hashtags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2 text-sm">
+              {hashtags.map((tagName) => (
+                <Link
+                  key={tagName}
+                  to="/tags/$name"
+                  params={{ name: tagName }}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  #{tagName}
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {showContent && displayNote.poll && (
+            <PollView
+              noteId={displayNote.id}
+              poll={displayNote.poll}
+              isOwner={
+                !!currentUserId && displayNote.author?.userId === currentUserId
+              }
+            />
+          )}
+
+          {/* Quoted note */}
+          {showContent && quotedNote && (
+            <Link
+              to="/notes/$id"
+              params={{ id: quotedNote.id }}
+              className="block mt-3 p-3 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-600"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center space-x-1 text-sm">
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {quotedAuthorName}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {quotedAuthorHandle}
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">·</span>
+                <time
+                  className="text-gray-500 dark:text-gray-400"
+                  title={new Date(quotedNote.createdAt).toLocaleString()}
+                >
+                  {formatDate(quotedNote.createdAt)}
+                </time>
+              </div>
+              {quotedNote.contentWarning ? (
+                <p className="mt-1 text-sm text-yellow-800 dark:text-yellow-200">
+                  ⚠️ {quotedNote.contentWarning}
+                </p>
+              ) : (
+                <div
+                  className="note-content mt-1 text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words"
+                  dangerouslySetInnerHTML={{ __html: quotedNote.content }}
+                />
+              )}
+            </Link>
+          )}
+
+          <ReactionBar
+            reactions={displayNote.reactions}
+            onReact={(content) => notesApi.react(displayNote.id, content)}
+            onUnreact={(content) => notesApi.unreact(displayNote.id, content)}
+          />
+
           {/* Actions Bar */}
           <div className="flex items-center space-x-6 mt-3 text-sm">
             <button
-              onClick={(e) => e.stopPropagation()}
-              className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowReplyComposer(!showReplyComposer);
+                setShowQuoteComposer(false);
+              }}
+              className="flex items-center space-x-1 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
               title="Reply"
             >
-              💬
+              <span>💬</span>
+              {repliesCount > 0 && <span>{repliesCount}</span>}
             </button>
             <button
-              onClick={(e) => e.stopPropagation()}
-              className="text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400 transition-colors"
-              title="Boost"
+              onClick={handleShare}
+              disabled={isSharing || !canShare}
+              className={`flex items-center space-x-1 transition-colors disabled:opacity-50 ${
+                shared
+                  ? 'text-green-600 dark:text-green-400'
+                  : 'text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400'
+              }`}
+              title={shared ? 'Undo boost' : 'Boost'}
             >
-              🔄
+              <span>🔄</span>
+              {sharesCount > 0 && <span>{sharesCount}</span>}
             </button>
+            {canShare && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowQuoteComposer(!showQuoteComposer);
+                  setShowReplyComposer(false);
+                }}
+                className="flex items-center space-x-1 text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors"
+                title="Quote"
+              >
+                <span>❝</span>
+              </button>
+            )}
             <button
-              onClick={(e) => e.stopPropagation()}
-              className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 transition-colors"
-              title="Like"
+              onClick={handleLike}
+              disabled={isLiking}
+              className={`flex items-center space-x-1 transition-colors ${
+                liked
+                  ? 'text-red-600 dark:text-red-400'
+                  : 'text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400'
+              }`}
+              title={liked ? 'Unlike' : 'Like'}
             >
-              ❤️
+              <span>{liked ? '❤️' : '🤍'}</span>
+              {likesCount > 0 && <span>{likesCount}</span>}
             </button>
             <Link
               to="/notes/$id"
@@ -268,6 +537,31 @@ export default function NoteCard({
               →
             </Link>
           </div>
+
+          {showReplyComposer && (
+            <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+              <NoteComposer
+                inReplyToId={displayNote.id}
+                placeholder={`Reply to ${authorHandle}...`}
+                onCancel={() => setShowReplyComposer(false)}
+                onNoteCreated={() => {
+                  setShowReplyComposer(false);
+                  setRepliesCount(repliesCount + 1);
+                }}
+              />
+            </div>
+          )}
+
+          {showQuoteComposer && (
+            <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+              <NoteComposer
+                quotedNoteId={displayNote.id}
+                placeholder={`Quote ${authorHandle}...`}
+                onCancel={() => setShowQuoteComposer(false)}
+                onNoteCreated={() => setShowQuoteComposer(false)}
+              />
+            </div>
+          )}
         </div>
       </div>
     </article>
@@ -3,33 +3,60 @@ import { notesApi } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 import type { Note, NoteVisibility } from '@/lib/types';
 
+const POLL_MAX_OPTIONS = 4;
+
+// Poll durations offered in the composer, in seconds
+const POLL_DURATIONS = [
+  { label: '5 minutes', value: 5 * 60 },
+  { label: '1 hour', value: 60 * 60 },
+  { label: '1 day', value: 24 * 60 * 60 },
+  { label: '3 days', value: 3 * 24 * 60 * 60 },
+  { label: '7 days', value: 7 * 24 * 60 * 60 },
+];
+
 interface NoteComposerProps {
   onNoteCreated?: (note: Note) => void;
   placeholder?: string;
+  inReplyToId?: string;
+  quotedNoteId?: string;
+  onCancel?: () => void;
+  initialContent?: string;
+  defaultVisibility?: NoteVisibility;
 }
 
 export default function NoteComposer({
   onNoteCreated,
   placeholder = "What's happening?",
+  inReplyToId,
+  quotedNoteId,
+  onCancel,
+  initialContent = '',
+  defaultVisibility,
 }: NoteComposerProps) {
   const { user } = useAuth();
-  const [content, setContent] = useState('');
+  const [content, setContent] = useState(initialContent);
   const [visibility, setVisibility] = useState<
     'public' | 'unlisted' | 'followers' | 'direct'
-  >('public');
+  >(defaultVisibility || 'public');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Poll state
+  const [showPoll, setShowPoll] = useState(false);
+  const [pollOptions, setPollOptions] = useState(['', '']);
+  const [pollMultiple, setPollMultiple] = useState(false);
+  const [pollExpiresIn, setPollExpiresIn] = useState(24 * 60 * 60);
+
   // Preview state
   const [showPreview, setShowPreview] = useState(false);
   const [previewHtml, setPreviewHtml] = useState('');
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
 
   useEffect(() => {
-    if (user?.defaultVisibility) {
+    if (!defaultVisibility && user?.defaultVisibility) {
       setVisibility(user.defaultVisibility);
     }
-  }, [user]);
+  }, [user, defaultVisibility]);
 
   // Debounced preview fetching
   useEffect(() => {
@@ -67,9 +94,21 @@ export default function NoteComposer({
         content: content.trim(),
         contentType: 'text/markdown',
         visibility,
+        inReplyToId,
+        quotedNoteId,
+        poll: showPoll
+          ? {
+              options: pollOptions.map((option) => option.trim()),
+              multiple: pollMultiple,
+              expiresIn: pollExpiresIn,
+            }
+          : undefined,
       });
 
-      setContent('');
+      setContent(initialContent);
+      setShowPoll(false);
+      setPollOptions(['', '']);
+      setPollMultiple(false);
       setShowPreview(false);
       setPreviewHtml('');
       if (onNoteCreated) {
@@ -83,6 +122,13 @@ export default function NoteComposer({
   };
 
   const remainingChars = 500 - content.length;
+  const isPollValid = !showPoll || pollOptions.every((option) => option.trim());
+
+  const updatePollOption = (index: number, value: string) => {
+    setPollOptions(
+      pollOptions.map((option, i) => (i === index ? value : option)),
+    );
+  };
 
   return (
     <form
@@ -146,6 +192,69 @@ export default function NoteComposer({
           </div>
         )}
 
+        {/* Poll options */}
+        {showPoll && (
+          <div className="space-y-2">
+            {pollOptions.map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={option}
+                  onChange={(e) => updatePollOption(index, e.target.value)}
+                  placeholder={`Option ${index + 1}`}
+                  maxLength={50}
+                  className="flex-1 px-3 py-1 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                />
+                {pollOptions.length > 2 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPollOptions(pollOptions.filter((_, i) => i !== index))
+                    }
+                    className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                    title="Remove option"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center space-x-3 text-sm text-gray-700 dark:text-gray-300">
+              {pollOptions.length < POLL_MAX_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => setPollOptions([...pollOptions, ''])}
+                  className="text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300"
+                >
+                  + Add option
+                </button>
+              )}
+              <label className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={pollMultiple}
+                  onChange={(e) => setPollMultiple(e.target.checked)}
+                  disabled={isSubmitting}
+                />
+                <span>Multiple choice</span>
+              </label>
+              <select
+                value={pollExpiresIn}
+                onChange={(e) => setPollExpiresIn(Number(e.target.value))}
+                className="px-2 py-1 bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg"
+                disabled={isSubmitting}
+              >
+                {POLL_DURATIONS.map((duration) => (
+                  <option key={duration.value} value={duration.value}>
+                    {duration.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
         {/* Markdown help */}
         <div className="text-xs text-gray-500 dark:text-gray-400">
           Markdown:{' '}
@@ -181,6 +290,20 @@ export default function NoteComposer({
               <option value="direct">Direct</option>
             </select>
 
+            <button
+              type="button"
+              onClick={() => setShowPoll(!showPoll)}
+              className={`text-sm px-2 py-1 rounded-lg transition-colors ${
+                showPoll
+                  ? 'bg-blue-100 dark:bg-blue-900/30'
+                  : 'opacity-60 hover:opacity-100'
+              }`}
+              title={showPoll ? 'Remove poll' : 'Add poll'}
+              disabled={isSubmitting}
+            >
+              📊
+            </button>
+
             <span
               className={`text-sm ${remainingChars < 50 ? 'text-orange-500' : 'text-gray-500 dark:text-gray-400'}`}
             >
@@ -188,13 +311,30 @@ export default function NoteComposer({
             </span>
           </div>
 
-          <button
-            type="submit"
-            disabled={!content.trim() || isSubmitting || remainingChars < 0}
-            className="px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium text-sm"
-          >
-            {isSubmitting ? 'Posting...' : 'Post'}
-          </button>
+          <div className="flex items-center space-x-2">
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                disabled={isSubmitting}
+                className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={
+                !content.trim() ||
+                isSubmitting ||
+                remainingChars < 0 ||
+                !isPollValid
+              }
+              className="px-4 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium text-sm"
+            >
+              {isSubmitting ? 'Posting...' : inReplyToId ? 'Reply' : 'Post'}
+            </button>
+          </div>
         </div>
       </div>
     </form>
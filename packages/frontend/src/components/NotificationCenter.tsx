@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { notificationsApi } from '@/lib/api';
+import type { Notification, NotificationType } from '@/lib/types';
+
+// Delay before reconnecting to the notification stream after it drops
+const RECONNECT_DELAY = 5000;
+
+const FILTERS: Array<{ label: string; types?: NotificationType[] }> = [
+  { label: 'All' },
+  { label: 'Mentions', types: ['mention', 'reply', 'presentation_comment'] },
+  { label: 'Follows', types: ['follow', 'follow_request'] },
+];
+
+const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  mention: '💬',
+  reply: '↩️',
+  follow: '👤',
+  follow_request: '🙋',
+  share: '🔁',
+  like: '❤️',
+  presentation_comment: '📄',
+};
+
+const NOTIFICATION_MESSAGES: Record<NotificationType, string> = {
+  mention: 'mentioned you',
+  reply: 'replied to your post',
+  follow: 'followed you',
+  follow_request: 'requested to follow you',
+  share: 'shared your post',
+  like: 'liked your post',
+  presentation_comment: 'commented on your presentation',
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, '');
+
+const formatTime = (createdAt: string) => {
+  const diffMins = Math.floor(
+    (Date.now() - new Date(createdAt).getTime()) / 60000,
+  );
+  if (diffMins < 1) return 'now';
+  if (diffMins < 60) return `${diffMins}m`;
+  if (diffMins < 60 * 24) return `${Math.floor(diffMins / 60)}h`;
+  return `${Math.floor(diffMins / (60 * 24))}d`;
+};
+
+export default function NotificationCenter() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [filterIndex, setFilterIndex] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const filter = FILTERS[filterIndex];
+
+  // Keep the unread badge current with the notification stream
+  useEffect(() => {
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const result = await notificationsApi.getUnreadCount();
+        setUnreadCount(result.unreadCount);
+        await notificationsApi.stream((notification) => {
+          setUnreadCount((count) => count + 1);
+          setNotifications((prev) => [notification, ...prev]);
+        }, controller.signal);
+      } catch {
+        // Reconnected below unless the header was unmounted
+      }
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+      }
+    };
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchNotifications();
+  }, [open, filterIndex]);
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const fetchNotifications = async () => {
+    setLoading(true);
+    try {
+      const result = await notificationsApi.getAll({ types: filter.types });
+      setNotifications(result.notifications);
+      setNextCursor(result.nextCursor);
+      setUnreadCount(result.unreadCount);
+    } catch (error) {
+      console.error('Failed to load notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoading(true);
+    try {
+      const result = await notificationsApi.getAll({
+        types: filter.types,
+        cursor: nextCursor,
+      });
+      setNotifications((prev) => [...prev, ...result.notifications]);
+      setNextCursor(result.nextCursor);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await notificationsApi.markAsRead();
+      setNotifications((prev) =>
+        prev.map((notification) => ({ ...notification, read: true })),
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  const handleSelect = async (notification: Notification) => {
+    setOpen(false);
+    if (!notification.read) {
+      setNotifications((prev) =>
+        prev.map((item) =>
+          item.id === notification.id ? { ...item, read: true } : item,
+        ),
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      notificationsApi.markAsRead([notification.id]).catch(() => {});
+    }
+
+    if (notification.type === 'follow_request') {
+      navigate({ to: '/follow-requests' });
+    } else if (notification.presentation) {
+      navigate({
+        to: '/presentations/$id',
+        params: { id: notification.presentation.id },
+      });
+    } else if (notification.note) {
+      navigate({ to: '/notes/$id', params: { id: notification.note.id } });
+    } else {
+      const { actor } = notification;
+      navigate({
+        to: '/$username',
+        params: {
+          username:
+            actor.isLocal || !actor.acct
+              ? `@${actor.preferredUsername}`
+              : actor.acct,
+        },
+      });
+    }
+  };
+
+  // Notifications arriving through the stream ignore the active filter
+  const visibleNotifications = notifications.filter(
+    (notification) => !filter.types || filter.types.includes(notification.type),
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        aria-label="Notifications"
+      >
+        <span className="text-lg">🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="font-semibold text-gray-900 dark:text-white">
+              Notifications
+            </h2>
+            <button
+              onClick={handleMarkAllAsRead}
+              disabled={unreadCount === 0}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+            >
+              Mark all as read
+            </button>
+          </div>
+
+          <div className="flex space-x-1 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+            {FILTERS.map((item, index) => (
+              <button
+                key={item.label}
+                onClick={() => setFilterIndex(index)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  index === filterIndex
+                    ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {visibleNotifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                {loading ? 'Loading...' : 'No notifications yet'}
+              </p>
+            ) : (
+              <>
+                {visibleNotifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleSelect(notification)}
+                    className={`w-full flex items-start space-x-3 px-4 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      notification.read ? '' : 'bg-blue-50 dark:bg-blue-900/20'
+                    }`}
+                  >
+                    <span className="text-lg">
+                      {NOTIFICATION_ICONS[notification.type]}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white">
+                        <span className="font-semibold">
+                          {notification.actor.displayName ||
+                            notification.actor.username}
+                        </span>{' '}
+                        {NOTIFICATION_MESSAGES[notification.type]}
+                        {notification.presentation &&
+                          ` "${notification.presentation.title}"`}
+                      </p>
+                      {notification.note?.content && (
+                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400 truncate">
+                          {stripHtml(notification.note.content)}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {formatTime(notification.createdAt)}
+                    </span>
+                  </button>
+                ))}
+
+                {nextCursor && (
+                  <div className="px-4 py-3 flex justify-center">
+                    <button
+                      onClick={handleLoadMore}
+                      disabled={loading}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                    >
+                      {loading ? 'Loading...' : 'Load More'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
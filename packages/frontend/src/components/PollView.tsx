@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { notesApi } from '@/lib/api';
+import type { Poll } from '@/lib/types';
+
+interface PollViewProps {
+  noteId: string;
+  poll: Poll;
+  // Authors see the results of their own polls right away
+  isOwner?: boolean;
+}
+
+export default function PollView({
+  noteId,
+  poll: initialPoll,
+  isOwner,
+}: PollViewProps) {
+  const [poll, setPoll] = useState(initialPoll);
+  const [choices, setChoices] = useState<number[]>([]);
+  const [isVoting, setIsVoting] = useState(false);
+
+  const showResults = poll.voted || poll.expired || isOwner;
+  const totalVotes = poll.options.reduce(
+    (total, option) => total + option.votesCount,
+    0,
+  );
+
+  const toggleChoice = (index: number) => {
+    if (!poll.multiple) {
+      setChoices([index]);
+      return;
+    }
+    setChoices(
+      choices.includes(index)
+        ? choices.filter((choice) => choice !== index)
+        : [...choices, index],
+    );
+  };
+
+  const handleVote = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isVoting || choices.length === 0) return;
+
+    setIsVoting(true);
+    try {
+      const result = await notesApi.vote(noteId, choices);
+      setPoll(result.poll);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to vote');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const formatExpiry = () => {
+    if (poll.expired) return 'Closed';
+    if (!poll.expiresAt) return '';
+
+    const diffMins = Math.max(
+      1,
+      Math.round((new Date(poll.expiresAt).getTime() - Date.now()) / 60000),
+    );
+    if (diffMins < 60) return `${diffMins}m left`;
+    if (diffMins < 60 * 24) return `${Math.round(diffMins / 60)}h left`;
+    return `${Math.round(diffMins / (60 * 24))}d left`;
+  };
+
+  return (
+    <div
+      className="mt-3 space-y-2 text-sm"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {poll.options.map((option, index) =>
+        showResults ? (
+          <div
+            key={index}
+            className="relative overflow-hidden rounded-lg border border-gray-200 dark:border-gray-600"
+          >
+            <div
+              className="absolute inset-y-0 left-0 bg-blue-100 dark:bg-blue-900/40"
+              style={{
+                width: `${totalVotes > 0 ? (option.votesCount / totalVotes) * 100 : 0}%`,
+              }}
+            />
+            <div className="relative flex items-center justify-between px-3 py-1.5 text-gray-900 dark:text-white">
+              <span>
+                {option.name}
+                {poll.ownVotes.includes(index) && ' ✓'}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {totalVotes > 0
+                  ? Math.round((option.votesCount / totalVotes) * 100)
+                  : 0}
+                %
+              </span>
+            </div>
+          </div>
+        ) : (
+          <label
+            key={index}
+            className="flex items-center space-x-2 px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-600 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <input
+              type={poll.multiple ? 'checkbox' : 'radio'}
+              name={`poll-${poll.id}`}
+              checked={choices.includes(index)}
+              onChange={() => toggleChoice(index)}
+              disabled={isVoting}
+            />
+            <span>{option.name}</span>
+          </label>
+        ),
+      )}
+
+      <div className="flex items-center space-x-2 text-gray-500 dark:text-gray-400">
+        {!showResults && (
+          <button
+            onClick={handleVote}
+            disabled={isVoting || choices.length === 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isVoting ? 'Voting...' : 'Vote'}
+          </button>
+        )}
+        <span>
+          {poll.votersCount} {poll.votersCount === 1 ? 'person' : 'people'}
+        </span>
+        <span>·</span>
+        <span>{formatExpiry()}</span>
+      </div>
+    </div>
+  );
+}
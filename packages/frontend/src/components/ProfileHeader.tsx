@@ -8,6 +8,10 @@ interface ProfileHeaderProps {
   followStatus: 'none' | 'pending' | 'accepted';
   followLoading: boolean;
   onFollow: () => void;
+  blockStatus: { blocking: boolean; muting: boolean };
+  blockLoading: boolean;
+  onBlock: () => void;
+  onMute: () => void;
   username: string;
   isRemoteUser: boolean;
   fullHandle: string;
@@ -19,6 +23,10 @@ export default function ProfileHeader({
   followStatus,
   followLoading,
   onFollow,
+  blockStatus,
+  blockLoading,
+  onBlock,
+  onMute,
   username,
   isRemoteUser,
   fullHandle,
@@ -63,6 +71,19 @@ export default function ProfileHeader({
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+      {user.movedTo && (
+        <div className="px-6 py-3 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+          This account has moved to{' '}
+          <a
+            href={user.movedTo}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium underline break-all"
+          >
+            {user.movedTo}
+          </a>
+        </div>
+      )}
       <div className="h-24 bg-gradient-to-r from-blue-500 to-purple-600"></div>
 
       <div className="px-6 pb-6">
@@ -81,25 +102,47 @@ export default function ProfileHeader({
           </div>
 
           {!isOwnProfile && currentUser && (
-            <button
-              onClick={onFollow}
-              disabled={followLoading}
-              className={`px-6 py-2 rounded-full font-medium transition-colors ${
-                followStatus === 'accepted'
-                  ? 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'
-                  : followStatus === 'pending'
-                    ? 'bg-amber-500 text-white hover:bg-amber-600'
-                    : 'bg-blue-600 text-white hover:bg-blue-700'
-              } disabled:opacity-50 disabled:cursor-not-allowed`}
-            >
-              {followLoading
-                ? '...'
-                : followStatus === 'accepted'
-                  ? 'Following'
-                  : followStatus === 'pending'
-                    ? 'Requested'
-                    : 'Follow'}
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={onMute}
+                disabled={blockLoading}
+                className="px-4 py-2 rounded-full text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {blockStatus.muting ? 'Unmute' : 'Mute'}
+              </button>
+              <button
+                onClick={onBlock}
+                disabled={blockLoading}
+                className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+                  blockStatus.blocking
+                    ? 'bg-red-600 text-white hover:bg-red-700'
+                    : 'bg-gray-100 dark:bg-gray-700 text-red-600 dark:text-red-400 hover:bg-gray-200 dark:hover:bg-gray-600'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {blockStatus.blocking ? 'Unblock' : 'Block'}
+              </button>
+              {!blockStatus.blocking && (
+                <button
+                  onClick={onFollow}
+                  disabled={followLoading}
+                  className={`px-6 py-2 rounded-full font-medium transition-colors ${
+                    followStatus === 'accepted'
+                      ? 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600'
+                      : followStatus === 'pending'
+                        ? 'bg-amber-500 text-white hover:bg-amber-600'
+                        : 'bg-blue-600 text-white hover:bg-blue-700'
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {followLoading
+                    ? '...'
+                    : followStatus === 'accepted'
+                      ? 'Following'
+                      : followStatus === 'pending'
+                        ? 'Requested'
+                        : 'Follow'}
+                </button>
+              )}
+            </div>
           )}
 
           {isOwnProfile && (
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import type { Reaction } from '@/lib/types';
+
+// Emoji offered by the picker; custom emoji can be reused from existing chips
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔', '👏'];
+
+interface ReactionBarProps {
+  reactions?: Reaction[];
+  onReact: (content: string) => Promise<{ reactions: Reaction[] }>;
+  onUnreact: (content: string) => Promise<{ reactions: Reaction[] }>;
+}
+
+export default function ReactionBar({
+  reactions: initialReactions,
+  onReact,
+  onUnreact,
+}: ReactionBarProps) {
+  const [reactions, setReactions] = useState<Reaction[]>(
+    initialReactions || [],
+  );
+  const [showPicker, setShowPicker] = useState(false);
+  const [isReacting, setIsReacting] = useState(false);
+
+  const handleToggle = async (e: React.MouseEvent, content: string) => {
+    e.stopPropagation();
+    if (isReacting) return;
+
+    setIsReacting(true);
+    try {
+      const reacted = reactions.some(
+        (reaction) => reaction.content === content && reaction.reacted,
+      );
+      const result = reacted
+        ? await onUnreact(content)
+        : await onReact(content);
+      setReactions(result.reactions);
+      setShowPicker(false);
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+    } finally {
+      setIsReacting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2 text-sm">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.content}
+          onClick={(e) => handleToggle(e, reaction.content)}
+          disabled={isReacting}
+          className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border transition-colors ${
+            reaction.reacted
+              ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+              : 'border-gray-200 text-gray-600 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+          }`}
+          title={reaction.content}
+        >
+          {reaction.emojiUrl ? (
+            <img
+              src={reaction.emojiUrl}
+              alt={reaction.content}
+              className="w-4 h-4 object-contain"
+            />
+          ) : (
+            <span>{reaction.content}</span>
+          )}
+          <span>{reaction.count}</span>
+        </button>
+      ))}
+      <div className="relative">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowPicker(!showPicker);
+          }}
+          className="px-2 py-0.5 rounded-full border border-gray-200 text-gray-500 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
+          title="Add reaction"
+        >
+          +
+        </button>
+        {showPicker && (
+          <div className="absolute z-10 mt-1 flex gap-1 p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg">
+            {QUICK_REACTIONS.map((content) => (
+              <button
+                key={content}
+                onClick={(e) => handleToggle(e, content)}
+                disabled={isReacting}
+                className="px-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                {content}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
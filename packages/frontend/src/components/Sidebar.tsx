@@ -29,7 +29,19 @@ export default function Sidebar({ onClose }: SidebarProps) {
       icon: '🌍',
       requiresAuth: false,
     },
+    {
+      href: '/timeline/federated',
+      label: 'Federated',
+      icon: '🛰️',
+      requiresAuth: false,
+    },
     { href: '/search', label: 'Search', icon: '🔍', requiresAuth: true },
+    {
+      href: '/conversations',
+      label: 'Messages',
+      icon: '✉️',
+      requiresAuth: true,
+    },
     {
       href: '/presentations',
       label: 'Presentations',
@@ -10,6 +10,7 @@ interface TimelineProps {
 
 export default function Timeline({ username, currentUserId }: TimelineProps) {
   const [notes, setNotes] = useState<Note[]>([]);
+  const [pinnedNotes, setPinnedNotes] = useState<Note[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
@@ -20,8 +21,18 @@ export default function Timeline({ username, currentUserId }: TimelineProps) {
 
   useEffect(() => {
     fetchNotes();
+    fetchPinnedNotes();
   }, [username]);
 
+  const fetchPinnedNotes = async () => {
+    try {
+      const data = await userApi.getUserPins(username);
+      setPinnedNotes(data.notes || []);
+    } catch (error) {
+      console.error('Failed to load pinned notes:', error);
+    }
+  };
+
   const fetchNotes = async (loadMore = false) => {
     if (loadMore) {
       setLoadingMore(true);
@@ -53,8 +64,20 @@ export default function Timeline({ username, currentUserId }: TimelineProps) {
 
   const handleDelete = (noteId: string) => {
     setNotes((prev) => prev.filter((note) => note.id !== noteId));
+    setPinnedNotes((prev) => prev.filter((note) => note.id !== noteId));
+  };
+
+  const handlePinChange = (noteId: string, pinned: boolean) => {
+    setNotes((prev) =>
+      prev.map((note) => (note.id === noteId ? { ...note, pinned } : note)),
+    );
+    fetchPinnedNotes();
   };
 
+  // Pinned notes are listed first, so leave them out of the rest
+  const pinnedNoteIds = new Set(pinnedNotes.map((note) => note.id));
+  const unpinnedNotes = notes.filter((note) => !pinnedNoteIds.has(note.id));
+
   const handleLoadMore = () => {
     if (!loadingMore && hasMore) {
       fetchNotes(true);
@@ -77,7 +100,7 @@ export default function Timeline({ username, currentUserId }: TimelineProps) {
     );
   }
 
-  if (notes.length === 0) {
+  if (notes.length === 0 && pinnedNotes.length === 0) {
     return (
       <div className="text-center py-8">
         <p className="text-gray-500 dark:text-gray-400">No posts yet</p>
@@ -87,12 +110,23 @@ export default function Timeline({ username, currentUserId }: TimelineProps) {
 
   return (
     <div className="space-y-2">
-      {notes.map((note) => (
+      {pinnedNotes.map((note) => (
+        <NoteCard
+          key={`pinned-${note.id}`}
+          note={{ ...note, pinned: true }}
+          currentUserId={currentUserId}
+          onDelete={handleDelete}
+          onPinChange={handlePinChange}
+        />
+      ))}
+
+      {unpinnedNotes.map((note) => (
         <NoteCard
           key={note.id}
           note={note}
           currentUserId={currentUserId}
           onDelete={handleDelete}
+          onPinChange={handlePinChange}
         />
       ))}
 
@@ -1,3 +1,15 @@
+import type {
+  Conversation,
+  Note,
+  NoteRevision,
+  Notification,
+  NotificationType,
+  Poll,
+  Presentation,
+  Reaction,
+  Tag,
+} from './types';
+
 // Server-side: use internal Docker network URL, Client-side: use browser-accessible URL
 function getApiBaseUrl() {
   if (typeof window === 'undefined') {
@@ -38,6 +50,11 @@ export async function fetchAPI(endpoint: string, options: RequestInit = {}) {
     throw new Error(errorMessage);
   }
 
+  // Endpoints such as DELETE /notes/:id respond with 204 and no body
+  if (response.status === 204) {
+    return null;
+  }
+
   return response.json();
 }
 
@@ -79,6 +96,25 @@ export const userApi = {
       method: 'PATCH',
       body: JSON.stringify({ avatarUrl }),
     }),
+  getAliases: (): Promise<{
+    aliases: string[];
+    movedTo: string | null;
+    movedAt: string | null;
+  }> => fetchAPI('/users/me/aliases'),
+  addAlias: (handle: string): Promise<{ aliases: string[] }> =>
+    fetchAPI('/users/me/aliases', {
+      method: 'POST',
+      body: JSON.stringify({ handle }),
+    }),
+  removeAlias: (iri: string): Promise<{ aliases: string[] }> =>
+    fetchAPI(`/users/me/aliases?iri=${encodeURIComponent(iri)}`, {
+      method: 'DELETE',
+    }),
+  moveAccount: (target: string) =>
+    fetchAPI('/users/me/move', {
+      method: 'POST',
+      body: JSON.stringify({ target }),
+    }),
   getUserNotes: async (username: string, limit = 20, offset = 0) => {
     return fetchAPI(`/users/${username}/notes?limit=${limit}&offset=${offset}`);
   },
@@ -94,6 +130,26 @@ export const userApi = {
     username: string,
   ): Promise<{ status: 'none' | 'pending' | 'accepted' }> =>
     fetchAPI(`/users/${username}/follow-status`),
+  blockUser: (username: string) =>
+    fetchAPI(`/users/${username}/block`, {
+      method: 'POST',
+    }),
+  unblockUser: (username: string) =>
+    fetchAPI(`/users/${username}/block`, {
+      method: 'DELETE',
+    }),
+  muteUser: (username: string) =>
+    fetchAPI(`/users/${username}/mute`, {
+      method: 'POST',
+    }),
+  unmuteUser: (username: string) =>
+    fetchAPI(`/users/${username}/mute`, {
+      method: 'DELETE',
+    }),
+  getBlockStatus: (
+    username: string,
+  ): Promise<{ blocking: boolean; blockedBy: boolean; muting: boolean }> =>
+    fetchAPI(`/users/${username}/block-status`),
   getFollowers: async (username: string, limit = 20, offset = 0) => {
     const items = await fetchAPI(
       `/users/${username}/followers?limit=${limit}&offset=${offset}`,
@@ -109,11 +165,17 @@ export const userApi = {
   getUserPresentations: async (username: string) => {
     return fetchAPI(`/users/${username}/presentations`);
   },
+  getUserPins: (
+    username: string,
+  ): Promise<{ notes: Note[]; presentations: Presentation[] }> =>
+    fetchAPI(`/users/${username}/pins`),
 };
 
 export const notesApi = {
   getPublicTimeline: (limit = 20, offset = 0) =>
     fetchAPI(`/timeline/public?limit=${limit}&offset=${offset}`),
+  getFederatedTimeline: (limit = 20, offset = 0) =>
+    fetchAPI(`/timeline/federated?limit=${limit}&offset=${offset}`),
   getHomeTimeline: (limit = 20, offset = 0) =>
     fetchAPI(`/timeline/home?limit=${limit}&offset=${offset}`),
   getById: (id: string) => fetchAPI(`/notes/${id}`),
@@ -121,6 +183,9 @@ export const notesApi = {
     content: string;
     contentType?: 'text/plain' | 'text/markdown';
     visibility?: string;
+    inReplyToId?: string;
+    quotedNoteId?: string;
+    poll?: { options: string[]; multiple?: boolean; expiresIn?: number };
   }) =>
     fetchAPI('/notes', {
       method: 'POST',
@@ -135,6 +200,167 @@ export const notesApi = {
     fetchAPI(`/notes/${id}`, {
       method: 'DELETE',
     }),
+  update: (
+    id: string,
+    data: {
+      content?: string;
+      contentType?: 'text/plain' | 'text/markdown';
+      contentWarning?: string;
+    },
+  ) =>
+    fetchAPI(`/notes/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    }),
+  getContext: (
+    id: string,
+  ): Promise<{ ancestors: Note[]; descendants: Note[] }> =>
+    fetchAPI(`/notes/${id}/context`),
+  getRevisions: (id: string): Promise<{ revisions: NoteRevision[] }> =>
+    fetchAPI(`/notes/${id}/revisions`),
+  like: (id: string): Promise<{ liked: boolean; likesCount: number }> =>
+    fetchAPI(`/notes/${id}/like`, {
+      method: 'POST',
+    }),
+  unlike: (id: string): Promise<{ liked: boolean; likesCount: number }> =>
+    fetchAPI(`/notes/${id}/like`, {
+      method: 'DELETE',
+    }),
+  share: (id: string): Promise<{ shared: boolean; sharesCount: number }> =>
+    fetchAPI(`/notes/${id}/share`, {
+      method: 'POST',
+    }),
+  unshare: (id: string): Promise<{ shared: boolean; sharesCount: number }> =>
+    fetchAPI(`/notes/${id}/share`, {
+      method: 'DELETE',
+    }),
+  react: (id: string, content: string): Promise<{ reactions: Reaction[] }> =>
+    fetchAPI(`/notes/${id}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    }),
+  unreact: (id: string, content: string): Promise<{ reactions: Reaction[] }> =>
+    fetchAPI(`/notes/${id}/reactions/${encodeURIComponent(content)}`, {
+      method: 'DELETE',
+    }),
+  vote: (id: string, choices: number[]): Promise<{ poll: Poll }> =>
+    fetchAPI(`/notes/${id}/poll/votes`, {
+      method: 'POST',
+      body: JSON.stringify({ choices }),
+    }),
+  pin: (id: string): Promise<{ pinned: boolean }> =>
+    fetchAPI(`/notes/${id}/pin`, {
+      method: 'POST',
+    }),
+  unpin: (id: string): Promise<{ pinned: boolean }> =>
+    fetchAPI(`/notes/${id}/pin`, {
+      method: 'DELETE',
+    }),
+};
+
+export const tagsApi = {
+  getNotes: (
+    name: string,
+    cursor?: string | null,
+  ): Promise<{ tag: Tag; notes: Note[]; nextCursor: string | null }> =>
+    fetchAPI(
+      `/tags/${encodeURIComponent(name)}/notes${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`,
+    ),
+  follow: (name: string): Promise<{ following: boolean }> =>
+    fetchAPI(`/tags/${encodeURIComponent(name)}/follow`, {
+      method: 'POST',
+    }),
+  unfollow: (name: string): Promise<{ following: boolean }> =>
+    fetchAPI(`/tags/${encodeURIComponent(name)}/follow`, {
+      method: 'DELETE',
+    }),
+  getFollowed: (): Promise<{ tags: Tag[] }> =>
+    fetchAPI('/users/me/followed-tags'),
+};
+
+export const conversationsApi = {
+  getAll: (): Promise<{
+    conversations: Conversation[];
+    unreadCount: number;
+  }> => fetchAPI('/conversations'),
+  get: (id: string): Promise<{ id: string; notes: Note[] }> =>
+    fetchAPI(`/conversations/${id}`),
+  markAsRead: (id: string) =>
+    fetchAPI(`/conversations/${id}/read`, {
+      method: 'POST',
+    }),
+};
+
+export const notificationsApi = {
+  getAll: (
+    options: {
+      types?: NotificationType[];
+      unread?: boolean;
+      cursor?: string | null;
+    } = {},
+  ): Promise<{
+    notifications: Notification[];
+    nextCursor: string | null;
+    unreadCount: number;
+  }> => {
+    const params = new URLSearchParams();
+    if (options.types?.length) params.set('types', options.types.join(','));
+    if (options.unread) params.set('unread', 'true');
+    if (options.cursor) params.set('cursor', options.cursor);
+    const query = params.toString();
+    return fetchAPI(`/notifications${query ? `?${query}` : ''}`);
+  },
+  getUnreadCount: (): Promise<{ unreadCount: number }> =>
+    fetchAPI('/notifications/unread-count'),
+  // Marks the given notifications as read, or all of them without ids
+  markAsRead: (ids?: string[]) =>
+    fetchAPI('/notifications/read', {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+    }),
+  // EventSource cannot send the Authorization header, so the server-sent
+  // events are read from a fetch response instead. Resolves when the server
+  // closes the stream.
+  stream: async (
+    onNotification: (notification: Notification) => void,
+    signal: AbortSignal,
+  ) => {
+    const token = localStorage.getItem('token');
+    const response = await fetch(`${getApiBaseUrl()}/notifications/stream`, {
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`API call failed: ${response.statusText}`);
+    }
+
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        let type = 'message';
+        const data: string[] = [];
+        for (const line of event.split('\n')) {
+          if (line.startsWith('event:')) type = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+        }
+        if (type === 'notification' && data.length > 0) {
+          onNotification(JSON.parse(data.join('\n')));
+        }
+      }
+    }
+  },
 };
 
 export const searchApi = {
@@ -272,6 +498,7 @@ export const uploadApi = {
   uploadPresentation: async (
     file: File,
     title: string,
+    description?: string,
   ): Promise<{
     id: string;
     title: string;
@@ -282,6 +509,9 @@ export const uploadApi = {
     const formData = new FormData();
     formData.append('file', file);
     formData.append('title', title);
+    if (description) {
+      formData.append('description', description);
+    }
 
     const apiBaseUrl = getApiBaseUrl();
     const token =
@@ -329,4 +559,88 @@ export const uploadApi = {
   getPresentation: async (id: string) => {
     return fetchAPI(`/presentations/${id}`);
   },
+
+  pinPresentation: (id: string): Promise<{ pinned: boolean }> =>
+    fetchAPI(`/presentations/${id}/pin`, {
+      method: 'POST',
+    }),
+
+  unpinPresentation: (id: string): Promise<{ pinned: boolean }> =>
+    fetchAPI(`/presentations/${id}/pin`, {
+      method: 'DELETE',
+    }),
+
+  reactToPresentation: (
+    id: string,
+    content: string,
+  ): Promise<{ reactions: Reaction[] }> =>
+    fetchAPI(`/presentations/${id}/reactions`, {
+      method: 'POST',
+      body: JSON.stringify({ content }),
+    }),
+
+  unreactToPresentation: (
+    id: string,
+    content: string,
+  ): Promise<{ reactions: Reaction[] }> =>
+    fetchAPI(`/presentations/${id}/reactions/${encodeURIComponent(content)}`, {
+      method: 'DELETE',
+    }),
+};
+
+async function uploadArchiveFile(endpoint: string, file: File) {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const apiBaseUrl = getApiBaseUrl();
+  const token =
+    typeof window !== 'undefined' ? localStorage.getItem('token') : null;
+
+  const response = await fetch(`${apiBaseUrl}${endpoint}`, {
+    method: 'POST',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: formData,
+  });
+
+  if (!response.ok) {
+    let errorMessage = `Import failed: ${response.statusText}`;
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.message || errorMessage;
+    } catch {
+      // Use default message
+    }
+    throw new Error(errorMessage);
+  }
+
+  return await response.json();
+}
+
+export interface AccountExport {
+  id: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  url: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
+export const accountArchiveApi = {
+  requestExport: (): Promise<AccountExport> =>
+    fetchAPI('/users/me/export', { method: 'POST' }),
+
+  // Resolves to null when no export has been requested yet
+  getExport: (): Promise<AccountExport | null> => fetchAPI('/users/me/export'),
+
+  importFollowing: (
+    file: File,
+  ): Promise<{
+    followed: number;
+    failed: { address: string; message: string }[];
+  }> => uploadArchiveFile('/users/me/import/following', file),
+
+  importArchive: (file: File): Promise<{ restored: number }> =>
+    uploadArchiveFile('/users/me/import/archive', file),
 };
@@ -47,6 +47,7 @@ export interface User {
   actor?: Actor;
   icon?: { type: string; mediaType?: string; url: string };
   manuallyApprovesFollowers?: boolean;
+  movedTo?: string | null;
 }
 
 export type NoteVisibility = 'public' | 'unlisted' | 'followers' | 'direct';
@@ -58,6 +59,38 @@ export interface NoteAttachment {
   name?: string;
 }
 
+export interface Reaction {
+  content: string;
+  emojiUrl: string | null;
+  count: number;
+  reacted: boolean;
+}
+
+export interface Poll {
+  id: string;
+  options: Array<{ name: string; votesCount: number }>;
+  multiple: boolean;
+  expiresAt: string | null;
+  expired: boolean;
+  votersCount: number;
+  voted: boolean;
+  ownVotes: number[];
+}
+
+export interface Tag {
+  name: string;
+  displayName: string;
+  usageCount: number;
+  lastUsedAt: string | null;
+  following: boolean;
+}
+
+export interface NoteTag {
+  type: string;
+  name: string;
+  href?: string;
+}
+
 export interface Note {
   id: string;
   content: string;
@@ -69,19 +102,76 @@ export interface Note {
   attachments?: NoteAttachment[];
   createdAt: string;
   updatedAt?: string;
+  editedAt?: string | null;
+  inReplyToId?: string | null;
+  quotedNoteId?: string | null;
+  quotedNote?: Note | null;
   repliesCount?: number;
+  likesCount?: number;
+  liked?: boolean;
+  shared?: boolean;
+  sharesCount?: number;
+  pinned?: boolean;
   renotesCount?: number;
   reactionsCount?: number;
+  reactions?: Reaction[];
+  poll?: Poll | null;
+  tags?: NoteTag[];
+}
+
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  content: string;
+  source?: string | null;
+  mediaType?: string;
+  contentWarning?: string | null;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  participants: Actor[];
+  lastNote: Note;
+  notesCount: number;
+  unread: boolean;
 }
 
 export interface Presentation {
   id: string;
   title: string;
+  description?: string | null;
+  pageCount?: number | null;
+  thumbnailUrl?: string | null;
   url: string;
   pdfKey: string;
+  pdfUrl?: string | null;
+  iri?: string | null;
   noteId?: string;
-  userId: string;
+  userId: string | null;
+  actorId?: string | null;
+  pinned?: boolean;
+  reactions?: Reaction[];
+  createdAt: string;
+}
+
+export type NotificationType =
+  | 'mention'
+  | 'reply'
+  | 'follow'
+  | 'follow_request'
+  | 'share'
+  | 'like'
+  | 'presentation_comment';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  read: boolean;
   createdAt: string;
+  actor: Actor;
+  note: Note | null;
+  presentation: Presentation | null;
 }
 
 export interface SearchResult {
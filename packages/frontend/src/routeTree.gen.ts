@@ -15,10 +15,13 @@ import { Route as SearchRouteImport } from './routes/search';
 import { Route as InvitationsRouteImport } from './routes/invitations';
 import { Route as HomeRouteImport } from './routes/home';
 import { Route as FollowRequestsRouteImport } from './routes/follow-requests';
+import { Route as ConversationsRouteImport } from './routes/conversations';
 import { Route as DashboardRouteImport } from './routes/dashboard';
 import { Route as IndexRouteImport } from './routes/index';
 import { Route as PresentationsIndexRouteImport } from './routes/presentations/index';
 import { Route as UsernameIndexRouteImport } from './routes/$username/index';
+import { Route as TagsNameRouteImport } from './routes/tags/$name';
+import { Route as TimelineFederatedRouteImport } from './routes/timeline/federated';
 import { Route as TimelinePublicRouteImport } from './routes/timeline/public';
 import { Route as PresentationsNewRouteImport } from './routes/presentations/new';
 import { Route as PresentationsIdRouteImport } from './routes/presentations/$id';
@@ -60,6 +63,11 @@ const FollowRequestsRoute = FollowRequestsRouteImport.update({
   path: '/follow-requests',
   getParentRoute: () => rootRouteImport,
 } as any);
+const ConversationsRoute = ConversationsRouteImport.update({
+  id: '/conversations',
+  path: '/conversations',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const DashboardRoute = DashboardRouteImport.update({
   id: '/dashboard',
   path: '/dashboard',
@@ -80,6 +88,16 @@ const UsernameIndexRoute = UsernameIndexRouteImport.update({
   path: '/$username/',
   getParentRoute: () => rootRouteImport,
 } as any);
+const TagsNameRoute = TagsNameRouteImport.update({
+  id: '/tags/$name',
+  path: '/tags/$name',
+  getParentRoute: () => rootRouteImport,
+} as any);
+const TimelineFederatedRoute = TimelineFederatedRouteImport.update({
+  id: '/timeline/federated',
+  path: '/timeline/federated',
+  getParentRoute: () => rootRouteImport,
+} as any);
 const TimelinePublicRoute = TimelinePublicRouteImport.update({
   id: '/timeline/public',
   path: '/timeline/public',
@@ -135,6 +153,7 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute;
   '/dashboard': typeof DashboardRoute;
   '/follow-requests': typeof FollowRequestsRoute;
+  '/conversations': typeof ConversationsRoute;
   '/home': typeof HomeRoute;
   '/invitations': typeof InvitationsRoute;
   '/search': typeof SearchRoute;
@@ -149,6 +168,8 @@ export interface FileRoutesByFullPath {
   '/notes/$id': typeof NotesIdRoute;
   '/presentations/$id': typeof PresentationsIdRoute;
   '/presentations/new': typeof PresentationsNewRoute;
+  '/tags/$name': typeof TagsNameRoute;
+  '/timeline/federated': typeof TimelineFederatedRoute;
   '/timeline/public': typeof TimelinePublicRoute;
   '/$username/': typeof UsernameIndexRoute;
   '/presentations/': typeof PresentationsIndexRoute;
@@ -157,6 +178,7 @@ export interface FileRoutesByTo {
   '/': typeof IndexRoute;
   '/dashboard': typeof DashboardRoute;
   '/follow-requests': typeof FollowRequestsRoute;
+  '/conversations': typeof ConversationsRoute;
   '/home': typeof HomeRoute;
   '/invitations': typeof InvitationsRoute;
   '/search': typeof SearchRoute;
@@ -171,6 +193,8 @@ export interface FileRoutesByTo {
   '/notes/$id': typeof NotesIdRoute;
   '/presentations/$id': typeof PresentationsIdRoute;
   '/presentations/new': typeof PresentationsNewRoute;
+  '/tags/$name': typeof TagsNameRoute;
+  '/timeline/federated': typeof TimelineFederatedRoute;
   '/timeline/public': typeof TimelinePublicRoute;
   '/$username': typeof UsernameIndexRoute;
   '/presentations': typeof PresentationsIndexRoute;
@@ -180,6 +204,7 @@ export interface FileRoutesById {
   '/': typeof IndexRoute;
   '/dashboard': typeof DashboardRoute;
   '/follow-requests': typeof FollowRequestsRoute;
+  '/conversations': typeof ConversationsRoute;
   '/home': typeof HomeRoute;
   '/invitations': typeof InvitationsRoute;
   '/search': typeof SearchRoute;
@@ -194,6 +219,8 @@ export interface FileRoutesById {
   '/notes/$id': typeof NotesIdRoute;
   '/presentations/$id': typeof PresentationsIdRoute;
   '/presentations/new': typeof PresentationsNewRoute;
+  '/tags/$name': typeof TagsNameRoute;
+  '/timeline/federated': typeof TimelineFederatedRoute;
   '/timeline/public': typeof TimelinePublicRoute;
   '/$username/': typeof UsernameIndexRoute;
   '/presentations/': typeof PresentationsIndexRoute;
@@ -204,6 +231,7 @@ export interface FileRouteTypes {
     | '/'
     | '/dashboard'
     | '/follow-requests'
+    | '/conversations'
     | '/home'
     | '/invitations'
     | '/search'
@@ -218,6 +246,8 @@ export interface FileRouteTypes {
     | '/notes/$id'
     | '/presentations/$id'
     | '/presentations/new'
+    | '/tags/$name'
+    | '/timeline/federated'
     | '/timeline/public'
     | '/$username/'
     | '/presentations/';
@@ -226,6 +256,7 @@ export interface FileRouteTypes {
     | '/'
     | '/dashboard'
     | '/follow-requests'
+    | '/conversations'
     | '/home'
     | '/invitations'
     | '/search'
@@ -240,6 +271,8 @@ export interface FileRouteTypes {
     | '/notes/$id'
     | '/presentations/$id'
     | '/presentations/new'
+    | '/tags/$name'
+    | '/timeline/federated'
     | '/timeline/public'
     | '/$username'
     | '/presentations';
@@ -248,6 +281,7 @@ export interface FileRouteTypes {
     | '/'
     | '/dashboard'
     | '/follow-requests'
+    | '/conversations'
     | '/home'
     | '/invitations'
     | '/search'
@@ -262,6 +296,8 @@ export interface FileRouteTypes {
     | '/notes/$id'
     | '/presentations/$id'
     | '/presentations/new'
+    | '/tags/$name'
+    | '/timeline/federated'
     | '/timeline/public'
     | '/$username/'
     | '/presentations/';
@@ -271,6 +307,7 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute;
   DashboardRoute: typeof DashboardRoute;
   FollowRequestsRoute: typeof FollowRequestsRoute;
+  ConversationsRoute: typeof ConversationsRoute;
   HomeRoute: typeof HomeRoute;
   InvitationsRoute: typeof InvitationsRoute;
   SearchRoute: typeof SearchRoute;
@@ -284,6 +321,8 @@ export interface RootRouteChildren {
   NotesIdRoute: typeof NotesIdRoute;
   PresentationsIdRoute: typeof PresentationsIdRoute;
   PresentationsNewRoute: typeof PresentationsNewRoute;
+  TagsNameRoute: typeof TagsNameRoute;
+  TimelineFederatedRoute: typeof TimelineFederatedRoute;
   TimelinePublicRoute: typeof TimelinePublicRoute;
   UsernameIndexRoute: typeof UsernameIndexRoute;
   PresentationsIndexRoute: typeof PresentationsIndexRoute;
@@ -333,6 +372,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof FollowRequestsRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/conversations': {
+      id: '/conversations';
+      path: '/conversations';
+      fullPath: '/conversations';
+      preLoaderRoute: typeof ConversationsRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/dashboard': {
       id: '/dashboard';
       path: '/dashboard';
@@ -361,6 +407,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof UsernameIndexRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    '/tags/$name': {
+      id: '/tags/$name';
+      path: '/tags/$name';
+      fullPath: '/tags/$name';
+      preLoaderRoute: typeof TagsNameRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
+    '/timeline/federated': {
+      id: '/timeline/federated';
+      path: '/timeline/federated';
+      fullPath: '/timeline/federated';
+      preLoaderRoute: typeof TimelineFederatedRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     '/timeline/public': {
       id: '/timeline/public';
       path: '/timeline/public';
@@ -438,6 +498,7 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   DashboardRoute: DashboardRoute,
   FollowRequestsRoute: FollowRequestsRoute,
+  ConversationsRoute: ConversationsRoute,
   HomeRoute: HomeRoute,
   InvitationsRoute: InvitationsRoute,
   SearchRoute: SearchRoute,
@@ -451,6 +512,8 @@ const rootRouteChildren: RootRouteChildren = {
   NotesIdRoute: NotesIdRoute,
   PresentationsIdRoute: PresentationsIdRoute,
   PresentationsNewRoute: PresentationsNewRoute,
+  TagsNameRoute: TagsNameRoute,
+  TimelineFederatedRoute: TimelineFederatedRoute,
   TimelinePublicRoute: TimelinePublicRoute,
   UsernameIndexRoute: UsernameIndexRoute,
   PresentationsIndexRoute: PresentationsIndexRoute,
@@ -40,6 +40,11 @@ function UserProfile() {
   >('none');
   const [loading, setLoading] = useState(true);
   const [followLoading, setFollowLoading] = useState(false);
+  const [blockStatus, setBlockStatus] = useState({
+    blocking: false,
+    muting: false,
+  });
+  const [blockLoading, setBlockLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -52,6 +57,7 @@ function UserProfile() {
     if (currentUser && username) {
       if (isRemoteUser || currentUser.username !== username) {
         checkFollowStatus();
+        checkBlockStatus();
       }
     }
   }, [currentUser, username, isRemoteUser]);
@@ -89,6 +95,62 @@ function UserProfile() {
     }
   };
 
+  const checkBlockStatus = async () => {
+    try {
+      const targetIdentifier = isRemoteUser ? fullHandle : username;
+      const status = await userApi.getBlockStatus(targetIdentifier);
+      setBlockStatus({ blocking: status.blocking, muting: status.muting });
+    } catch (error) {
+      console.error('Failed to check block status:', error);
+    }
+  };
+
+  const handleBlock = async () => {
+    const targetIdentifier = isRemoteUser ? fullHandle : username;
+    if (
+      !blockStatus.blocking &&
+      !confirm(
+        `Block ${fullHandle}? You will no longer follow each other and their posts will be hidden.`,
+      )
+    ) {
+      return;
+    }
+
+    setBlockLoading(true);
+    try {
+      if (blockStatus.blocking) {
+        await userApi.unblockUser(targetIdentifier);
+        setBlockStatus((prev) => ({ ...prev, blocking: false }));
+      } else {
+        await userApi.blockUser(targetIdentifier);
+        setBlockStatus((prev) => ({ ...prev, blocking: true }));
+        setFollowStatus('none');
+      }
+    } catch (error) {
+      console.error('Failed to update block status', error);
+    } finally {
+      setBlockLoading(false);
+    }
+  };
+
+  const handleMute = async () => {
+    const targetIdentifier = isRemoteUser ? fullHandle : username;
+
+    setBlockLoading(true);
+    try {
+      if (blockStatus.muting) {
+        await userApi.unmuteUser(targetIdentifier);
+      } else {
+        await userApi.muteUser(targetIdentifier);
+      }
+      setBlockStatus((prev) => ({ ...prev, muting: !prev.muting }));
+    } catch (error) {
+      console.error('Failed to update mute status', error);
+    } finally {
+      setBlockLoading(false);
+    }
+  };
+
   const handleFollow = async () => {
     if (!currentUser) {
       navigate({ to: '/auth/signin' });
@@ -157,6 +219,10 @@ function UserProfile() {
             followStatus={followStatus}
             followLoading={followLoading}
             onFollow={handleFollow}
+            blockStatus={blockStatus}
+            blockLoading={blockLoading}
+            onBlock={handleBlock}
+            onMute={handleMute}
             username={username}
             isRemoteUser={isRemoteUser}
             fullHandle={fullHandle}
@@ -9,6 +9,8 @@ interface Presentation {
   createdAt: string;
   thumbnailUrl?: string;
   description?: string;
+  iri?: string | null;
+  pinned?: boolean;
 }
 
 export const Route = createFileRoute('/$username/presentations')({
@@ -26,8 +28,29 @@ function UserPresentationsPage() {
   useEffect(() => {
     const fetchPresentations = async () => {
       try {
-        const data = await userApi.getUserPresentations(cleanUsername);
-        setPresentations(data.presentations || data || []);
+        const [data, pins] = await Promise.all([
+          userApi.getUserPresentations(cleanUsername),
+          userApi.getUserPins(cleanUsername),
+        ]);
+        const pinned: Presentation[] = (pins.presentations || []).map(
+          (presentation) => ({
+            ...presentation,
+            thumbnailUrl: presentation.thumbnailUrl ?? undefined,
+            description: presentation.description ?? undefined,
+            pinned: true,
+          }),
+        );
+        const pinnedIds = new Set(
+          pinned.map((presentation) => presentation.id),
+        );
+
+        // Pinned presentations are listed first
+        setPresentations([
+          ...pinned,
+          ...((data.presentations || data || []) as Presentation[]).filter(
+            (presentation) => !pinnedIds.has(presentation.id),
+          ),
+        ]);
       } catch (err) {
         setError('Failed to load presentations');
         console.error(err);
@@ -97,6 +120,11 @@ function UserPresentationsPage() {
           </div>
           <div className="p-4">
             <h3 className="font-medium text-gray-900 dark:text-white truncate">
+              {presentation.pinned && (
+                <span className="mr-1" title="Pinned">
+                  📌
+                </span>
+              )}
               {presentation.title}
             </h3>
             {presentation.description && (
@@ -105,6 +133,8 @@ function UserPresentationsPage() {
               </p>
             )}
             <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
+              {presentation.iri &&
+                `🌐 ${new URL(presentation.iri).hostname} · `}
               {new Date(presentation.createdAt).toLocaleDateString()}
             </p>
           </div>
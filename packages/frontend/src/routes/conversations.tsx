@@ -0,0 +1,187 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { conversationsApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { RequireAuth } from '@/components/RequireAuth';
+import NoteComposer from '@/components/NoteComposer';
+import NoteCard from '@/components/NoteCard';
+import AppLayout from '@/components/AppLayout';
+import type { Actor, Conversation } from '@/lib/types';
+
+export const Route = createFileRoute('/conversations')({
+  component: ConversationsPage,
+});
+
+// Handle used to mention a participant when replying
+const getMentionHandle = (actor: Actor) =>
+  actor.isLocal || !actor.acct ? `@${actor.preferredUsername}` : actor.acct;
+
+const getParticipantNames = (conversation: Conversation) =>
+  conversation.participants.length > 0
+    ? conversation.participants
+        .map((actor) => actor.displayName || actor.name || actor.username)
+        .join(', ')
+    : 'Just you';
+
+function ConversationsPage() {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['conversations'],
+    queryFn: () => conversationsApi.getAll(),
+    enabled: typeof window !== 'undefined', // Only fetch on client
+  });
+  const { data: thread, isLoading: isThreadLoading } = useQuery({
+    queryKey: ['conversations', selectedId],
+    queryFn: () => conversationsApi.get(selectedId!),
+    enabled: typeof window !== 'undefined' && !!selectedId,
+  });
+
+  const conversations = data?.conversations || [];
+  const selected = conversations.find(
+    (conversation) => conversation.id === selectedId,
+  );
+
+  const handleSelect = useCallback(
+    (conversation: Conversation) => {
+      setSelectedId(conversation.id);
+      // Opening a conversation marks it as read on the server
+      queryClient.setQueryData(
+        ['conversations'],
+        (old: typeof data | undefined) =>
+          old && {
+            ...old,
+            conversations: old.conversations.map((item) =>
+              item.id === conversation.id ? { ...item, unread: false } : item,
+            ),
+            unreadCount: Math.max(
+              0,
+              old.unreadCount - (conversation.unread ? 1 : 0),
+            ),
+          },
+      );
+    },
+    [queryClient],
+  );
+
+  const handleNoteCreated = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: ['conversations'] });
+  }, [queryClient]);
+
+  return (
+    <AppLayout>
+      <RequireAuth>
+        <div className="max-w-2xl mx-auto px-4 py-8">
+          <div className="mb-6 flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              ✉️ Conversations
+            </h1>
+            {selected && (
+              <button
+                onClick={() => setSelectedId(null)}
+                className="text-sm text-blue-600 hover:text-blue-500 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                ← All conversations
+              </button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : selected ? (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                With {getParticipantNames(selected)}
+              </p>
+              {isThreadLoading ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                (thread?.notes || []).map((note) => (
+                  <NoteCard
+                    key={note.id}
+                    note={note}
+                    currentUserId={currentUser?.id}
+                    onDelete={handleNoteCreated}
+                  />
+                ))
+              )}
+              <div className="pt-4">
+                <NoteComposer
+                  key={selected.id}
+                  placeholder="Write a direct message..."
+                  initialContent={
+                    selected.participants.map(getMentionHandle).join(' ') +
+                    (selected.participants.length > 0 ? ' ' : '')
+                  }
+                  defaultVisibility="direct"
+                  inReplyToId={thread?.notes[thread.notes.length - 1]?.id}
+                  onNoteCreated={handleNoteCreated}
+                />
+              </div>
+            </div>
+          ) : conversations.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-8 text-center">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+                No conversations yet
+              </h3>
+              <p className="text-gray-500 dark:text-gray-400">
+                Post a note with &quot;Direct&quot; visibility and mention
+                someone to start one.
+              </p>
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md divide-y divide-gray-200 dark:divide-gray-700">
+              {conversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  onClick={() => handleSelect(conversation)}
+                  className="w-full text-left p-4 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-start gap-3"
+                >
+                  <span
+                    className={`mt-2 h-2 w-2 rounded-full flex-shrink-0 ${
+                      conversation.unread ? 'bg-blue-600' : 'bg-transparent'
+                    }`}
+                    aria-label={conversation.unread ? 'Unread' : undefined}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span
+                        className={`truncate text-gray-900 dark:text-white ${
+                          conversation.unread ? 'font-bold' : 'font-medium'
+                        }`}
+                      >
+                        {getParticipantNames(conversation)}
+                      </span>
+                      <span className="text-xs text-gray-400 dark:text-gray-500 flex-shrink-0">
+                        {new Date(
+                          conversation.lastNote.createdAt,
+                        ).toLocaleString()}
+                      </span>
+                    </div>
+                    <div
+                      className="text-sm text-gray-500 dark:text-gray-400 truncate"
+                      dangerouslySetInnerHTML={{
+                        __html: conversation.lastNote.content,
+                      }}
+                    />
+                    <span className="text-xs text-gray-400 dark:text-gray-500">
+                      {conversation.notesCount}{' '}
+                      {conversation.notesCount === 1 ? 'message' : 'messages'}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </RequireAuth>
+    </AppLayout>
+  );
+}
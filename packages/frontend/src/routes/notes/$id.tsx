@@ -3,7 +3,9 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import ProfileLink from '@/components/ProfileLink';
 import { notesApi } from '@/lib/api';
+import type { Note, NoteRevision } from '@/lib/types';
 import NoteComposer from '@/components/NoteComposer';
+import NoteCard from '@/components/NoteCard';
 import AppLayout from '@/components/AppLayout';
 
 export const Route = createFileRoute('/notes/$id')({
@@ -18,11 +20,15 @@ function NoteDetailPage() {
   const [note, setNote] = useState<{
     id: string;
     content: string;
+    source?: string | null;
+    mediaType?: string;
     contentWarning?: string;
     visibility: string;
     createdAt: string;
+    editedAt?: string | null;
     author?: {
       id?: string;
+      userId?: string | null;
       username?: string;
       preferredUsername?: string;
       displayName?: string;
@@ -33,13 +39,32 @@ function NoteDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editContent, setEditContent] = useState('');
+  const [editContentWarning, setEditContentWarning] = useState('');
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [ancestors, setAncestors] = useState<Note[]>([]);
+  const [descendants, setDescendants] = useState<Note[]>([]);
 
   useEffect(() => {
     if (noteId) {
       fetchNote();
+      fetchContext();
     }
   }, [noteId]);
 
+  const fetchContext = async () => {
+    try {
+      const data = await notesApi.getContext(noteId);
+      setAncestors(data.ancestors);
+      setDescendants(data.descendants);
+    } catch (error) {
+      console.error('Failed to load thread:', error);
+    }
+  };
+
   const fetchNote = async () => {
     try {
       const data = await notesApi.getById(noteId);
@@ -69,6 +94,50 @@ function NoteDetailPage() {
     }
   };
 
+  const htmlToText = (html: string) =>
+    new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+
+  const startEditing = () => {
+    if (!note) return;
+    setEditContent(note.source || htmlToText(note.content));
+    setEditContentWarning(note.contentWarning || '');
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!note || !editContent.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const updated = await notesApi.update(noteId, {
+        content: editContent,
+        contentType:
+          note.mediaType === 'text/markdown' ? 'text/markdown' : 'text/plain',
+        contentWarning: editContentWarning,
+      });
+      setNote(updated);
+      setRevisions(null);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to update note:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRevisions = async () => {
+    if (!showRevisions && revisions === null) {
+      try {
+        const data = await notesApi.getRevisions(noteId);
+        setRevisions(data.revisions);
+      } catch (error) {
+        console.error('Failed to load revisions:', error);
+        return;
+      }
+    }
+    setShowRevisions(!showRevisions);
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString('en-US', {
@@ -116,7 +185,7 @@ function NoteDetailPage() {
     author?.username || author?.preferredUsername || 'unknown';
   const authorDisplayName =
     author?.displayName || author?.name || authorUsername;
-  const isOwner = currentUser && author?.id === currentUser.id;
+  const isOwner = currentUser && author?.userId === currentUser.id;
 
   return (
     <AppLayout>
@@ -130,6 +199,18 @@ function NoteDetailPage() {
           </button>
         </div>
 
+        {ancestors.length > 0 && (
+          <div className="mb-4 space-y-2 border-l-2 border-gray-200 dark:border-gray-700 pl-2">
+            {ancestors.map((ancestor) => (
+              <NoteCard
+                key={ancestor.id}
+                note={ancestor}
+                currentUserId={currentUser?.id}
+              />
+            ))}
+          </div>
+        )}
+
         <article className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
           <div className="p-6">
             <div className="flex items-start space-x-3 mb-4">
@@ -164,13 +245,23 @@ function NoteDetailPage() {
                   </div>
 
                   {isOwner && (
-                    <button
-                      onClick={handleDelete}
-                      disabled={isDeleting}
-                      className="px-4 py-2 text-sm bg-red-600 text-white rounded-full hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                    >
-                      {isDeleting ? 'Deleting...' : 'Delete'}
-                    </button>
+                    <div className="flex items-center space-x-2">
+                      {!isEditing && (
+                        <button
+                          onClick={startEditing}
+                          className="px-4 py-2 text-sm bg-gray-200 text-gray-900 dark:bg-gray-700 dark:text-white rounded-full hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      <button
+                        onClick={handleDelete}
+                        disabled={isDeleting}
+                        className="px-4 py-2 text-sm bg-red-600 text-white rounded-full hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {isDeleting ? 'Deleting...' : 'Delete'}
+                      </button>
+                    </div>
                   )}
                 </div>
               </div>
@@ -184,12 +275,47 @@ function NoteDetailPage() {
               </div>
             )}
 
-            <div className="mb-6">
-              <div
-                className="note-content text-lg text-gray-900 dark:text-white whitespace-pre-wrap break-words"
-                dangerouslySetInnerHTML={{ __html: note.content }}
-              />
-            </div>
+            {isEditing ? (
+              <div className="mb-6 space-y-3">
+                <input
+                  type="text"
+                  value={editContentWarning}
+                  onChange={(e) => setEditContentWarning(e.target.value)}
+                  placeholder="Content warning (optional)"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+                />
+                <textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  rows={5}
+                  maxLength={500}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-white resize-none"
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    disabled={isSaving}
+                    className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveEdit}
+                    disabled={isSaving || !editContent.trim()}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {isSaving ? 'Saving...' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mb-6">
+                <div
+                  className="note-content text-lg text-gray-900 dark:text-white whitespace-pre-wrap break-words"
+                  dangerouslySetInnerHTML={{ __html: note.content }}
+                />
+              </div>
+            )}
 
             <div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700 pt-4">
               <time title={formatDate(note.createdAt)}>
@@ -201,8 +327,49 @@ function NoteDetailPage() {
                 </span>
                 <span className="capitalize">{note.visibility}</span>
               </span>
+              {note.editedAt && (
+                <button
+                  onClick={toggleRevisions}
+                  className="hover:underline"
+                  title={`Edited ${formatDate(note.editedAt)}`}
+                >
+                  ✏️ Edited
+                </button>
+              )}
             </div>
 
+            {showRevisions && revisions && (
+              <div className="mt-4 space-y-3">
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Previous versions
+                </h4>
+                {revisions.length === 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No previous versions
+                  </p>
+                )}
+                {revisions.map((revision) => (
+                  <div
+                    key={revision.id}
+                    className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg"
+                  >
+                    <time className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      {formatDate(revision.createdAt)}
+                    </time>
+                    {revision.contentWarning && (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-300 mb-1">
+                        ⚠️ {revision.contentWarning}
+                      </p>
+                    )}
+                    <div
+                      className="note-content text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words"
+                      dangerouslySetInnerHTML={{ __html: revision.content }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="flex items-center space-x-6 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
               <button className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400 transition-colors">
                 <span className="text-xl">💬</span>
@@ -226,10 +393,9 @@ function NoteDetailPage() {
               Reply to {authorDisplayName}
             </h3>
             <NoteComposer
+              inReplyToId={note.id}
               placeholder={`Reply to @${authorUsername}...`}
-              onNoteCreated={(newNote) =>
-                console.log('Reply created:', newNote)
-              }
+              onNoteCreated={() => fetchContext()}
             />
           </div>
         )}
@@ -238,9 +404,26 @@ function NoteDetailPage() {
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             Replies
           </h3>
-          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 text-center">
-            <p className="text-gray-500 dark:text-gray-400">No replies yet</p>
-          </div>
+          {descendants.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 text-center">
+              <p className="text-gray-500 dark:text-gray-400">No replies yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {descendants.map((reply) => (
+                <NoteCard
+                  key={reply.id}
+                  note={reply}
+                  currentUserId={currentUser?.id}
+                  onDelete={(deletedId) =>
+                    setDescendants(
+                      descendants.filter((item) => item.id !== deletedId),
+                    )
+                  }
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </AppLayout>
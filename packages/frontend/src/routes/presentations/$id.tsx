@@ -2,6 +2,8 @@ import { createFileRoute, useNavigate } from '@tanstack/react-router';
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { uploadApi } from '@/lib/api';
 import AppLayout from '@/components/AppLayout';
+import ReactionBar from '@/components/ReactionBar';
+import type { Reaction } from '@/lib/types';
 
 const PresentationViewer = lazy(
   () => import('@/components/PresentationViewer'),
@@ -10,10 +12,20 @@ const PresentationViewer = lazy(
 interface PresentationData {
   id: string;
   title: string;
+  description?: string | null;
+  pageCount?: number | null;
   url: string;
   pdfKey: string;
+  pdfUrl?: string | null;
+  iri?: string | null;
   noteId: string | null;
-  userId: string;
+  userId: string | null;
+  author?: {
+    username: string;
+    displayName: string | null;
+    acct?: string | null;
+  } | null;
+  reactions?: Reaction[];
   createdAt: string;
 }
 
@@ -43,6 +55,13 @@ function PresentationPage() {
       const data = await uploadApi.getPresentation(id);
       setPresentation(data);
 
+      // Remote presentations are loaded from their own instance
+      if (data.pdfUrl) {
+        setPdfUrl(data.pdfUrl);
+        setDownloadUrl(data.pdfUrl);
+        return;
+      }
+
       const s3Base = (import.meta.env.VITE_S3_PUBLIC_URL || '').replace(
         /\/$/,
         '',
@@ -108,6 +127,47 @@ function PresentationPage() {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white truncate">
                 {presentation.title}
               </h1>
+              {presentation.iri && presentation.author && (
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  🌐 by{' '}
+                  <a
+                    href={`/@${(presentation.author.acct || presentation.author.username).replace(/^@/, '')}`}
+                    className="hover:underline"
+                  >
+                    {presentation.author.displayName ||
+                      presentation.author.username}
+                  </a>{' '}
+                  ·{' '}
+                  <a
+                    href={presentation.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:underline"
+                  >
+                    View original
+                  </a>
+                </p>
+              )}
+              {(presentation.description || presentation.pageCount) && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {presentation.description}
+                  {presentation.description && presentation.pageCount
+                    ? ' · '
+                    : ''}
+                  {presentation.pageCount
+                    ? `${presentation.pageCount} pages`
+                    : ''}
+                </p>
+              )}
+              <ReactionBar
+                reactions={presentation.reactions}
+                onReact={(content) =>
+                  uploadApi.reactToPresentation(presentation.id, content)
+                }
+                onUnreact={(content) =>
+                  uploadApi.unreactToPresentation(presentation.id, content)
+                }
+              />
             </div>
             <div className="flex items-center gap-3">
               {downloadUrl && (
@@ -1,6 +1,6 @@
 import { createFileRoute, Link } from '@tanstack/react-router';
 import { useState, useEffect, useRef } from 'react';
-import { userApi } from '@/lib/api';
+import { uploadApi, userApi } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { RequireAuth } from '@/components/RequireAuth';
 import AppLayout from '@/components/AppLayout';
@@ -14,6 +14,8 @@ function PresentationsPage() {
   const [presentations, setPresentations] = useState<
     Array<{ id: string; title: string }>
   >([]);
+  const [pinnedIds, setPinnedIds] = useState<Set<string>>(new Set());
+  const [pinningId, setPinningId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [toast, setToast] = useState<{
     show: boolean;
@@ -38,13 +40,44 @@ function PresentationsPage() {
 
   async function fetchPresentations(username: string) {
     try {
-      const data = await userApi.getUserPresentations(username);
+      const [data, pins] = await Promise.all([
+        userApi.getUserPresentations(username),
+        userApi.getUserPins(username),
+      ]);
       setPresentations(data || []);
+      setPinnedIds(
+        new Set(pins.presentations.map((presentation) => presentation.id)),
+      );
     } catch (err) {
       setError('Failed to load presentations');
     }
   }
 
+  async function togglePin(id: string) {
+    setPinningId(id);
+    try {
+      const result = pinnedIds.has(id)
+        ? await uploadApi.unpinPresentation(id)
+        : await uploadApi.pinPresentation(id);
+      setPinnedIds((prev) => {
+        const next = new Set(prev);
+        if (result.pinned) next.add(id);
+        else next.delete(id);
+        return next;
+      });
+      showToast(
+        result.pinned ? 'Pinned to your profile' : 'Unpinned from your profile',
+      );
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : 'Failed to pin presentation',
+        'bg-red-600',
+      );
+    } finally {
+      setPinningId(null);
+    }
+  }
+
   function showToast(message: string, color = 'bg-green-600') {
     setToast({ show: true, message, color });
     if (toastTimeout.current) clearTimeout(toastTimeout.current);
@@ -143,6 +176,14 @@ function PresentationsPage() {
                       </span>
                     </div>
                     <div className="flex gap-2 ml-3">
+                      <button
+                        type="button"
+                        onClick={() => togglePin(presentation.id)}
+                        disabled={pinningId === presentation.id}
+                        className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-100 rounded hover:bg-gray-300 dark:hover:bg-gray-500 disabled:opacity-50"
+                      >
+                        {pinnedIds.has(presentation.id) ? 'Unpin' : 'Pin'}
+                      </button>
                       <a
                         href={`/presentations/${presentation.id}`}
                         target="_blank"
@@ -4,6 +4,8 @@ import { userApi, uploadApi } from '@/lib/api';
 import { useAuth } from '@/contexts/AuthContext';
 import { RequireAuth } from '@/components/RequireAuth';
 import AppLayout from '@/components/AppLayout';
+import AccountMigrationSettings from '@/components/AccountMigrationSettings';
+import AccountArchiveSettings from '@/components/AccountArchiveSettings';
 
 export const Route = createFileRoute('/settings')({
   component: SettingsPage,
@@ -478,6 +480,10 @@ function SettingsPage() {
                 </div>
               </div>
             </div>
+
+            <AccountMigrationSettings />
+
+            <AccountArchiveSettings />
           </div>
         )}
       </RequireAuth>
@@ -0,0 +1,152 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+import { useEffect, useState } from 'react';
+import { tagsApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import NoteCard from '@/components/NoteCard';
+import AppLayout from '@/components/AppLayout';
+import type { Note, Tag } from '@/lib/types';
+
+export const Route = createFileRoute('/tags/$name')({
+  component: TagPage,
+});
+
+function TagPage() {
+  const { name: rawName } = Route.useParams();
+  const navigate = useNavigate();
+  const { user: currentUser } = useAuth();
+  const name = decodeURIComponent(rawName).replace(/^#/, '');
+
+  const [tag, setTag] = useState<Tag | null>(null);
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [followLoading, setFollowLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTagNotes();
+  }, [name, currentUser]);
+
+  const fetchTagNotes = async () => {
+    setLoading(true);
+    try {
+      const result = await tagsApi.getNotes(name);
+      setTag(result.tag);
+      setNotes(result.notes);
+      setNextCursor(result.nextCursor);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load hashtag');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const result = await tagsApi.getNotes(name, nextCursor);
+      setNotes((prev) => [...prev, ...result.notes]);
+      setNextCursor(result.nextCursor);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleFollow = async () => {
+    if (!currentUser) {
+      navigate({ to: '/auth/signin' });
+      return;
+    }
+    if (!tag) return;
+
+    setFollowLoading(true);
+    try {
+      const result = tag.following
+        ? await tagsApi.unfollow(name)
+        : await tagsApi.follow(name);
+      setTag({ ...tag, following: result.following });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update follow');
+    } finally {
+      setFollowLoading(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+              #{tag?.displayName || name}
+            </h1>
+            {tag && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {tag.usageCount} {tag.usageCount === 1 ? 'post' : 'posts'}
+              </p>
+            )}
+          </div>
+          {tag && (
+            <button
+              onClick={handleFollow}
+              disabled={followLoading}
+              className={`px-4 py-2 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                tag.following
+                  ? 'border border-gray-300 text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {tag.following ? 'Unfollow' : 'Follow'}
+            </button>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-2">
+          {loading ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-8 text-center">
+              <p className="text-gray-500 dark:text-gray-400">Loading...</p>
+            </div>
+          ) : error ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-8 text-center">
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          ) : notes.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-8 text-center">
+              <p className="text-gray-500 dark:text-gray-400">
+                No public posts with this hashtag yet
+              </p>
+            </div>
+          ) : (
+            <>
+              {notes.map((note) => (
+                <NoteCard
+                  key={note.id}
+                  note={note}
+                  currentUserId={currentUser?.id}
+                />
+              ))}
+
+              {nextCursor && (
+                <div className="pt-4 flex justify-center">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
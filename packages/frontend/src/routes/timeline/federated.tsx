@@ -0,0 +1,96 @@
+import { createFileRoute } from '@tanstack/react-router';
+import { useState } from 'react';
+import { useSuspenseQuery, queryOptions } from '@tanstack/react-query';
+import { notesApi } from '@/lib/api';
+import NoteCard from '@/components/NoteCard';
+import AppLayout from '@/components/AppLayout';
+import type { Note } from '@/lib/types';
+
+const federatedTimelineQueryOptions = (limit: number, offset: number) =>
+  queryOptions({
+    queryKey: ['timeline', 'federated', limit, offset],
+    queryFn: () => notesApi.getFederatedTimeline(limit, offset),
+  });
+
+export const Route = createFileRoute('/timeline/federated')({
+  loader: ({ context }) => {
+    return context.queryClient.ensureQueryData(
+      federatedTimelineQueryOptions(20, 0),
+    );
+  },
+  component: FederatedTimelinePage,
+});
+
+function FederatedTimelinePage() {
+  const [offset, setOffset] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [allNotes, setAllNotes] = useState<Note[]>([]);
+  const limit = 20;
+
+  const { data } = useSuspenseQuery(federatedTimelineQueryOptions(limit, 0));
+
+  const notes: Note[] =
+    allNotes.length > 0 ? allNotes : (data?.notes as Note[]) || [];
+  const hasMore = (data?.notes?.length || 0) === limit;
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const newOffset = offset + limit;
+    try {
+      const moreData = await notesApi.getFederatedTimeline(limit, newOffset);
+      setAllNotes((prev) => [
+        ...(prev.length > 0 ? prev : data?.notes || []),
+        ...(moreData.notes || []),
+      ]);
+      setOffset(newOffset);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="max-w-2xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Federated Timeline
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Public posts from across the fediverse, including those shared by
+            relays
+          </p>
+        </div>
+
+        {/* Timeline */}
+        <div className="space-y-2">
+          {notes.length === 0 ? (
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-8 text-center">
+              <p className="text-gray-500 dark:text-gray-400">
+                No public posts yet
+              </p>
+            </div>
+          ) : (
+            <>
+              {notes.map((note) => (
+                <NoteCard key={note.id} note={note} />
+              ))}
+
+              {hasMore && (
+                <div className="pt-4 flex justify-center">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}